@@ -0,0 +1,118 @@
+import { Request, Response, NextFunction } from 'express';
+import { alertDeliveryService } from '../../services/alerts/alertDeliveryService';
+import { userOwnsTwitterId } from '../middleware/auth.middleware';
+import { logger } from '../../utils/logger';
+import type { AlertChannelInput } from '../../models/delivery.types';
+
+/**
+ * List the enabled delivery channels of a plan
+ * @route GET /kol/alerts/channels
+ */
+export const getAlertChannels = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const twitterId = req.query.twitterId ? String(req.query.twitterId) : '';
+        const token = req.query.token ? String(req.query.token) : undefined;
+        if (!twitterId) {
+            return res.status(400).json({ error: 'twitterId query parameter is required' });
+        }
+        if (!(await userOwnsTwitterId(req, twitterId))) {
+            return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+        }
+        const channels = await alertDeliveryService.listChannels(twitterId, token);
+        res.status(200).json({ success: true, data: channels });
+    } catch (error) {
+        logger.error('Error in getAlertChannels:', error);
+        next(error);
+    }
+};
+
+/**
+ * Add a delivery channel to a plan. Webhook secrets are only returned here.
+ * @route POST /kol/alerts/channels
+ */
+export const createAlertChannel = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const input: Partial<AlertChannelInput> = {
+            twitterId: req.body?.twitterId,
+            token: req.body?.token,
+            type: req.body?.type,
+            target: req.body?.target,
+            secret: req.body?.secret,
+        };
+        if (!input.twitterId) {
+            return res.status(400).json({ error: 'Invalid alert channel', details: ['twitterId is required'] });
+        }
+        // Ownership first: validating the target resolves a caller-supplied host
+        if (!(await userOwnsTwitterId(req, String(input.twitterId)))) {
+            return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+        }
+        const errors = await alertDeliveryService.validateChannelInput(input);
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Invalid alert channel', details: errors });
+        }
+        const channel = await alertDeliveryService.createChannel(input as AlertChannelInput);
+        res.status(201).json({ success: true, data: channel });
+    } catch (error) {
+        logger.error('Error in createAlertChannel:', error);
+        next(error);
+    }
+};
+
+/**
+ * Disable a delivery channel
+ * @route DELETE /kol/alerts/channels/:channelId
+ */
+export const deleteAlertChannel = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { channelId } = req.params;
+        const twitterId = req.query.twitterId ? String(req.query.twitterId) : '';
+        if (!twitterId) {
+            return res.status(400).json({ error: 'twitterId query parameter is required' });
+        }
+        if (!(await userOwnsTwitterId(req, twitterId))) {
+            return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+        }
+        const disabled = await alertDeliveryService.disableChannel(String(channelId), twitterId);
+        if (!disabled) {
+            return res.status(404).json({ error: 'Alert channel not found' });
+        }
+        res.status(200).json({ success: true });
+    } catch (error) {
+        logger.error('Error in deleteAlertChannel:', error);
+        next(error);
+    }
+};
+
+/**
+ * Send a test message through a channel and return the delivery result
+ * @route POST /kol/alerts/channels/:channelId/test
+ */
+export const testAlertChannel = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { channelId } = req.params;
+        const twitterId = req.body?.twitterId ? String(req.body.twitterId) : '';
+        if (!twitterId) {
+            return res.status(400).json({ error: 'twitterId is required' });
+        }
+        if (!(await userOwnsTwitterId(req, twitterId))) {
+            return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+        }
+        const channel = await alertDeliveryService.getChannel(String(channelId), twitterId);
+        if (!channel) {
+            return res.status(404).json({ error: 'Alert channel not found' });
+        }
+        const result = await alertDeliveryService.deliverTo(channel, {
+            twitterId,
+            contract: channel.token,
+            chain: '',
+            kind: 'volume',
+            window: '1h',
+            text: `🔔 TEST ALERT\nThis ${channel.type} channel is connected and will receive alerts for ${channel.token}.`,
+        });
+        // Only the outcome: the target's response body and errors are not echoed back to the caller
+        res.status(200).json({ success: result.success, data: { success: result.success, statusCode: result.statusCode ?? null } });
+    } catch (error) {
+        logger.error('Error in testAlertChannel:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,115 @@
+import { Request, Response, NextFunction } from 'express';
+import { alertControlService } from '../../services/alerts/alertControlService';
+import { tokenMetricsDexscreenerPoller } from '../../services/tokenMetricsDexscreenerPoller';
+import { usersService } from '../../services/usersService';
+import { isAdmin, userOwnsTwitterId } from '../middleware/auth.middleware';
+import { logger } from '../../utils/logger';
+
+/**
+ * Active pauses affecting the current user's plans (all pauses for admins)
+ * @route GET /kol/alerts/controls
+ */
+export const getAlertControls = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        if (isAdmin(req)) {
+            const state = await alertControlService.loadState();
+            return res.status(200).json({ success: true, data: Array.from(state.values()) });
+        }
+        const linked = await usersService.getLinkedTwitterUsernames(req.user!.email);
+        const controls = await alertControlService.listForAccounts(linked);
+        res.status(200).json({ success: true, data: controls });
+    } catch (error) {
+        logger.error('Error in getAlertControls:', error);
+        next(error);
+    }
+};
+
+/**
+ * Pause or resume alerts for one plan (twitterId + token) or every plan of an X account (twitterId only)
+ * @route POST /kol/alerts/pause
+ * @route POST /kol/alerts/resume
+ */
+const setPlanPaused = (paused: boolean) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const twitterId = req.body?.twitterId ? String(req.body.twitterId) : '';
+        const token = req.body?.token ? String(req.body.token) : undefined;
+        const reason = req.body?.reason ? String(req.body.reason) : undefined;
+        if (!twitterId) {
+            return res.status(400).json({ error: 'twitterId is required' });
+        }
+        if (!(await userOwnsTwitterId(req, twitterId))) {
+            return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+        }
+        const control = await alertControlService.setPaused(token ? 'plan' : 'account', paused, req.user!.email, { twitterId, token, reason });
+        res.status(200).json({ success: true, data: control });
+    } catch (error) {
+        logger.error(`Error in ${paused ? 'pauseAlerts' : 'resumeAlerts'}:`, error);
+        next(error);
+    }
+};
+
+export const pauseAlerts = setPlanPaused(true);
+export const resumeAlerts = setPlanPaused(false);
+
+/**
+ * Evaluate a plan immediately and return which rules matched and what was (or would be) posted
+ * @route POST /kol/alerts/trigger
+ */
+export const triggerAlerts = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const twitterId = req.body?.twitterId ? String(req.body.twitterId) : '';
+        const token = req.body?.token ? String(req.body.token) : '';
+        const dryRun = req.body?.dryRun === true || req.body?.dryRun === 'true';
+        if (!twitterId || !token) {
+            return res.status(400).json({ error: 'twitterId and token are required' });
+        }
+        if (!(await userOwnsTwitterId(req, twitterId)) && !isAdmin(req)) {
+            return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+        }
+        const { result, error } = await tokenMetricsDexscreenerPoller.triggerPlan(twitterId, token, dryRun);
+        if (!result) {
+            return res.status(404).json({ error: error || 'Plan could not be evaluated' });
+        }
+        res.status(200).json({ success: true, data: result });
+    } catch (error) {
+        logger.error('Error in triggerAlerts:', error);
+        next(error);
+    }
+};
+
+/**
+ * Turn the global kill switch on or off
+ * @route PUT /kol/admin/alerts/kill-switch
+ */
+export const setKillSwitch = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        if (typeof req.body?.enabled !== 'boolean') {
+            return res.status(400).json({ error: 'enabled must be a boolean' });
+        }
+        const reason = req.body?.reason ? String(req.body.reason) : undefined;
+        const control = await alertControlService.setPaused('global', req.body.enabled, req.user!.email, { reason });
+        res.status(200).json({ success: true, data: control });
+    } catch (error) {
+        logger.error('Error in setKillSwitch:', error);
+        next(error);
+    }
+};
+
+/**
+ * Pause or resume one token across every plan
+ * @route PUT /kol/admin/alerts/tokens/:token/pause
+ */
+export const setTokenPaused = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const token = String(req.params.token || '');
+        if (typeof req.body?.paused !== 'boolean') {
+            return res.status(400).json({ error: 'paused must be a boolean' });
+        }
+        const reason = req.body?.reason ? String(req.body.reason) : undefined;
+        const control = await alertControlService.setPaused('token', req.body.paused, req.user!.email, { token, reason });
+        res.status(200).json({ success: true, data: control });
+    } catch (error) {
+        logger.error('Error in setTokenPaused:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from 'express';
+import { alertHistoryService } from '../../services/alerts/alertHistoryService';
+import { usersService } from '../../services/usersService';
+import { logger } from '../../utils/logger';
+import { ALERT_KINDS, AlertKind } from '../../models/alert.types';
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Delivered alerts for the plans linked to the current user, newest first
+ * @route GET /kol/alerts/history
+ */
+export const getAlertHistory = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const page = Math.max(1, parseInt(String(req.query.page || '1'), 10) || 1);
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(String(req.query.limit || '20'), 10) || 20));
+        const token = req.query.token ? String(req.query.token) : undefined;
+        const type = req.query.type ? String(req.query.type) : undefined;
+        const from = req.query.from ? String(req.query.from) : undefined;
+        const to = req.query.to ? String(req.query.to) : undefined;
+        const twitterId = req.query.twitterId ? String(req.query.twitterId) : undefined;
+
+        const errors: string[] = [];
+        if (type && !ALERT_KINDS.includes(type as AlertKind)) {
+            errors.push(`type must be one of ${ALERT_KINDS.join(', ')}`);
+        }
+        if (from && isNaN(Date.parse(from))) errors.push('from must be an ISO date');
+        if (to && isNaN(Date.parse(to))) errors.push('to must be an ISO date');
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Invalid query', details: errors });
+        }
+
+        const linked = await usersService.getLinkedTwitterUsernames(req.user!.email);
+        let twitterIds = linked;
+        if (twitterId) {
+            twitterIds = linked.filter(username => username.toLowerCase() === twitterId.toLowerCase());
+            if (twitterIds.length === 0) {
+                return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+            }
+        }
+
+        const { items, total } = await alertHistoryService.list({
+            twitterIds,
+            token,
+            alertType: type as AlertKind | undefined,
+            from,
+            to,
+            page,
+            limit,
+        });
+        res.status(200).json({
+            success: true,
+            data: items,
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+        });
+    } catch (error) {
+        logger.error('Error in getAlertHistory:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,82 @@
+import { Request, Response, NextFunction } from 'express';
+import { alertRuleService } from '../../services/alerts/alertRuleService';
+import { userOwnsTwitterId } from '../middleware/auth.middleware';
+import { logger } from '../../utils/logger';
+import type { AlertRuleInput } from '../../models/alert.types';
+
+/**
+ * List the enabled alert rules of a plan
+ * @route GET /kol/alerts/rules
+ */
+export const getAlertRules = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const twitterId = req.query.twitterId ? String(req.query.twitterId) : '';
+        const token = req.query.token ? String(req.query.token) : undefined;
+        if (!twitterId) {
+            return res.status(400).json({ error: 'twitterId query parameter is required' });
+        }
+        if (!(await userOwnsTwitterId(req, twitterId))) {
+            return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+        }
+        const rules = await alertRuleService.listRules(twitterId, token);
+        res.status(200).json({ success: true, data: rules });
+    } catch (error) {
+        logger.error('Error in getAlertRules:', error);
+        next(error);
+    }
+};
+
+/**
+ * Create an alert rule for a plan
+ * @route POST /kol/alerts/rules
+ */
+export const createAlertRule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const input: Partial<AlertRuleInput> = {
+            twitterId: req.body?.twitterId,
+            token: req.body?.token,
+            metric: req.body?.metric,
+            operator: req.body?.operator,
+            threshold: req.body?.threshold,
+            window: req.body?.window,
+            cooldownMinutes: req.body?.cooldownMinutes,
+        };
+        const errors = alertRuleService.validateRuleInput(input);
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Invalid alert rule', details: errors });
+        }
+        if (!(await userOwnsTwitterId(req, input.twitterId!))) {
+            return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+        }
+        const rule = await alertRuleService.createRule(input as AlertRuleInput);
+        res.status(201).json({ success: true, data: rule });
+    } catch (error) {
+        logger.error('Error in createAlertRule:', error);
+        next(error);
+    }
+};
+
+/**
+ * Disable an alert rule
+ * @route DELETE /kol/alerts/rules/:ruleId
+ */
+export const deleteAlertRule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { ruleId } = req.params;
+        const twitterId = req.query.twitterId ? String(req.query.twitterId) : '';
+        if (!twitterId) {
+            return res.status(400).json({ error: 'twitterId query parameter is required' });
+        }
+        if (!(await userOwnsTwitterId(req, twitterId))) {
+            return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+        }
+        const disabled = await alertRuleService.disableRule(String(ruleId), twitterId);
+        if (!disabled) {
+            return res.status(404).json({ error: 'Alert rule not found' });
+        }
+        res.status(200).json({ success: true });
+    } catch (error) {
+        logger.error('Error in deleteAlertRule:', error);
+        next(error);
+    }
+};
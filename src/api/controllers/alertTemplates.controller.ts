@@ -0,0 +1,118 @@
+import { Request, Response, NextFunction } from 'express';
+import { alertTemplateService, TEMPLATE_VARIABLES } from '../../services/alerts/alertTemplateService';
+import { userOwnsTwitterId } from '../middleware/auth.middleware';
+import { logger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { DEFAULT_PLAN_CHAIN, getDexLink, normalizeChain } from '../../utils/chains';
+import { ALERT_KINDS, ALERT_WINDOWS, AlertTemplateKind, AlertWindow } from '../../models/alert.types';
+
+/**
+ * List the default template set and a plan's overrides
+ * @route GET /kol/alerts/templates
+ */
+export const getAlertTemplates = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const twitterId = req.query.twitterId ? String(req.query.twitterId) : '';
+        const token = req.query.token ? String(req.query.token) : undefined;
+        let overrides: any[] = [];
+        if (twitterId) {
+            if (!(await userOwnsTwitterId(req, twitterId))) {
+                return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+            }
+            overrides = await alertTemplateService.listTemplates(twitterId, token);
+        }
+        res.status(200).json({
+            success: true,
+            variables: TEMPLATE_VARIABLES,
+            defaults: alertTemplateService.getDefaultTemplates(),
+            overrides
+        });
+    } catch (error) {
+        logger.error('Error in getAlertTemplates:', error);
+        next(error);
+    }
+};
+
+/**
+ * Save a per-plan template override after validating it
+ * @route PUT /kol/alerts/templates
+ */
+export const saveAlertTemplate = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { twitterId, token, kind, body } = req.body || {};
+        if (!twitterId || !token) {
+            return res.status(400).json({ error: 'twitterId and token are required' });
+        }
+        const validation = alertTemplateService.validate(kind as AlertTemplateKind, body);
+        if (!validation.valid) {
+            return res.status(400).json({ error: 'Invalid template', details: validation.errors, renderedLength: validation.renderedLength });
+        }
+        if (!(await userOwnsTwitterId(req, String(twitterId)))) {
+            return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+        }
+        const template = await alertTemplateService.saveTemplate(String(twitterId), String(token), kind, body);
+        res.status(200).json({ success: true, data: template, renderedLength: validation.renderedLength });
+    } catch (error) {
+        logger.error('Error in saveAlertTemplate:', error);
+        next(error);
+    }
+};
+
+/**
+ * Render a template against the latest token_metrics row of a contract
+ * @route POST /kol/alerts/templates/preview
+ */
+export const previewAlertTemplate = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { contract, twitterId, body } = req.body || {};
+        const kind = (req.body?.kind || 'volume') as AlertTemplateKind;
+        const window = (req.body?.window || '1h') as AlertWindow;
+        if (!contract || typeof contract !== 'string') {
+            return res.status(400).json({ error: 'contract is required' });
+        }
+        if (!ALERT_KINDS.includes(kind)) {
+            return res.status(400).json({ error: `kind must be one of ${ALERT_KINDS.join(', ')}` });
+        }
+        if (!ALERT_WINDOWS.includes(window)) {
+            return res.status(400).json({ error: `window must be one of ${ALERT_WINDOWS.join(', ')}` });
+        }
+        if (body !== undefined) {
+            const validation = alertTemplateService.validate(kind, body);
+            if (!validation.valid) {
+                return res.status(400).json({ error: 'Invalid template', details: validation.errors, renderedLength: validation.renderedLength });
+            }
+        }
+        if (twitterId && !(await userOwnsTwitterId(req, String(twitterId)))) {
+            return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+        }
+        const snapshot = await alertTemplateService.getLatestSnapshot(contract);
+        if (!snapshot) {
+            return res.status(404).json({ error: 'No token_metrics found for this contract' });
+        }
+        const templateBody = body !== undefined
+            ? String(body)
+            : await alertTemplateService.getTemplateBody(kind, twitterId ? String(twitterId) : undefined, contract);
+        const value = kind === 'kolConvergence' ? config.convergence.minKols
+            : kind === 'marketCap' || kind === 'marketCapMilestone' ? snapshot.marketCap
+                : kind === 'priceChange' || kind === 'pricePump' || kind === 'priceDump' ? snapshot.priceChange[window]
+                    : kind === 'buyers' ? snapshot.buyers[window]
+                        : snapshot.volume[window];
+        const text = alertTemplateService.render(
+            templateBody,
+            alertTemplateService.buildVariables(kind, snapshot, {
+                window,
+                value,
+                dexLink: getDexLink(normalizeChain(snapshot.chain) || DEFAULT_PLAN_CHAIN, snapshot.contract)
+            })
+        );
+        res.status(200).json({
+            success: true,
+            text,
+            length: Array.from(text).length,
+            template: templateBody
+        });
+    } catch (error) {
+        logger.error('Error in previewAlertTemplate:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import { kolConvergenceService } from '../../services/alerts/kolConvergenceService';
+import { usersService } from '../../services/usersService';
+import { userOwnsTwitterId } from '../middleware/auth.middleware';
+import { logger } from '../../utils/logger';
+import { toTradeChain } from '../../utils/chains';
+import type { ConvergenceSettingsInput } from '../../models/convergence.types';
+
+const MAX_SIGNALS = 200;
+
+/**
+ * Convergence alert thresholds of one X account, or of every account linked to the current user
+ * @route GET /kol/alerts/convergence
+ */
+export const getConvergenceSettings = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const twitterId = req.query.twitterId ? String(req.query.twitterId) : '';
+        if (twitterId && !(await userOwnsTwitterId(req, twitterId))) {
+            return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+        }
+        const twitterIds = twitterId ? [twitterId] : await usersService.getLinkedTwitterUsernames(req.user!.email);
+        const settings = await kolConvergenceService.getSettings(twitterIds);
+        res.status(200).json({ success: true, data: settings });
+    } catch (error) {
+        logger.error('Error in getConvergenceSettings:', error);
+        next(error);
+    }
+};
+
+/**
+ * Set the convergence alert thresholds of an X account
+ * @route PUT /kol/alerts/convergence
+ */
+export const saveConvergenceSettings = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const twitterId = req.body?.twitterId ? String(req.body.twitterId) : '';
+        const input: ConvergenceSettingsInput = {
+            enabled: req.body?.enabled,
+            minKols: req.body?.minKols,
+            windowMinutes: req.body?.windowMinutes,
+            cooldownMinutes: req.body?.cooldownMinutes,
+        };
+        const errors = kolConvergenceService.validateSettingsInput(input);
+        if (!twitterId) errors.unshift('twitterId is required');
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Invalid convergence settings', details: errors });
+        }
+        if (!(await userOwnsTwitterId(req, twitterId))) {
+            return res.status(403).json({ error: 'Twitter account is not linked to the current user' });
+        }
+        const settings = await kolConvergenceService.saveSettings(twitterId, input, req.user!.email);
+        res.status(200).json({ success: true, data: settings });
+    } catch (error) {
+        logger.error('Error in saveConvergenceSettings:', error);
+        next(error);
+    }
+};
+
+/**
+ * Recent smart-money convergence signals, newest first
+ * @route GET /kol/convergence/signals
+ */
+export const getConvergenceSignals = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { contract, from } = req.query;
+        const chain = req.query.chain ? toTradeChain(req.query.chain) : undefined;
+        const limit = Math.min(MAX_SIGNALS, Math.max(1, parseInt(String(req.query.limit || '50'), 10) || 50));
+        if (chain === null) {
+            return res.status(400).json({ error: 'Invalid chain. Must be BSC, ETH, or SOL.' });
+        }
+        if (from && isNaN(Date.parse(String(from)))) {
+            return res.status(400).json({ error: 'from must be an ISO date' });
+        }
+        const signals = await kolConvergenceService.listSignals({
+            chain,
+            contract: contract ? String(contract) : undefined,
+            from: from ? new Date(String(from)).toISOString() : undefined,
+            limit,
+        });
+        res.status(200).json({ success: true, data: signals });
+    } catch (error) {
+        logger.error('Error in getConvergenceSignals:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import { deadLetterService } from '../../services/deadLetterService';
+import { logger } from '../../utils/logger';
+import { DEAD_LETTER_REASONS, DEAD_LETTER_STATUSES, DeadLetterReason, DeadLetterStatus } from '../../models/deadLetter.types';
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Rejected Kafka messages, newest first, with per-reason totals
+ * @route GET /kol/admin/kafka/dead-letters
+ */
+export const getDeadLetters = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const page = Math.max(1, parseInt(String(req.query.page || '1'), 10) || 1);
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(String(req.query.limit || '20'), 10) || 20));
+        const reason = req.query.reason ? String(req.query.reason) : undefined;
+        const status = req.query.status ? String(req.query.status) : undefined;
+        const topic = req.query.topic ? String(req.query.topic) : undefined;
+        const from = req.query.from ? String(req.query.from) : undefined;
+        const to = req.query.to ? String(req.query.to) : undefined;
+
+        const errors: string[] = [];
+        if (reason && !DEAD_LETTER_REASONS.includes(reason as DeadLetterReason)) {
+            errors.push(`reason must be one of ${DEAD_LETTER_REASONS.join(', ')}`);
+        }
+        if (status && !DEAD_LETTER_STATUSES.includes(status as DeadLetterStatus)) {
+            errors.push(`status must be one of ${DEAD_LETTER_STATUSES.join(', ')}`);
+        }
+        if (from && isNaN(Date.parse(from))) errors.push('from must be an ISO date');
+        if (to && isNaN(Date.parse(to))) errors.push('to must be an ISO date');
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Invalid query', details: errors });
+        }
+
+        const [{ items, total }, counts] = await Promise.all([
+            deadLetterService.list({
+                reason: reason as DeadLetterReason | undefined,
+                status: status as DeadLetterStatus | undefined,
+                topic,
+                from,
+                to,
+                page,
+                limit,
+            }),
+            deadLetterService.countByReason(),
+        ]);
+        res.status(200).json({
+            success: true,
+            data: items,
+            counts,
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+        });
+    } catch (error) {
+        logger.error('Error in getDeadLetters:', error);
+        next(error);
+    }
+};
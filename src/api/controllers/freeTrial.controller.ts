@@ -23,6 +23,7 @@ interface QueryResult {
 import { questdbService } from '../../services/questDbService';
 import { logger } from '../../utils/logger';
 import { config } from '../../utils/config';
+import { CHAINS, DEFAULT_PLAN_CHAIN, normalizeChain } from '../../utils/chains';
 import TwitterApi from 'twitter-api-v2';
 
 export class FreeTrialController {
@@ -43,6 +44,14 @@ export class FreeTrialController {
       });
     }
 
+    const chain = normalizeChain(req.body.chain ?? DEFAULT_PLAN_CHAIN);
+    if (!chain) {
+      return res.status(400).json({
+        success: false,
+        message: `Unsupported chain. Supported chains are ${Object.keys(CHAINS).join(', ')}`
+      });
+    }
+
     try {
       // Check if user already has an active free trial
       const checkQuery = `
@@ -93,7 +102,8 @@ export class FreeTrialController {
           created_at,
           updated_at,
           twitter_community,
-          token
+          token,
+          chain
         ) VALUES (
           now(),
           '${username.replace(/'/g, "''")}',
@@ -105,7 +115,8 @@ export class FreeTrialController {
           now(),
           now(),
           '${twitter_community.replace(/'/g, "''")}',
-          '${token.replace(/'/g, "''")}'
+          '${token.replace(/'/g, "''")}',
+          '${chain}'
         )`;
 
       await questdbService.query(insertQuery);
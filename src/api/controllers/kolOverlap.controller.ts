@@ -0,0 +1,92 @@
+import { Request, Response, NextFunction } from 'express';
+import { kolOverlapService } from '../../services/kolOverlapService';
+import { toTradeChain } from '../../utils/chains';
+import { logger } from '../../utils/logger';
+import { LEADERBOARD_PERIODS, LeaderboardPeriod } from '../../models/kols.types';
+
+const DEFAULT_MIN_SHARED = 2;
+const DEFAULT_MIN_SIMILARITY = 0.3;
+const DEFAULT_MAX_KOLS = 50;
+const MAX_MATRIX_KOLS = 200;
+const DEFAULT_CORRELATED_LIMIT = 20;
+const MAX_CORRELATED_LIMIT = 100;
+
+const parseIntParam = (value: unknown, fallback: number) => value === undefined ? fallback : parseInt(String(value), 10);
+
+/**
+ * Co-occurrence matrix, leader/follower lags and clusters of KOLs buying the same tokens
+ * @route GET /kol/overlap
+ */
+export const getKolOverlap = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const period = String(req.query.period || '1w');
+        const chain = req.query.chain ? toTradeChain(req.query.chain) : undefined;
+        const minShared = parseIntParam(req.query.minShared, DEFAULT_MIN_SHARED);
+        const minSimilarity = req.query.minSimilarity === undefined ? DEFAULT_MIN_SIMILARITY : Number(req.query.minSimilarity);
+        const maxKols = parseIntParam(req.query.maxKols, DEFAULT_MAX_KOLS);
+
+        const errors: string[] = [];
+        if (!LEADERBOARD_PERIODS.includes(period as LeaderboardPeriod)) {
+            errors.push(`period must be one of ${LEADERBOARD_PERIODS.join(', ')}`);
+        }
+        if (chain === null) errors.push('chain must be one of BSC, ETH, SOL');
+        if (isNaN(minShared) || minShared < 1) errors.push('minShared must be a positive integer');
+        if (isNaN(minSimilarity) || minSimilarity < 0 || minSimilarity > 1) errors.push('minSimilarity must be between 0 and 1');
+        if (isNaN(maxKols) || maxKols < 1 || maxKols > MAX_MATRIX_KOLS) errors.push(`maxKols must be between 1 and ${MAX_MATRIX_KOLS}`);
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Invalid query', details: errors });
+        }
+
+        const data = await kolOverlapService.getOverlap({
+            period: period as LeaderboardPeriod,
+            chain: chain ?? undefined,
+            minShared,
+            minSimilarity,
+            maxKols,
+        });
+        res.status(200).json({ success: true, data });
+    } catch (error) {
+        logger.error('Error in getKolOverlap:', error);
+        next(error);
+    }
+};
+
+/**
+ * KOLs whose buys overlap most with one KOL's, with who tends to buy first
+ * @route GET /kol/overlap/:kolId
+ */
+export const getCorrelatedKols = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const kolId = String(req.params.kolId || '');
+        const period = String(req.query.period || '1w');
+        const chain = req.query.chain ? toTradeChain(req.query.chain) : undefined;
+        const minShared = parseIntParam(req.query.minShared, DEFAULT_MIN_SHARED);
+        const limit = parseIntParam(req.query.limit, DEFAULT_CORRELATED_LIMIT);
+
+        const errors: string[] = [];
+        if (!/^\d+$/.test(kolId)) errors.push('kolId must be numeric');
+        if (!LEADERBOARD_PERIODS.includes(period as LeaderboardPeriod)) {
+            errors.push(`period must be one of ${LEADERBOARD_PERIODS.join(', ')}`);
+        }
+        if (chain === null) errors.push('chain must be one of BSC, ETH, SOL');
+        if (isNaN(minShared) || minShared < 1) errors.push('minShared must be a positive integer');
+        if (isNaN(limit) || limit < 1 || limit > MAX_CORRELATED_LIMIT) errors.push(`limit must be between 1 and ${MAX_CORRELATED_LIMIT}`);
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Invalid request', details: errors });
+        }
+
+        const data = await kolOverlapService.getCorrelatedKols(kolId, {
+            period: period as LeaderboardPeriod,
+            chain: chain ?? undefined,
+            minShared,
+            limit,
+        });
+        if (!data) {
+            return res.status(404).json({ error: 'No buys found for this KOL in the period' });
+        }
+        res.status(200).json({ success: true, data });
+    } catch (error) {
+        logger.error('Error in getCorrelatedKols:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express';
+import { kolTradeService } from '../services/kolsActivity.service';
+import { toTradeChain } from '../../utils/chains';
+import { logger } from '../../utils/logger';
+
+const DEFAULT_TRADES_LIMIT = 20;
+const MAX_TRADES_LIMIT = 100;
+
+/**
+ * Profile, win rate, PnL, holdings and recent trades of one KOL
+ * @route GET /kol/kols/:kolId
+ */
+export const getKolProfile = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const kolId = String(req.params.kolId || '');
+        const chainParam = req.query.chain ? String(req.query.chain) : undefined;
+        const tradesLimit = Math.min(MAX_TRADES_LIMIT, Math.max(1, parseInt(String(req.query.tradesLimit || DEFAULT_TRADES_LIMIT), 10) || DEFAULT_TRADES_LIMIT));
+
+        const errors: string[] = [];
+        if (!/^\d+$/.test(kolId)) errors.push('kolId must be numeric');
+        const chain = chainParam ? toTradeChain(chainParam) : undefined;
+        if (chain === null) errors.push('chain must be one of BSC, ETH, SOL');
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Invalid request', details: errors });
+        }
+
+        await kolTradeService.init();
+        const profile = await kolTradeService.getKolProfile(kolId, { chain: chain ?? undefined, tradesLimit });
+        if (!profile) {
+            return res.status(404).json({ error: 'No trades found for this KOL' });
+        }
+        res.status(200).json({ success: true, data: profile });
+    } catch (error) {
+        logger.error('Error in getKolProfile:', error);
+        next(error);
+    }
+};
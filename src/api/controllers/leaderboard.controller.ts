@@ -1,12 +1,16 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { KolService } from '../../services/kolsLeaderboard';
 import { logger } from '../../utils/logger';
+import { toTradeChain } from '../../utils/chains';
+import { LEADERBOARD_PERIODS, LEADERBOARD_SORTS, LeaderboardPeriod, LeaderboardSort } from '../../models/kols.types';
 // Initialize the service instance
 const kolService = new KolService();
 
+const MAX_PAGE_SIZE = 100;
+
 
 export const getKolLeaderboards = async (req: Request, res: Response): Promise<void> => {
-    const { contractAddress, chain } = req.query;
+    const { contractAddress, chain, enrich } = req.query;
 
     if (!contractAddress || typeof contractAddress !== 'string') {
         logger.warn('400: Missing or invalid contractAddress in query.');
@@ -14,26 +18,71 @@ export const getKolLeaderboards = async (req: Request, res: Response): Promise<v
         return;
     }
 
-    // Safely cast and validate the optional chain parameter
-    const safeChain = (
-        (typeof chain === 'string' && (chain === 'Solana' || chain === 'BSC'))
-            ? chain
-            : 'Solana' // Default to Solana if not provided or invalid
-    ) as 'Solana' | 'BSC';
+    // Optional chain filter; accepts the old 'Solana' spelling as well as BSC | ETH | SOL
+    const safeChain = chain ? toTradeChain(chain) : undefined;
+    if (safeChain === null) {
+        res.status(400).json({ error: 'Invalid chain. Must be BSC, ETH, or SOL.' });
+        return;
+    }
 
     try {
-        const data = await kolService.getLeaderboards(contractAddress, safeChain);
+        const data = await kolService.getLeaderboards(contractAddress, safeChain, String(enrich) === 'true');
 
         // Send a successful response with the fetched data
         res.status(200).json(data);
 
     } catch (error) {
-        logger.error(`500: Failed to fetch KOL leaderboards for ${contractAddress}.`, error);
+        logger.error(`500: Failed to build KOL leaderboards for ${contractAddress}.`, error);
 
         // Send a generic 500 error response
         res.status(500).json({
             error: 'Internal Server Error',
-            details: 'Could not fetch data from external API.'
+            details: 'Could not build the KOL leaderboard.'
+        });
+    }
+};
+
+/**
+ * KOLs ranked by PnL, win rate, volume or early entry over a period
+ * @route GET /kol/leaderboard/global
+ */
+export const getGlobalKolLeaderboard = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const period = String(req.query.period || '24h');
+        const sortBy = String(req.query.sortBy || 'pnl');
+        const page = Math.max(1, parseInt(String(req.query.page || '1'), 10) || 1);
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(String(req.query.limit || '20'), 10) || 20));
+        const chain = req.query.chain ? toTradeChain(req.query.chain) : undefined;
+
+        const errors: string[] = [];
+        if (!LEADERBOARD_PERIODS.includes(period as LeaderboardPeriod)) {
+            errors.push(`period must be one of ${LEADERBOARD_PERIODS.join(', ')}`);
+        }
+        if (!LEADERBOARD_SORTS.includes(sortBy as LeaderboardSort)) {
+            errors.push(`sortBy must be one of ${LEADERBOARD_SORTS.join(', ')}`);
+        }
+        if (chain === null) errors.push('chain must be one of BSC, ETH, SOL');
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Invalid query', details: errors });
+        }
+
+        const { items, total } = await kolService.getGlobalLeaderboards({
+            period: period as LeaderboardPeriod,
+            chain: chain ?? undefined,
+            sortBy: sortBy as LeaderboardSort,
+            page,
+            limit,
+        });
+        res.status(200).json({
+            success: true,
+            period,
+            chain: chain ?? null,
+            sortBy,
+            data: items,
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
         });
+    } catch (error) {
+        logger.error('Error in getGlobalKolLeaderboard:', error);
+        next(error);
     }
 };
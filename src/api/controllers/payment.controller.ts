@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { walletService } from '../../services/payments/paymentService';
 import { logger } from '../../utils/logger';
+import { CHAINS, normalizeChain } from '../../utils/chains';
 import { questdbService } from '../../services/questDbService';
 import { paymentChecker } from '../../services/payments/paymentChecker';
 
@@ -349,7 +350,7 @@ const validateAndExtractUser = async (req: Request, res?: Response): Promise<{ t
 
 const generateWalletKeypair = async (req: Request, res: Response): Promise<void> => {
     // twitterId and email are now sourced from the validated token, not the body.
-    const { chain, amount, serviceType, wallet, token, twitter_community } = req.body;
+    const { chain, amount, serviceType, wallet, token, twitter_community, tokenChain } = req.body;
     let validatedUser: { twitterId: string, email: string };
     try {
         // Await the asynchronous validation function (pass res for refresh)
@@ -377,6 +378,13 @@ const generateWalletKeypair = async (req: Request, res: Response): Promise<void>
         res.status(400).json({ error: 'Amount must be a positive number.' });
         return;
     }
+    // The token being alerted defaults to the payment chain
+    const planChain = normalizeChain(tokenChain ?? chain);
+    if (!planChain) {
+        logger.warn(`Invalid token chain provided: ${tokenChain}`);
+        res.status(400).json({ error: `Unsupported token chain: ${tokenChain}. Supported chains are ${Object.keys(CHAINS).join(', ')}.` });
+        return;
+    }
     let walletDetails;
     try {
         walletDetails = await walletService.generateAndLogKeyPair(
@@ -387,7 +395,8 @@ const generateWalletKeypair = async (req: Request, res: Response): Promise<void>
             wallet,
             token,
             twitter_community,
-            email // Sourced from validated token
+            email, // Sourced from validated token
+            planChain
         );
     } catch (error) {
         logger.error('Error generating wallet keypair in controller', { error, chain, twitterId });
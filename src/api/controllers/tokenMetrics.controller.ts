@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import { tokenMetricsHistoryService } from '../../services/tokenMetricsHistoryService';
+import { logger } from '../../utils/logger';
+import { normalizeChain } from '../../utils/chains';
+import { METRICS_INTERVALS, MetricsInterval } from '../../models/token.types';
+
+/**
+ * Price (OHLC), market cap and volume of a token over time, bucketed by interval
+ * @route GET /kol/token/:contract/metrics
+ */
+export const getTokenMetricsSeries = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const contract = String(req.params.contract || '').trim();
+        const interval = String(req.query.interval || '1h') as MetricsInterval;
+        const from = req.query.from ? String(req.query.from) : undefined;
+        const to = req.query.to ? String(req.query.to) : undefined;
+        const chainParam = req.query.chain ? String(req.query.chain) : undefined;
+
+        const errors: string[] = [];
+        if (!contract) errors.push('contract is required');
+        if (!METRICS_INTERVALS.includes(interval)) errors.push(`interval must be one of ${METRICS_INTERVALS.join(', ')}`);
+        const chain = chainParam ? normalizeChain(chainParam) : undefined;
+        if (chainParam && !chain) errors.push(`Unsupported chain: ${chainParam}`);
+        const range = errors.length === 0 ? tokenMetricsHistoryService.resolveRange(interval, from, to) : null;
+        if (range && 'error' in range) errors.push(range.error);
+        if (errors.length > 0 || !range || 'error' in range) {
+            return res.status(400).json({ error: 'Invalid query', details: errors });
+        }
+
+        const series = await tokenMetricsHistoryService.getSeries(contract, interval, range.from, range.to, chain || undefined);
+        res.status(200).json({ success: true, data: series });
+    } catch (error) {
+        logger.error('Error in getTokenMetricsSeries:', error);
+        next(error);
+    }
+};
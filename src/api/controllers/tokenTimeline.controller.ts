@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import { kolTradeService } from '../services/kolsActivity.service';
+import { toTradeChain } from '../../utils/chains';
+import { logger } from '../../utils/logger';
+
+/**
+ * Ordered story of how KOLs entered, added to and exited one token
+ * @route GET /kol/token/:contract/kol-timeline
+ */
+export const getTokenKolTimeline = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const contract = String(req.params.contract || '').trim();
+        const chainParam = req.query.chain ? String(req.query.chain) : undefined;
+
+        const errors: string[] = [];
+        if (!contract) errors.push('contract is required');
+        const chain = chainParam ? toTradeChain(chainParam) : undefined;
+        if (chain === null) errors.push('chain must be one of BSC, ETH, SOL');
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Invalid request', details: errors });
+        }
+
+        await kolTradeService.init();
+        const timeline = await kolTradeService.getTokenKolTimeline(contract, chain ?? undefined);
+        if (!timeline) {
+            return res.status(404).json({ error: 'No KOL trades found for this token' });
+        }
+        res.status(200).json({ success: true, data: timeline });
+    } catch (error) {
+        logger.error('Error in getTokenKolTimeline:', error);
+        next(error);
+    }
+};
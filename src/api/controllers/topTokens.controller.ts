@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express';
+import { kolTradeService } from '../services/kolsActivity.service';
+import { logger } from '../../utils/logger';
+import { toTradeChain } from '../../utils/chains';
+import { TOP_TOKEN_SORTS, TopTokenCursor, TopTokenSort } from '../../models/kols.types';
+
+const TOP_TOKEN_PERIODS = ['1h', '24h', '1w'];
+const MAX_PAGE_SIZE = 100;
+
+// ISO date or epoch milliseconds
+const parseDate = (value: unknown): Date | null => {
+    const str = String(value);
+    const date = /^\d+$/.test(str) ? new Date(Number(str)) : new Date(str);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Tokens ranked by KOL activity over a period or a from/to window, with cursor pagination
+ * @route GET /kol/top-tokens
+ */
+export const getTopTokens = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        await kolTradeService.init();
+        const { period, from, to } = req.query;
+        const sortBy = String(req.query.sortBy || 'kols');
+        const limit = parseInt(String(req.query.limit ?? '10'), 10);
+        const chain = req.query.chain ? toTradeChain(req.query.chain) : undefined;
+        const fromDate = from ? parseDate(from) : undefined;
+        const toDate = to ? parseDate(to) : undefined;
+
+        const errors: string[] = [];
+        if (!from && !to && !TOP_TOKEN_PERIODS.includes(String(period))) {
+            errors.push('period must be one of 1h, 24h, 1w unless from/to is given');
+        }
+        if (fromDate === null) errors.push('from must be an ISO date or epoch milliseconds');
+        if (toDate === null) errors.push('to must be an ISO date or epoch milliseconds');
+        if (fromDate && toDate && fromDate >= toDate) errors.push('from must be before to');
+        if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) errors.push(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+        if (chain === null) errors.push('chain must be one of BSC, ETH, SOL');
+        if (!TOP_TOKEN_SORTS.includes(sortBy as TopTokenSort)) {
+            errors.push(`sortBy must be one of ${TOP_TOKEN_SORTS.join(', ')}`);
+        }
+        let cursor: TopTokenCursor | null | undefined;
+        if (req.query.cursor && errors.length === 0) {
+            cursor = kolTradeService.parseTopTokenCursor(String(req.query.cursor), sortBy as TopTokenSort);
+            if (!cursor) errors.push('cursor is invalid or was issued for another sortBy');
+        }
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Invalid query', details: errors });
+        }
+
+        const windowed = Boolean(fromDate || toDate);
+        const { items, nextCursor, truncated } = await kolTradeService.getTopTokensByKolActivity({
+            period: windowed ? undefined : String(period) as '1h' | '24h' | '1w',
+            from: fromDate ?? undefined,
+            to: toDate ?? undefined,
+            chain: chain ?? undefined,
+            sortBy: sortBy as TopTokenSort,
+            limit,
+            cursor: cursor ?? undefined,
+            includeKols: String(req.query.includeKols) === 'true',
+        });
+        res.status(200).json({
+            success: true,
+            period: windowed ? null : String(period),
+            from: fromDate ? fromDate.toISOString() : null,
+            to: toDate ? toDate.toISOString() : null,
+            chain: chain ?? null,
+            sortBy,
+            data: items,
+            pagination: { limit, nextCursor, truncated },
+        });
+    } catch (error) {
+        logger.error('Error in getTopTokens:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import { kolTradeService } from '../services/kolsActivity.service';
+import { tradeStreamService } from '../../services/tradeStreamService';
+import { logger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { normalizeAddress, toTradeChain } from '../../utils/chains';
+import type { KolStreamTrade, KolTradeStreamFilter } from '../../models/kols.types';
+
+// Sides plus the feed actions stored in kol_trades.action
+const STREAM_ACTIONS = ['buy', 'sell', 'default', 'initial_position', 'add_position', 'partial_sell', 'full_sell'];
+
+// Reconnect delay suggested to EventSource clients
+const RETRY_MS = 3000;
+
+const tradeKey = (trade: KolStreamTrade) => `${trade.chain}:${trade.kol.id}:${trade.txHash}`;
+
+// Trades from one feed message share a timestamp, so event ids carry the trade key as well as the time
+const eventId = (trade: KolStreamTrade) => `${new Date(trade.timestamp).getTime()}:${tradeKey(trade)}`;
+
+interface ResumePoint {
+    since: Date;
+    // Key of the last trade the client received, when resuming from an event id
+    lastKey?: string;
+}
+
+// An event id we sent, an ISO date or epoch milliseconds
+const parseResumePoint = (value: unknown): ResumePoint | null => {
+    if (value == null || value === '') return null;
+    const str = String(value);
+    const fromEventId = str.match(/^(\d+):(.+)$/);
+    const date = fromEventId ? new Date(Number(fromEventId[1])) : /^\d+$/.test(str) ? new Date(Number(str)) : new Date(str);
+    return isNaN(date.getTime()) ? null : { since: date, lastKey: fromEventId?.[2] };
+};
+
+/**
+ * Drops replayed trades the client already received: those at the resume time up to and including
+ * its last event, in the order they were streamed. Without a known last event nothing is dropped.
+ */
+const skipDelivered = (trades: KolStreamTrade[], resume: ResumePoint): KolStreamTrade[] => {
+    if (!resume.lastKey) return trades;
+    const at = resume.since.getTime();
+    const last = trades.findIndex(trade => new Date(trade.timestamp).getTime() === at && tradeKey(trade) === resume.lastKey);
+    return last < 0 ? trades : trades.slice(last + 1);
+};
+
+/**
+ * Live KOL trades over Server-Sent Events, with optional resume from a timestamp
+ * @route GET /kol/stream/trades
+ */
+export const streamKolTrades = async (req: Request, res: Response) => {
+    const chain = req.query.chain ? toTradeChain(req.query.chain) : undefined;
+    const kolId = req.query.kolId ? String(req.query.kolId) : undefined;
+    const actions = req.query.action
+        ? String(req.query.action).split(',').map(a => a.trim().toLowerCase()).filter(Boolean)
+        : undefined;
+    const resumeFrom = req.query.since ?? req.get('Last-Event-ID');
+    const resume = parseResumePoint(resumeFrom);
+
+    const errors: string[] = [];
+    if (chain === null) errors.push('chain must be one of BSC, ETH, SOL');
+    if (kolId && !/^\d+$/.test(kolId)) errors.push('kolId must be numeric');
+    const unknownActions = (actions || []).filter(a => !STREAM_ACTIONS.includes(a));
+    if (unknownActions.length > 0) errors.push(`action must be one of ${STREAM_ACTIONS.join(', ')}`);
+    if (resumeFrom && !resume) errors.push('since must be an event id, ISO date or epoch milliseconds');
+    if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid query', details: errors });
+    }
+    const filter: KolTradeStreamFilter = {
+        chain: chain ?? undefined,
+        contract: req.query.contract ? (chain ? normalizeAddress(chain, String(req.query.contract)) : String(req.query.contract)) : undefined,
+        kolId,
+        actions,
+    };
+
+    res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        // Stop nginx from buffering the stream
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const send = (event: string, data: unknown, id?: string) => {
+        res.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    const sendTrade = (trade: KolStreamTrade) => send('trade', trade, eventId(trade));
+
+    // Subscribe before replaying so nothing ingested during the replay is missed; live trades are held back until it ends
+    let pending: KolStreamTrade[] | null = resume ? [] : null;
+    const unsubscribe = tradeStreamService.subscribe(trade => {
+        if (!kolTradeService.matchesStreamFilter(trade, filter)) return;
+        if (pending) pending.push(trade);
+        else sendTrade(trade);
+    });
+    const heartbeat = setInterval(() => send('heartbeat', { time: new Date().toISOString() }), config.stream.heartbeatMs);
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+    });
+    logger.info(`[TradeStream] Client connected (${tradeStreamService.clientCount} open)${resume ? `, resuming from ${resume.since.toISOString()}` : ''}`);
+
+    if (!resume) return;
+    try {
+        const stored = await kolTradeService.getTradesSince(resume.since.toISOString(), filter, config.stream.resumeLimit);
+        const sent = new Set(stored.map(tradeKey));
+        const replayed = skipDelivered(stored, resume);
+        replayed.forEach(sendTrade);
+        for (const trade of pending || []) {
+            if (!sent.has(tradeKey(trade))) sendTrade(trade);
+        }
+        send('resumed', { since: resume.since.toISOString(), replayed: replayed.length, limit: config.stream.resumeLimit });
+    } catch (error) {
+        logger.error('Error in streamKolTrades resume:', error);
+        send('error', { error: 'Could not replay missed trades' });
+        for (const trade of pending || []) sendTrade(trade);
+    } finally {
+        pending = null;
+    }
+};
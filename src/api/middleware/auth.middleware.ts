@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from 'express';
+import { usersService } from '../../services/usersService';
+import { questdbService } from '../../services/questDbService';
+import { logger } from '../../utils/logger';
+import { config } from '../../utils/config';
+
+/**
+ * Resolves the Google cookie session (same cookies as GET /kol/me) and sets req.user.
+ * Responds with 401 when the session is missing or invalid.
+ */
+export const requireGoogleUser = async (req: Request, res: Response, next: NextFunction) => {
+    const accessToken = req.cookies?.google_access_token;
+    const refreshToken = req.cookies?.google_refresh_token;
+    if (!accessToken) {
+        return res.status(401).json({ error: 'No access token provided' });
+    }
+    try {
+        await questdbService.init();
+        const user = await usersService.getCurrentUser(accessToken, refreshToken);
+        if (!user?.email) {
+            return res.status(401).json({ error: 'Invalid token: No email found' });
+        }
+        req.user = user;
+        next();
+    } catch (error: any) {
+        logger.warn('requireGoogleUser: session validation failed', { error: error.message });
+        return res.status(401).json({ error: 'Invalid or expired authentication token' });
+    }
+};
+
+/**
+ * Checks that the current user owns the plan identified by twitterId,
+ * i.e. the Twitter account is linked to their Google account.
+ */
+export const userOwnsTwitterId = async (req: Request, twitterId: string): Promise<boolean> => {
+    if (!req.user?.email || !twitterId) return false;
+    const linked = await usersService.getLinkedTwitterUsernames(req.user.email);
+    return linked.some(username => username.toLowerCase() === twitterId.toLowerCase());
+};
+
+export const isAdmin = (req: Request): boolean =>
+    Boolean(req.user?.email && config.adminEmails.includes(String(req.user.email).toLowerCase()));
+
+/**
+ * Allows only users listed in ADMIN_EMAILS. Must run after requireGoogleUser.
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+    if (!isAdmin(req)) {
+        return res.status(403).json({ error: 'Admin access required' });
+    }
+    next();
+};
@@ -1,11 +1,24 @@
-import { Router, Request, Response, NextFunction } from 'express';
-import { getKolLeaderboards } from '../controllers/leaderboard.controller';
+import { Router } from 'express';
+import { getKolLeaderboards, getGlobalKolLeaderboard } from '../controllers/leaderboard.controller';
 import { getTokenDetails } from '../controllers/tokenInfo.controller';
-import { kolTradeService } from '../services/kolsActivity.service';
 import { generateTwitterLoginUrl, handleTwitterCallback, handleTwitterLogout } from '../services/twitter.auth';
 import { generateWalletKeypair, getPaymentStatus } from '../controllers/payment.controller';
 import { freeTrialController } from '../controllers/freeTrial.controller';
 import { googleAuthCallback, googleAuthInit, verifyGoogleToken, logoutUser, getCurrentUserProfile, getAllUsers, getCurrentUserPaymentHistory } from '../controllers/user.controller';
+import { getAlertRules, createAlertRule, deleteAlertRule } from '../controllers/alertRules.controller';
+import { getAlertTemplates, saveAlertTemplate, previewAlertTemplate } from '../controllers/alertTemplates.controller';
+import { getAlertChannels, createAlertChannel, deleteAlertChannel, testAlertChannel } from '../controllers/alertChannels.controller';
+import { getAlertHistory } from '../controllers/alertHistory.controller';
+import { getTokenMetricsSeries } from '../controllers/tokenMetrics.controller';
+import { getAlertControls, pauseAlerts, resumeAlerts, triggerAlerts, setKillSwitch, setTokenPaused } from '../controllers/alertControls.controller';
+import { getDeadLetters } from '../controllers/deadLetters.controller';
+import { getKolProfile } from '../controllers/kolProfile.controller';
+import { getConvergenceSettings, saveConvergenceSettings, getConvergenceSignals } from '../controllers/convergence.controller';
+import { streamKolTrades } from '../controllers/tradeStream.controller';
+import { getTokenKolTimeline } from '../controllers/tokenTimeline.controller';
+import { getTopTokens } from '../controllers/topTokens.controller';
+import { getKolOverlap, getCorrelatedKols } from '../controllers/kolOverlap.controller';
+import { requireGoogleUser, requireAdmin } from '../middleware/auth.middleware';
 
 const kolsLeaderboardRouter = Router();
 /**
@@ -13,6 +26,7 @@ const kolsLeaderboardRouter = Router();
  * /kol/leaderboard:
  *   get:
  *     summary: Get KOL leaderboards for a specific token
+ *     description: Built from our own KOL trades; tradeStatList amounts are USD traded. With enrich=true (and a CabalSpy key configured) KOLs only CabalSpy tracks are appended.
  *     tags: [KOL Leaderboard]
  *     parameters:
  *       - in: query
@@ -25,8 +39,14 @@ const kolsLeaderboardRouter = Router();
  *         name: chain
  *         schema:
  *           type: string
- *           default: BSC
- *         description: The blockchain network (e.g., BSC, ETH)
+ *           enum: [BSC, ETH, SOL]
+ *         description: Optional chain filter
+ *       - in: query
+ *         name: enrich
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Add KOLs from CabalSpy (Solana when chain is omitted, BSC for BSC; not available for ETH)
  *     responses:
  *       200:
  *         description: Successfully retrieved KOL leaderboards
@@ -40,6 +60,53 @@ const kolsLeaderboardRouter = Router();
  *         description: Internal server error
  */
 kolsLeaderboardRouter.get('/leaderboard', getKolLeaderboards);
+/**
+ * @swagger
+ * /kol/leaderboard/global:
+ *   get:
+ *     summary: Global KOL leaderboard
+ *     description: |
+ *       Ranks every tracked KOL over the period using our own KOL trades. PnL uses average cost within the
+ *       period (realised on sells, unrealised on open holdings at the latest token_metrics price). Win rate is
+ *       the share of tokens sold at a profit. The early-entry score (0-100) averages how early the KOL bought each
+ *       token compared with the other KOLs who bought it. Results are cached for a minute.
+ *     tags: [KOL Leaderboard]
+ *     parameters:
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [1h, 24h, 1w, all]
+ *           default: 24h
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [pnl, winRate, volume, earlyEntry]
+ *           default: pnl
+ *       - in: query
+ *         name: chain
+ *         schema:
+ *           type: string
+ *           enum: [BSC, ETH, SOL]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Ranked KOLs (rank, kol, pnlUsd, realisedPnlUsd, unrealisedPnlUsd, winRate, volumeUsd, earlyEntryScore...) with pagination
+ *       400:
+ *         description: Invalid query
+ */
+kolsLeaderboardRouter.get('/leaderboard/global', getGlobalKolLeaderboard);
 /**
  * @swagger
  * /kol/info:
@@ -73,15 +140,32 @@ kolsLeaderboardRouter.get('/info', getTokenDetails);
  * /kol/top-tokens:
  *   get:
  *     summary: Get top tokens by KOL trading activity
+ *     description: Tokens traded by KOLs over a rolling period or a from/to window, sorted and paginated with a cursor. Prices come from token_metrics.
  *     tags: [KOL Trades]
  *     parameters:
  *       - in: query
  *         name: period
- *         required: true
  *         schema:
  *           type: string
  *           enum: [1h, 24h, 1w]
- *         description: Time period for filtering trades (1h, 24h, or 1w)
+ *         description: Rolling time period; required unless from or to is given
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *         description: Window start (inclusive), ISO date or epoch milliseconds
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *         description: Window end (exclusive), ISO date or epoch milliseconds; defaults to now
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [kols, netInflow, buySellRatio, volume, recent]
+ *           default: kols
+ *         description: kols = unique KOLs then trades; netInflow = USD bought minus sold; buySellRatio = USD bought / sold (tokens nobody sold first); volume = USD traded; recent = latest trade
  *       - in: query
  *         name: limit
  *         schema:
@@ -89,49 +173,69 @@ kolsLeaderboardRouter.get('/info', getTokenDetails);
  *           default: 10
  *           minimum: 1
  *           maximum: 100
- *         description: Number of top tokens to return
+ *         description: Page size
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: pagination.nextCursor of the previous page, requested with the same filters and sortBy
+ *       - in: query
+ *         name: includeKols
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Embed the KOLs that traded each token in the window
  *       - in: query
  *         name: chain
  *         schema:
  *           type: string
  *           enum: [BSC, ETH, SOL]
- *         description: Optional chain filter
+ *         description: Optional chain filter. Buys and sells are detected against each chain's quote tokens (WBNB, WETH, WSOL, stablecoins).
  *     responses:
  *       200:
  *         description: Successfully retrieved top tokens by KOL activity
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/TopTokenResponse'
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 period:
+ *                   type: string
+ *                   nullable: true
+ *                 from:
+ *                   type: string
+ *                   nullable: true
+ *                 to:
+ *                   type: string
+ *                   nullable: true
+ *                 chain:
+ *                   type: string
+ *                   nullable: true
+ *                 sortBy:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TopTokenResponse'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     limit:
+ *                       type: integer
+ *                     nextCursor:
+ *                       type: string
+ *                       nullable: true
+ *                     truncated:
+ *                       type: boolean
+ *                       description: The window has more tokens than can be ranked (5000); only the top ones by sortBy are paged
  *       400:
  *         description: Invalid input parameters
  *       500:
  *         description: Internal server error
  */
-kolsLeaderboardRouter.get('/top-tokens', async (req: Request, res: Response, next: NextFunction) => {
-    try {
-        await kolTradeService.init();
-        const { period, limit = 10, chain } = req.query;
-        if (!['1h', '24h', '1w'].includes(String(period))) {
-            return res.status(400).json({ error: 'Invalid period. Must be 1h, 24h, or 1w.' });
-        }
-        const parsedLimit = parseInt(String(limit), 10);
-        if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 100) {
-            return res.status(400).json({ error: 'Invalid limit. Must be between 1 and 100.' });
-        }
-        const chainFilter = chain ? String(chain) as any : undefined;
-        const topTokens = await kolTradeService.getTopTokensByKolActivity(
-            String(period) as any,
-            parsedLimit,
-            chainFilter
-        );
-        res.json(topTokens);
-    } catch (error) {
-        next(error);
-    }
-});
+kolsLeaderboardRouter.get('/top-tokens', getTopTokens);
 /**
  * @swagger
  * /kol/payment/init:
@@ -172,6 +276,10 @@ kolsLeaderboardRouter.get('/top-tokens', async (req: Request, res: Response, nex
  *               twitter_community:
  *                 type: string
  *                 description: Optional twitter community
+ *               tokenChain:
+ *                 type: string
+ *                 enum: [SOLANA, BSC, ETH]
+ *                 description: Chain of the alerted token; defaults to the payment chain
  *     responses:
  *       200:
  *         description: Wallet generated successfully
@@ -417,6 +525,11 @@ kolsLeaderboardRouter.get('/auth/twitter/init', generateTwitterLoginUrl);
  *               twitterId:
  *                 type: string
  *                 description: User's Twitter ID
+ *               chain:
+ *                 type: string
+ *                 enum: [SOLANA, BSC, ETH]
+ *                 default: SOLANA
+ *                 description: Chain of the alerted token
  *     responses:
  *       '201':
  *         description: Free trial started successfully
@@ -563,43 +676,6 @@ kolsLeaderboardRouter.get('/me', getCurrentUserProfile);
 kolsLeaderboardRouter.get('/auth/payment-history', getCurrentUserPaymentHistory);
 
 
-// Assuming TopTokenResponse schema needs to be added to components/schemas in Swagger config
-// e.g.:
-// components:
-//   schemas:
-//     TopTokenResponse:
-//       type: object
-//       properties:
-//         contract:
-//           type: string
-//         chain:
-//           type: string
-//         uniqueKolCount:
-//           type: integer
-//         buyerKolCount:
-//           type: integer
-//         sellerKolCount:
-//           type: integer
-//         recentBuyerKols:
-//           type: array
-//           items:
-//             type: object
-//             properties:
-//               id: { type: string }
-//               name: { type: string }
-//               avatar: { type: string }
-//         recentSellerKols:
-//           type: array
-//           items:
-//             type: object
-//             properties:
-//               id: { type: string }
-//               name: { type: string }
-//               avatar: { type: string }
-//         latestTimestamp:
-//           type: string
-//         tradeCount:
-//           type: integer
 /**
  * @swagger
  * /kol/users:
@@ -642,4 +718,1012 @@ kolsLeaderboardRouter.get('/auth/payment-history', getCurrentUserPaymentHistory)
  */
 kolsLeaderboardRouter.get('/users', getAllUsers);
 
+/**
+ * @swagger
+ * /kol/alerts/rules:
+ *   get:
+ *     summary: List alert rules of a plan
+ *     description: Requires the Google cookie session. The Twitter account must be linked to the current user.
+ *     tags: [Alert Rules]
+ *     parameters:
+ *       - in: query
+ *         name: twitterId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Twitter username of the plan
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *         description: Optional token contract filter
+ *     responses:
+ *       200:
+ *         description: Enabled alert rules
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AlertRule'
+ *       400:
+ *         description: Missing twitterId
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ *   post:
+ *     summary: Create an alert rule for a plan
+ *     description: Plans without any rules use the default hourly volume and buyer rules.
+ *     tags: [Alert Rules]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [twitterId, token, metric, operator, threshold]
+ *             properties:
+ *               twitterId:
+ *                 type: string
+ *               token:
+ *                 type: string
+ *               metric:
+ *                 type: string
+ *                 enum: [volume, priceChange, buyers, marketCap]
+ *               operator:
+ *                 type: string
+ *                 enum: ['>', '>=', '<', '<=']
+ *               threshold:
+ *                 type: number
+ *                 example: 50000
+ *               window:
+ *                 type: string
+ *                 enum: [5m, 1h, 6h, 24h]
+ *                 description: Required for every metric except marketCap
+ *               cooldownMinutes:
+ *                 type: integer
+ *                 default: 60
+ *     responses:
+ *       201:
+ *         description: Rule created
+ *       400:
+ *         description: Invalid rule
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ *
+ * components:
+ *   schemas:
+ *     AlertRule:
+ *       type: object
+ *       properties:
+ *         ruleId:
+ *           type: string
+ *         twitterId:
+ *           type: string
+ *         token:
+ *           type: string
+ *         metric:
+ *           type: string
+ *         operator:
+ *           type: string
+ *         threshold:
+ *           type: number
+ *         window:
+ *           type: string
+ *         cooldownMinutes:
+ *           type: integer
+ *         enabled:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+kolsLeaderboardRouter.get('/alerts/rules', requireGoogleUser, getAlertRules);
+kolsLeaderboardRouter.post('/alerts/rules', requireGoogleUser, createAlertRule);
+
+/**
+ * @swagger
+ * /kol/alerts/rules/{ruleId}:
+ *   delete:
+ *     summary: Disable an alert rule
+ *     tags: [Alert Rules]
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: twitterId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule disabled
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ *       404:
+ *         description: Rule not found
+ */
+kolsLeaderboardRouter.delete('/alerts/rules/:ruleId', requireGoogleUser, deleteAlertRule);
+
+/**
+ * @swagger
+ * /kol/alerts/templates:
+ *   get:
+ *     summary: List the default tweet templates and a plan's overrides
+ *     tags: [Alert Templates]
+ *     parameters:
+ *       - in: query
+ *         name: twitterId
+ *         schema:
+ *           type: string
+ *         description: Plan owner; when omitted only the defaults are returned
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Template variables, defaults per kind and plan overrides
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ *   put:
+ *     summary: Save a per-plan template override
+ *     description: The template is rendered against a worst-case sample and rejected if it exceeds 280 characters as X weighs them (links count 23, emoji and CJK characters 2) or uses unknown variables.
+ *     tags: [Alert Templates]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [twitterId, token, kind, body]
+ *             properties:
+ *               twitterId:
+ *                 type: string
+ *               token:
+ *                 type: string
+ *               kind:
+ *                 type: string
+ *                 enum: [volume, priceChange, buyers, marketCap, pricePump, priceDump, marketCapMilestone, kolConvergence]
+ *               body:
+ *                 type: string
+ *                 example: "🚀 {{window}} volume on ${{symbol}}: {{volume}}\nCA: {{ca}}\n{{dexLink}}"
+ *     responses:
+ *       200:
+ *         description: Template saved
+ *       400:
+ *         description: Invalid template
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ */
+kolsLeaderboardRouter.get('/alerts/templates', requireGoogleUser, getAlertTemplates);
+kolsLeaderboardRouter.put('/alerts/templates', requireGoogleUser, saveAlertTemplate);
+
+/**
+ * @swagger
+ * /kol/alerts/templates/preview:
+ *   post:
+ *     summary: Render a tweet template against the latest token_metrics row
+ *     tags: [Alert Templates]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [contract]
+ *             properties:
+ *               contract:
+ *                 type: string
+ *               kind:
+ *                 type: string
+ *                 enum: [volume, priceChange, buyers, marketCap, pricePump, priceDump, marketCapMilestone, kolConvergence]
+ *                 default: volume
+ *               window:
+ *                 type: string
+ *                 enum: [5m, 1h, 6h, 24h]
+ *                 default: 1h
+ *               body:
+ *                 type: string
+ *                 description: Template to render; defaults to the plan override or a default template
+ *               twitterId:
+ *                 type: string
+ *                 description: Plan owner whose override should be used when body is omitted
+ *     responses:
+ *       200:
+ *         description: Rendered text and its length
+ *       400:
+ *         description: Invalid template or parameters
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: No token_metrics row for the contract
+ */
+kolsLeaderboardRouter.post('/alerts/templates/preview', requireGoogleUser, previewAlertTemplate);
+
+/**
+ * @swagger
+ * /kol/alerts/channels:
+ *   get:
+ *     summary: List extra delivery channels of a plan
+ *     description: Alerts always go to the plan's own X account; these channels receive them as well.
+ *     tags: [Alert Channels]
+ *     parameters:
+ *       - in: query
+ *         name: twitterId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Enabled channels (webhook secrets are omitted)
+ *       400:
+ *         description: Missing twitterId
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ *   post:
+ *     summary: Add a delivery channel to a plan
+ *     description: |
+ *       Webhook requests carry X-Alert-Timestamp and X-Alert-Signature headers, where the signature is
+ *       `sha256=` + hex HMAC-SHA256 of `{timestamp}.{rawBody}` keyed with the channel secret.
+ *       A secret is generated when none is supplied and is only returned in this response.
+ *     tags: [Alert Channels]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [twitterId, token, type, target]
+ *             properties:
+ *               twitterId:
+ *                 type: string
+ *               token:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [twitter, telegram, discord, webhook]
+ *               target:
+ *                 type: string
+ *                 description: X community link, Telegram chat id, Discord webhook URL or webhook URL. URLs must resolve to public addresses (no loopback, private or link-local hosts).
+ *               secret:
+ *                 type: string
+ *                 description: Optional webhook signing secret
+ *     responses:
+ *       201:
+ *         description: Channel created
+ *       400:
+ *         description: Invalid channel
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ */
+kolsLeaderboardRouter.get('/alerts/channels', requireGoogleUser, getAlertChannels);
+kolsLeaderboardRouter.post('/alerts/channels', requireGoogleUser, createAlertChannel);
+
+/**
+ * @swagger
+ * /kol/alerts/channels/{channelId}:
+ *   delete:
+ *     summary: Disable a delivery channel
+ *     tags: [Alert Channels]
+ *     parameters:
+ *       - in: path
+ *         name: channelId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: twitterId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Channel disabled
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ *       404:
+ *         description: Channel not found
+ */
+kolsLeaderboardRouter.delete('/alerts/channels/:channelId', requireGoogleUser, deleteAlertChannel);
+
+/**
+ * @swagger
+ * /kol/alerts/channels/{channelId}/test:
+ *   post:
+ *     summary: Send a test message through a channel
+ *     tags: [Alert Channels]
+ *     parameters:
+ *       - in: path
+ *         name: channelId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [twitterId]
+ *             properties:
+ *               twitterId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Whether the test alert was delivered and the status code the target returned
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ *       404:
+ *         description: Channel not found
+ */
+kolsLeaderboardRouter.post('/alerts/channels/:channelId/test', requireGoogleUser, testAlertChannel);
+
+/**
+ * @swagger
+ * /kol/alerts/history:
+ *   get:
+ *     summary: Delivered alerts for the current user's plans
+ *     description: One entry per channel an alert was delivered to, newest first, with the rendered text, remote message/tweet id and the metrics snapshot that triggered it.
+ *     tags: [Alert History]
+ *     parameters:
+ *       - in: query
+ *         name: twitterId
+ *         schema:
+ *           type: string
+ *         description: Restrict to one linked Twitter account (default all linked accounts)
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [volume, priceChange, buyers, marketCap, pricePump, priceDump, marketCapMilestone, kolConvergence]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Page of alert history entries with pagination info
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ */
+kolsLeaderboardRouter.get('/alerts/history', requireGoogleUser, getAlertHistory);
+
+/**
+ * @swagger
+ * /kol/token/{contract}/metrics:
+ *   get:
+ *     summary: Token price and volume time series
+ *     description: OHLC price and last market cap per bucket from token_metrics (QuestDB SAMPLE BY), and volume estimated from the poller's rolling 5m/1h/24h readings weighted by the time each reading covers. Empty buckets repeat the previous prices.
+ *     tags: [Token Info]
+ *     parameters:
+ *       - in: path
+ *         name: contract
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [5m, 1h, 1d]
+ *           default: 1h
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to 24h (5m), 7d (1h) or 90d (1d) before `to`
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to now
+ *       - in: query
+ *         name: chain
+ *         schema:
+ *           type: string
+ *           enum: [SOLANA, BSC, ETH]
+ *     responses:
+ *       200:
+ *         description: Buckets with timestamp, open, high, low, close, marketCap, volume and samples
+ *       400:
+ *         description: Invalid interval, chain or range (max 2000 buckets)
+ */
+kolsLeaderboardRouter.get('/token/:contract/metrics', getTokenMetricsSeries);
+
+/**
+ * @swagger
+ * /kol/alerts/controls:
+ *   get:
+ *     summary: Active alert pauses
+ *     description: Pauses affecting the current user's plans, including the global kill switch and token pauses. Admins see every pause.
+ *     tags: [Alert Controls]
+ *     responses:
+ *       200:
+ *         description: List of active pauses (scope, twitterId, token, reason, updatedBy, updatedAt)
+ *       401:
+ *         description: Not authenticated
+ */
+kolsLeaderboardRouter.get('/alerts/controls', requireGoogleUser, getAlertControls);
+
+/**
+ * @swagger
+ * /kol/alerts/pause:
+ *   post:
+ *     summary: Pause alerts for a plan or X account
+ *     description: With token, pauses that plan only; without it, every plan of the X account. Persisted until resumed.
+ *     tags: [Alert Controls]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [twitterId]
+ *             properties:
+ *               twitterId:
+ *                 type: string
+ *               token:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Pause recorded
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ * /kol/alerts/resume:
+ *   post:
+ *     summary: Resume alerts for a plan or X account
+ *     tags: [Alert Controls]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [twitterId]
+ *             properties:
+ *               twitterId:
+ *                 type: string
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Resume recorded
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ */
+kolsLeaderboardRouter.post('/alerts/pause', requireGoogleUser, pauseAlerts);
+kolsLeaderboardRouter.post('/alerts/resume', requireGoogleUser, resumeAlerts);
+
+/**
+ * @swagger
+ * /kol/alerts/trigger:
+ *   post:
+ *     summary: Evaluate a plan now
+ *     description: Fetches fresh Dexscreener data and runs the plan's rules and market events. Cooldowns, quota and pauses still apply; with dryRun nothing is queued. Returns every candidate alert with its rendered text and whether it was queued.
+ *     tags: [Alert Controls]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [twitterId, token]
+ *             properties:
+ *               twitterId:
+ *                 type: string
+ *               token:
+ *                 type: string
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Snapshot, rules evaluated and per-alert results (eligible, queued, reason)
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ *       404:
+ *         description: No active plan or no trading pair
+ */
+kolsLeaderboardRouter.post('/alerts/trigger', requireGoogleUser, triggerAlerts);
+
+/**
+ * @swagger
+ * /kol/admin/alerts/kill-switch:
+ *   put:
+ *     summary: Turn the global alert kill switch on or off (admin)
+ *     description: While on, no plan is evaluated and queued deliveries are held back. Metrics are still recorded.
+ *     tags: [Alert Controls]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [enabled]
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Kill switch state recorded
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Admin access required
+ */
+kolsLeaderboardRouter.put('/admin/alerts/kill-switch', requireGoogleUser, requireAdmin, setKillSwitch);
+
+/**
+ * @swagger
+ * /kol/admin/alerts/tokens/{token}/pause:
+ *   put:
+ *     summary: Pause or resume a token across all plans (admin)
+ *     tags: [Alert Controls]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [paused]
+ *             properties:
+ *               paused:
+ *                 type: boolean
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Token pause state recorded
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Admin access required
+ */
+kolsLeaderboardRouter.put('/admin/alerts/tokens/:token/pause', requireGoogleUser, requireAdmin, setTokenPaused);
+
+/**
+ * @swagger
+ * /kol/admin/kafka/dead-letters:
+ *   get:
+ *     summary: Rejected Kafka messages (admin)
+ *     description: Messages or single trades the KOL trade consumer could not store, newest first, with totals per reason and status. Replay them with `npm run job:replay-dead-letters`.
+ *     tags: [Ingestion]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *           enum: [empty_message, invalid_json, missing_tx_hash, censored_tx_hash, processing_error]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, replayed, failed]
+ *       - in: query
+ *         name: topic
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Dead letters (id, topic, partition, offset, reason, error, payload, status, replayCount, messageTimestamp), counts and pagination
+ *       400:
+ *         description: Invalid query
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Admin access required
+ */
+kolsLeaderboardRouter.get('/admin/kafka/dead-letters', requireGoogleUser, requireAdmin, getDeadLetters);
+
+/**
+ * @swagger
+ * /kol/kols/{kolId}:
+ *   get:
+ *     summary: KOL profile with PnL, win rate, holdings and recent trades
+ *     description: |
+ *       Rebuilds the KOL's positions from their tracked trades (most recent 10,000) using average cost.
+ *       Realised PnL comes from sells against the average entry price; unrealised PnL values open holdings
+ *       at the latest token_metrics price. Win rate is the share of sold tokens closed at a profit.
+ *       Amounts sold that were bought before tracking started have no cost basis and realise nothing.
+ *     tags: [KOL Trades]
+ *     parameters:
+ *       - in: path
+ *         name: kolId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: chain
+ *         schema:
+ *           type: string
+ *           enum: [BSC, ETH, SOL]
+ *       - in: query
+ *         name: tradesLimit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *         description: Number of recent trades to return
+ *     responses:
+ *       200:
+ *         description: kol (id, name, avatar, twitterId), stats (trades, volume, winRate, realised/unrealised PnL), holdings and recentTrades
+ *       400:
+ *         description: Invalid kolId or chain
+ *       404:
+ *         description: No trades found for this KOL
+ */
+kolsLeaderboardRouter.get('/kols/:kolId', getKolProfile);
+
+/**
+ * @swagger
+ * /kol/alerts/convergence:
+ *   get:
+ *     summary: Smart-money convergence alert settings
+ *     description: |
+ *       Thresholds for the convergence alert (at least minKols distinct KOLs buying the plan's token within
+ *       windowMinutes). Accounts that never saved settings get the defaults (custom = false). Without
+ *       twitterId, returns every X account linked to the current user.
+ *     tags: [Alert Rules]
+ *     parameters:
+ *       - in: query
+ *         name: twitterId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Settings per X account (twitterId, enabled, minKols, windowMinutes, cooldownMinutes, custom)
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ *   put:
+ *     summary: Set smart-money convergence alert thresholds
+ *     description: Applies to every plan of the X account. Omitted fields keep their current value.
+ *     tags: [Alert Rules]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [twitterId]
+ *             properties:
+ *               twitterId:
+ *                 type: string
+ *               enabled:
+ *                 type: boolean
+ *               minKols:
+ *                 type: integer
+ *                 minimum: 2
+ *                 maximum: 50
+ *                 example: 3
+ *               windowMinutes:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 1440
+ *                 example: 10
+ *               cooldownMinutes:
+ *                 type: integer
+ *                 example: 60
+ *     responses:
+ *       200:
+ *         description: Settings saved
+ *       400:
+ *         description: Invalid settings
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Twitter account not linked to the current user
+ */
+kolsLeaderboardRouter.get('/alerts/convergence', requireGoogleUser, getConvergenceSettings);
+kolsLeaderboardRouter.put('/alerts/convergence', requireGoogleUser, saveConvergenceSettings);
+
+/**
+ * @swagger
+ * /kol/convergence/signals:
+ *   get:
+ *     summary: Smart-money convergence signals
+ *     description: |
+ *       Tokens bought by several distinct KOLs within a short window, as detected from the live trade feed.
+ *       A signal fires once per token and threshold (the defaults and every subscriber's own) per window.
+ *     tags: [KOL Trades]
+ *     parameters:
+ *       - in: query
+ *         name: chain
+ *         schema:
+ *           type: string
+ *           enum: [BSC, ETH, SOL]
+ *       - in: query
+ *         name: contract
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Signals, newest first (contract, chain, symbol, kolCount, buyers, firstBuyAt, lastBuyAt, alertsQueued)
+ *       400:
+ *         description: Invalid chain or from
+ */
+kolsLeaderboardRouter.get('/convergence/signals', getConvergenceSignals);
+
+/**
+ * @swagger
+ * /kol/stream/trades:
+ *   get:
+ *     summary: Live KOL trade stream (Server-Sent Events)
+ *     description: |
+ *       Pushes every KOL trade as it is ingested, normalised like profile trades (traded token, side, token amount,
+ *       USD value, price) plus the KOL. Events: `trade` (id = `<epoch ms>:<chain>:<kolId>:<txHash>`), `heartbeat`
+ *       every 15s, `resumed` once missed trades have been replayed. To resume, pass `since` or reconnect with
+ *       the standard Last-Event-ID header; at most the latest 1000 missed trades are replayed. Resuming from an
+ *       event id skips the trades already received; resuming from a date replays every trade at that time.
+ *     tags: [KOL Trades]
+ *     parameters:
+ *       - in: query
+ *         name: chain
+ *         schema:
+ *           type: string
+ *           enum: [BSC, ETH, SOL]
+ *       - in: query
+ *         name: contract
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: kolId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: Comma-separated sides (buy, sell) or feed actions (initial_position, add_position, partial_sell, full_sell)
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: string
+ *         description: Replay trades from this event id, ISO date or epoch milliseconds before streaming live ones
+ *     responses:
+ *       200:
+ *         description: text/event-stream of trade, heartbeat and resumed events
+ *       400:
+ *         description: Invalid filter or since
+ */
+kolsLeaderboardRouter.get('/stream/trades', streamKolTrades);
+
+/**
+ * @swagger
+ * /kol/token/{contract}/kol-timeline:
+ *   get:
+ *     summary: KOL timeline of a token
+ *     description: |
+ *       Every KOL that traded the token, ordered by first entry: entry time and price, each add, partial and full sell,
+ *       the amount still held after every trade, and the current token_metrics price as a multiple of the entry price.
+ *       Holdings after a buy use the feed's remaining count when present; sells are deducted from it.
+ *     tags: [KOL Trades]
+ *     parameters:
+ *       - in: path
+ *         name: contract
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: chain
+ *         schema:
+ *           type: string
+ *           enum: [BSC, ETH, SOL]
+ *     responses:
+ *       200:
+ *         description: Token summary (kolCount, holdingCount, exitedCount, currentPriceUsd, truncated when only the most recent trades were used) and kols (entryRank, firstEntryAt, entryPriceUsd, currentMultiple, status, remainingAmount, events)
+ *       400:
+ *         description: Invalid chain
+ *       404:
+ *         description: No KOL trades found for this token
+ */
+kolsLeaderboardRouter.get('/token/:contract/kol-timeline', getTokenKolTimeline);
+
+/**
+ * @swagger
+ * /kol/overlap:
+ *   get:
+ *     summary: KOL co-trade overlap and clusters
+ *     description: |
+ *       Built from the first buy of each KOL and token in the period. The matrix counts tokens bought by both
+ *       KOLs (diagonal = tokens the KOL bought) for the most active maxKols KOLs. Pairs are ranked by similarity
+ *       (shared tokens / tokens bought by either) and oriented so the leader is the KOL that bought first more
+ *       often. Clusters are KOLs linked by pairs with at least minShared tokens and minSimilarity; a short
+ *       cluster medianLagMinutes points to coordinated buying rather than independent calls.
+ *     tags: [KOL Trades]
+ *     parameters:
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [1h, 24h, 1w, all]
+ *           default: 1w
+ *       - in: query
+ *         name: chain
+ *         schema:
+ *           type: string
+ *           enum: [BSC, ETH, SOL]
+ *       - in: query
+ *         name: minShared
+ *         schema:
+ *           type: integer
+ *           default: 2
+ *         description: Shared tokens a pair needs to be listed or clustered
+ *       - in: query
+ *         name: minSimilarity
+ *         schema:
+ *           type: number
+ *           default: 0.3
+ *           minimum: 0
+ *           maximum: 1
+ *         description: Similarity a pair needs to link its KOLs into a cluster
+ *       - in: query
+ *         name: maxKols
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *         description: KOLs in the matrix, by tokens bought
+ *     responses:
+ *       200:
+ *         description: kols (kol, tokensBought, clusterId), matrix, pairs (leader, follower, sharedTokens, similarity, leaderFirstCount, followerFirstCount, medianLagMinutes) and clusters (id, kols, avgSimilarity, medianLagMinutes)
+ *       400:
+ *         description: Invalid query
+ */
+kolsLeaderboardRouter.get('/overlap', getKolOverlap);
+
+/**
+ * @swagger
+ * /kol/overlap/{kolId}:
+ *   get:
+ *     summary: KOLs most correlated with a KOL
+ *     description: Other KOLs ranked by similarity of the tokens they bought. leadCount counts shared tokens the requested KOL bought first; medianLagMinutes is positive when the requested KOL usually buys first.
+ *     tags: [KOL Trades]
+ *     parameters:
+ *       - in: path
+ *         name: kolId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [1h, 24h, 1w, all]
+ *           default: 1w
+ *       - in: query
+ *         name: chain
+ *         schema:
+ *           type: string
+ *           enum: [BSC, ETH, SOL]
+ *       - in: query
+ *         name: minShared
+ *         schema:
+ *           type: integer
+ *           default: 2
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: kol, tokensBought and correlated (kol, sharedTokens, similarity, leadCount, followCount, medianLagMinutes)
+ *       400:
+ *         description: Invalid kolId or query
+ *       404:
+ *         description: No buys found for this KOL in the period
+ */
+kolsLeaderboardRouter.get('/overlap/:kolId', getCorrelatedKols);
+
 export default kolsLeaderboardRouter;
\ No newline at end of file
@@ -2,36 +2,46 @@ import { QueryResult } from "pg";
 import { TableRow } from "../../models/db.types";
 import { questdbService } from "../../services/questDbService";
 import { logger } from "../../utils/logger";
+import { TradeChain, classifyTradeSide, getTradeChainInfo, normalizeAddress, toTradeChain, tradeSideSql } from "../../utils/chains";
+import { tokenMetricsHistoryService } from "../../services/tokenMetricsHistoryService";
+import { parseFeedNumber } from "../../utils/numbers";
+import {
+    KolInfo, KolProfile, KolProfileStats, KolStreamTrade, KolTimelineEntry, KolTokenAggregate, KolTokenPosition, KolTrade, KolTradeRecord,
+    KolTradeStreamFilter, LeaderboardPeriod, TokenKolTimeline, TopToken, TopTokenCursor, TopTokenQuery, TopTokenSort,
+    TOP_TOKEN_SORTS
+} from "../../models/kols.types";
 
-enum Chain {
-    BSC = 'BSC',
-    ETH = 'ETH',
-    SOL = 'SOL',
-}
+type Chain = TradeChain;
 
-type TimePeriod = '1h' | '24h' | '1w' | 'all';
+type TimePeriod = LeaderboardPeriod;
 
-interface KolInfo {
-    id: string;
-    name: string;
-    avatar: string;
-}
+// Most recent trades loaded to rebuild a KOL's positions
+const MAX_PROFILE_TRADES = 10000;
+// Most recent trades loaded to build a token's KOL timeline
+const MAX_TIMELINE_TRADES = 20000;
+// Holdings below this share of the amount bought are rounding leftovers, not open positions
+export const DUST_RATIO = 1e-6;
 
-interface TopToken {
-    contract: string;
-    tokenName: string;
-    chain: Chain;
-    uniqueKolCount: number;
-    buyerKolCount: number;
-    sellerKolCount: number;
-    latestTimestamp: string;
-    kolCallCount: number;  // Total KOL trades/calls (COUNT(*))
-    uniqueKolCalls: number; // Unique KOL calls (COUNT(DISTINCT kolId))
-    totalBoughtAmount: number;
-    totalSoldAmount: number;
-    totalTradeAmount: number;
+interface PositionAccumulator extends KolTokenPosition {
+    buyUsd: number;
+    sellUsd: number;
 }
 
+const TRADE_RECORD_COLUMNS = `timestamp, txHash, chain, action, fromToken, fromTokenAddress, fromTokenCount,
+                   toToken, toTokenAddress, toTokenCount, usdtPrice, kolId, kolName, kolAvatar, kolTwitterId,
+                   fromTokenCountNum, toTokenCountNum, usdtPriceNum`;
+
+// Size of the token list a top-tokens page is cut from; tokens ranked lower by the requested sort are dropped
+const MAX_TOP_TOKENS = 5000;
+// SQL order of each top-tokens sort; must match topTokenSortValues
+const TOP_TOKEN_SQL_ORDER: Record<TopTokenSort, string> = {
+    kols: 'unique_kol_count DESC, kol_call_count DESC',
+    netInflow: 'net_inflow_usd DESC',
+    buySellRatio: 'unsold DESC, buy_sell_rank DESC',
+    volume: 'total_trade_amount DESC',
+    recent: 'latest_timestamp DESC',
+};
+
 export class KolTradeService {
     private initialized = false;
     private initPromise?: Promise<void>;
@@ -81,105 +91,608 @@ export class KolTradeService {
         }
     }
 
-    private parseAmount(col: string): string {
-        return `
-          CASE
-            WHEN upper(${col}) LIKE '%M' THEN CAST(substring(${col}, 1, length(${col}) - 1) AS DOUBLE) * 1000000.0
-            WHEN upper(${col}) LIKE '%K' THEN CAST(substring(${col}, 1, length(${col}) - 1) AS DOUBLE) * 1000.0
-            ELSE CAST(COALESCE(${col}, '0') AS DOUBLE)
-          END
-        `;
-    }
-
-    private parseTradeAmount(col: string): string {
-        return `
-          CASE
-            WHEN upper(${col}) LIKE '%M' THEN CAST(substring(${col}, 1, length(${col}) - 1) AS DOUBLE) * 1000000.0
-            WHEN upper(${col}) LIKE '%K' THEN CAST(substring(${col}, 1, length(${col}) - 1) AS DOUBLE) * 1000.0
-            ELSE CAST(COALESCE(${col}, '0') AS DOUBLE)
-          END
-        `;
-    }
-
     /**
-     * Get top tokens by KOL activity
-     * @param period Time period to analyze
-     * @param limit Maximum number of tokens to return
-     * @param chain Optional chain filter
-     * @returns Array of TopToken objects
+     * Get top tokens by KOL activity, one page at a time
+     * @param query window (period or from/to), chain, sort and page
+     * @returns the page, the cursor of the next one (null on the last page), and whether the window held
+     * more than MAX_TOP_TOKENS tokens, in which case only the top ones by the requested sort can be paged
      */
-
-    async getTopTokensByKolActivity(
-        period: TimePeriod,
-        limit: number = 10,
-        chain?: Chain
-    ): Promise<TopToken[]> {
+    async getTopTokensByKolActivity(query: TopTokenQuery): Promise<{ items: TopToken[]; nextCursor: string | null; truncated: boolean }> {
         this.ensureInit();
 
-        const chainFilter = chain ? `AND chain = '${chain}'` : '';
-        const timeFilter = this.getTimeFilter(period);
-        const whereClause = `${timeFilter} ${chainFilter}`.trim();
-        const wbnb = '0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c';
-        const lowerWbnb = wbnb.toLowerCase();
-        const isBuyCond = `lower(fromTokenAddress) = '${lowerWbnb}'`;
-        const contractExpr = `CASE WHEN ${isBuyCond} THEN toTokenAddress ELSE fromTokenAddress END`;
-        const tokenNameExpr = `CASE WHEN ${isBuyCond} THEN toToken ELSE fromToken END`;
-        const parseToCount = this.parseAmount('toTokenCount');
-        const parseFromCount = this.parseAmount('fromTokenCount');
-        const parseUsdtPrice = this.parseTradeAmount('usdtPrice');
-
+        const { chain, sortBy, limit, cursor } = query;
+        const whereClause = this.getTopTokenWindowFilter(query);
+        // Swaps with no side (quote-to-quote, token-to-token) trade no listed token and are left out
+        const side = tradeSideSql(chain ? [chain] : undefined);
+        const contractExpr = `CASE WHEN ${side.buy} THEN toTokenAddress ELSE fromTokenAddress END`;
+        const tokenNameExpr = `CASE WHEN ${side.buy} THEN toToken ELSE fromToken END`;
+        // Ranked by the requested sort so that the cap drops the tokens that would come last; the page is cut below
         const sql = `
+    SELECT *,
+        buy_usd - sell_usd AS net_inflow_usd,
+        CASE WHEN sell_usd > 0 THEN 0 ELSE 1 END AS unsold,
+        CASE WHEN sell_usd > 0 THEN buy_usd / sell_usd ELSE buy_usd END AS buy_sell_rank
+    FROM (
     SELECT 
         ${contractExpr} AS contract,
         ${tokenNameExpr} AS token_name,
         chain,
         COUNT(DISTINCT kolId) AS unique_kol_count,
-        COUNT(DISTINCT CASE WHEN ${isBuyCond} THEN kolId END) AS buyer_kol_count,
-        COUNT(DISTINCT CASE WHEN NOT ${isBuyCond} THEN kolId END) AS seller_kol_count,
+        COUNT(DISTINCT CASE WHEN ${side.buy} THEN kolId END) AS buyer_kol_count,
+        COUNT(DISTINCT CASE WHEN ${side.sell} THEN kolId END) AS seller_kol_count,
         MAX(timestamp) AS latest_timestamp,
         COUNT(*) AS kol_call_count,
         COUNT(DISTINCT kolId) AS unique_kol_calls,
-        SUM(CASE WHEN ${isBuyCond} THEN ${parseToCount} ELSE 0.0 END) AS total_bought_amount,
-        SUM(CASE WHEN NOT ${isBuyCond} THEN ${parseFromCount} ELSE 0.0 END) AS total_sold_amount,
-        SUM(${parseUsdtPrice}) AS total_trade_amount
+        SUM(CASE WHEN ${side.buy} THEN coalesce(toTokenCountNum, 0.0) ELSE 0.0 END) AS total_bought_amount,
+        SUM(CASE WHEN ${side.sell} THEN coalesce(fromTokenCountNum, 0.0) ELSE 0.0 END) AS total_sold_amount,
+        SUM(coalesce(usdtPriceNum, 0.0)) AS total_trade_amount,
+        SUM(CASE WHEN ${side.buy} THEN coalesce(usdtPriceNum, 0.0) ELSE 0.0 END) AS buy_usd,
+        SUM(CASE WHEN ${side.sell} THEN coalesce(usdtPriceNum, 0.0) ELSE 0.0 END) AS sell_usd
     FROM kol_trades
-    WHERE ${whereClause}
+    WHERE ${whereClause} AND (${side.buy} OR ${side.sell})
     GROUP BY 
         ${contractExpr}, 
         ${tokenNameExpr},
         chain
-    ORDER BY unique_kol_count DESC, kol_call_count DESC
-    LIMIT ${limit};
+    )
+    ORDER BY ${TOP_TOKEN_SQL_ORDER[sortBy]}
+    LIMIT ${MAX_TOP_TOKENS + 1};
         `;
 
         try {
             const result: any = await questdbService.query(sql);
-            const tokens: TopToken[] = result.rows.map((row: any) => ({
-                contract: String(row[0]).toLowerCase(),
-                tokenName: String(row[1]),
-                chain: row[2] as Chain,
-                uniqueKolCount: Number(row[3] || 0),
-                buyerKolCount: Number(row[4] || 0),
-                sellerKolCount: Number(row[5] || 0),
-                latestTimestamp: String(row[6]),
-                kolCallCount: Number(row[7] || 0),
-                uniqueKolCalls: Number(row[8] || 0),
-                totalBoughtAmount: Number(row[9] || 0),
-                totalSoldAmount: Number(row[10] || 0),
-                totalTradeAmount: Number(row[11] || 0)
-            }));
-
-            logger.info(`Retrieved top ${tokens.length} tokens for ${period}${chain ? ` on ${chain}` : ''}`);
-            if (tokens.length > 0) {
-                logger.info(`Top token: ${tokens[0].contract} - uniqueKOLs=${tokens[0].uniqueKolCount}, kolCalls=${tokens[0].kolCallCount}, uniqueKolCalls=${tokens[0].uniqueKolCalls}, totalTrade=${tokens[0].totalTradeAmount}`);
+            const truncated = result.rows.length > MAX_TOP_TOKENS;
+            const tokens: TopToken[] = result.rows.slice(0, MAX_TOP_TOKENS).map((row: any) => {
+                const buyUsd = Number(row[12] || 0);
+                const sellUsd = Number(row[13] || 0);
+                return {
+                    contract: normalizeAddress(row[2] as Chain, String(row[0])),
+                    tokenName: String(row[1]),
+                    chain: row[2] as Chain,
+                    uniqueKolCount: Number(row[3] || 0),
+                    buyerKolCount: Number(row[4] || 0),
+                    sellerKolCount: Number(row[5] || 0),
+                    latestTimestamp: new Date(row[6]).toISOString(),
+                    kolCallCount: Number(row[7] || 0),
+                    uniqueKolCalls: Number(row[8] || 0),
+                    totalBoughtAmount: Number(row[9] || 0),
+                    totalSoldAmount: Number(row[10] || 0),
+                    totalTradeAmount: Number(row[11] || 0),
+                    buyUsd,
+                    sellUsd,
+                    netInflowUsd: buyUsd - sellUsd,
+                    buySellRatio: sellUsd > 0 ? buyUsd / sellUsd : null,
+                    currentPriceUsd: null,
+                };
+            });
+
+            const sorted = tokens
+                .map(token => ({ token, values: this.topTokenSortValues(token, sortBy), key: this.topTokenKey(token) }))
+                .sort((a, b) => this.compareTopTokens(a, b));
+            const remaining = cursor ? sorted.filter(entry => this.compareTopTokens(entry, cursor) > 0) : sorted;
+            const page = remaining.slice(0, limit);
+            const last = page[page.length - 1];
+            const nextCursor = remaining.length > limit
+                ? Buffer.from(JSON.stringify({ sortBy, values: last.values, key: last.key })).toString('base64url')
+                : null;
+
+            const items = page.map(entry => entry.token);
+            const prices = await tokenMetricsHistoryService.getLatestPrices(items.map(t => t.contract));
+            for (const token of items) {
+                token.currentPriceUsd = prices.get(token.contract.toLowerCase()) ?? null;
             }
-            return tokens;
+            if (query.includeKols && items.length > 0) {
+                const kols = await this.getTopTokenKols(query, items);
+                for (const token of items) {
+                    token.kols = kols.get(`${token.chain}:${token.contract.toLowerCase()}`) || [];
+                }
+            }
+
+            logger.info(`Retrieved ${items.length} top tokens by ${sortBy}${chain ? ` on ${chain}` : ''}`);
+            if (items.length > 0) {
+                logger.info(`Top token: ${items[0].contract} - uniqueKOLs=${items[0].uniqueKolCount}, kolCalls=${items[0].kolCallCount}, uniqueKolCalls=${items[0].uniqueKolCalls}, totalTrade=${items[0].totalTradeAmount}`);
+            }
+            return { items, nextCursor, truncated };
         } catch (error: any) {
             logger.error('❌ Failed to fetch top tokens', { error: error.message, sql });
             throw error;
         }
     }
 
+    /**
+     * Decodes a cursor returned by getTopTokensByKolActivity
+     * @returns null when the cursor is malformed or was issued for another sort
+     */
+    parseTopTokenCursor(cursor: string, sortBy: TopTokenSort): TopTokenCursor | null {
+        try {
+            const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+            const valid = parsed
+                && TOP_TOKEN_SORTS.includes(parsed.sortBy)
+                && Array.isArray(parsed.values)
+                && parsed.values.every((v: unknown) => typeof v === 'number' && Number.isFinite(v))
+                && typeof parsed.key === 'string';
+            if (!valid || parsed.sortBy !== sortBy) return null;
+            return { sortBy: parsed.sortBy, values: parsed.values, key: parsed.key };
+        } catch {
+            return null;
+        }
+    }
+
+    private getTopTokenWindowFilter(query: TopTokenQuery): string {
+        const conditions: string[] = [];
+        if (query.from || query.to) {
+            if (query.from) conditions.push(`timestamp >= '${query.from.toISOString()}'`);
+            if (query.to) conditions.push(`timestamp < '${query.to.toISOString()}'`);
+        } else {
+            conditions.push(this.getTimeFilter(query.period || '24h'));
+        }
+        if (query.chain) conditions.push(`chain = '${query.chain}'`);
+        return conditions.join(' AND ');
+    }
+
+    // Descending sort values; tokens nobody sold rank first by buy ratio, ordered by USD bought
+    private topTokenSortValues(token: TopToken, sortBy: TopTokenSort): number[] {
+        switch (sortBy) {
+            case 'netInflow':
+                return [token.netInflowUsd];
+            case 'buySellRatio':
+                return token.buySellRatio === null ? [1, token.buyUsd] : [0, token.buySellRatio];
+            case 'volume':
+                return [token.totalTradeAmount];
+            case 'recent':
+                return [new Date(token.latestTimestamp).getTime()];
+            default:
+                return [token.uniqueKolCount, token.kolCallCount];
+        }
+    }
+
+    private topTokenKey(token: TopToken): string {
+        return `${token.chain}:${token.contract.toLowerCase()}:${token.tokenName}`;
+    }
+
+    private compareTopTokens(a: { values: number[]; key: string }, b: { values: number[]; key: string }): number {
+        for (let i = 0; i < Math.max(a.values.length, b.values.length); i++) {
+            const diff = (b.values[i] ?? 0) - (a.values[i] ?? 0);
+            if (diff !== 0) return diff;
+        }
+        return a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+    }
+
+    /**
+     * KOLs that traded each of the given tokens in the query window, most recent trade first
+     * @returns KolInfo lists keyed by chain and lowercased contract
+     */
+    private async getTopTokenKols(query: TopTokenQuery, tokens: TopToken[]): Promise<Map<string, KolInfo[]>> {
+        const side = tradeSideSql(query.chain ? [query.chain] : undefined);
+        const contractExpr = `CASE WHEN ${side.buy} THEN toTokenAddress ELSE fromTokenAddress END`;
+        const contracts = Array.from(new Set(tokens.map(t => `'${t.contract.toLowerCase().replace(/'/g, "''")}'`))).join(', ');
+        const result = await questdbService.query(`
+            SELECT contract, chain, kolId, kolName, kolAvatar, kolTwitterId, last_trade FROM (
+                SELECT ${contractExpr} AS contract, chain, kolId,
+                       last(kolName) AS kolName, last(kolAvatar) AS kolAvatar, last(kolTwitterId) AS kolTwitterId,
+                       MAX(timestamp) AS last_trade
+                FROM kol_trades
+                WHERE ${this.getTopTokenWindowFilter(query)} AND (${side.buy} OR ${side.sell})
+                  AND (lower(toTokenAddress) IN (${contracts}) OR lower(fromTokenAddress) IN (${contracts}))
+                GROUP BY ${contractExpr}, chain, kolId
+            )
+            ORDER BY last_trade DESC;
+        `);
+
+        const kols: Map<string, KolInfo[]> = new Map();
+        for (const row of result.rows as any[][]) {
+            const key = `${row[1]}:${String(row[0] || '').toLowerCase()}`;
+            const list = kols.get(key) || [];
+            list.push({ id: String(row[2]), name: String(row[3] || ''), avatar: String(row[4] || ''), twitterId: String(row[5] || '') });
+            kols.set(key, list);
+        }
+        return kols;
+    }
+
+    /**
+     * Per KOL and traded token: USD and token amounts bought and sold, trade count and first buy.
+     * Rows for the same KOL and token may repeat when the KOL's name or avatar changed.
+     * @param contract optional token filter (either side of the trade)
+     */
+    async getKolTokenAggregates(period: TimePeriod, chain?: Chain, contract?: string): Promise<KolTokenAggregate[]> {
+        this.ensureInit();
+        const side = tradeSideSql(chain ? [chain] : undefined);
+        const contractExpr = `CASE WHEN ${side.buy} THEN toTokenAddress ELSE fromTokenAddress END`;
+        const conditions = [this.getTimeFilter(period), `(${side.buy} OR ${side.sell})`];
+        if (chain) conditions.push(`chain = '${chain}'`);
+        if (contract) {
+            const c = contract.toLowerCase().replace(/'/g, "''");
+            conditions.push(`(lower(toTokenAddress) = '${c}' OR lower(fromTokenAddress) = '${c}')`);
+        }
+
+        const sql = `
+    SELECT
+        kolId, kolName, kolAvatar, kolTwitterId, chain,
+        ${contractExpr} AS contract,
+        SUM(CASE WHEN ${side.buy} THEN coalesce(usdtPriceNum, 0.0) ELSE 0.0 END) AS buy_usd,
+        SUM(CASE WHEN ${side.sell} THEN coalesce(usdtPriceNum, 0.0) ELSE 0.0 END) AS sell_usd,
+        SUM(CASE WHEN ${side.buy} THEN coalesce(toTokenCountNum, 0.0) ELSE 0.0 END) AS bought_amount,
+        SUM(CASE WHEN ${side.sell} THEN coalesce(fromTokenCountNum, 0.0) ELSE 0.0 END) AS sold_amount,
+        COUNT(*) AS trades,
+        MIN(CASE WHEN ${side.buy} THEN timestamp END) AS first_buy,
+        MAX(timestamp) AS last_trade
+    FROM kol_trades
+    WHERE ${conditions.join(' AND ')}
+    GROUP BY kolId, kolName, kolAvatar, kolTwitterId, chain, ${contractExpr};
+        `;
+        try {
+            const result = await questdbService.query(sql);
+            const aggregates = (result.rows as any[][]).map(row => {
+                const rowChain = toTradeChain(row[4]) || 'BSC';
+                return {
+                    kolId: String(row[0]),
+                    kolName: String(row[1] || ''),
+                    kolAvatar: String(row[2] || ''),
+                    kolTwitterId: String(row[3] || ''),
+                    chain: rowChain,
+                    contract: normalizeAddress(rowChain, String(row[5] || '')),
+                    buyUsd: Number(row[6] || 0),
+                    sellUsd: Number(row[7] || 0),
+                    boughtAmount: Number(row[8] || 0),
+                    soldAmount: Number(row[9] || 0),
+                    trades: Number(row[10] || 0),
+                    firstBuyAt: row[11] ? new Date(row[11]).toISOString() : null,
+                    lastTradeAt: new Date(row[12]).toISOString(),
+                };
+            });
+            return contract ? aggregates.filter(a => a.contract.toLowerCase() === contract.toLowerCase()) : aggregates;
+        } catch (error: any) {
+            logger.error('❌ Failed to aggregate KOL trades', { error: error.message, sql });
+            throw error;
+        }
+    }
+
+    /**
+     * A KOL's most recent trades (up to MAX_PROFILE_TRADES), oldest first, with the traded token
+     * and side resolved against each chain's quote tokens.
+     */
+    private async getKolTrades(kolId: string, chain?: Chain): Promise<{ kol: KolInfo | null; trades: KolTrade[] }> {
+        const chainFilter = chain ? `AND chain = '${chain}'` : '';
+        const result = await questdbService.query(`
+            SELECT ${TRADE_RECORD_COLUMNS}
+            FROM kol_trades
+            WHERE kolId = ${kolId} ${chainFilter}
+            ORDER BY timestamp DESC
+            LIMIT ${MAX_PROFILE_TRADES};
+        `);
+        if (result.rows.length === 0) return { kol: null, trades: [] };
+        const records = (result.rows as any[][]).reverse().map(row => this.toTradeRecord(row));
+        const latest = records[records.length - 1];
+        const kol: KolInfo = { id: kolId, name: latest.kolName, avatar: latest.kolAvatar, twitterId: latest.kolTwitterId };
+        const trades = records
+            .map(record => this.toStreamTrade(record))
+            .filter((trade): trade is KolStreamTrade => trade !== null)
+            .map(({ kol: _kol, ...trade }) => trade);
+        return { kol, trades };
+    }
+
+    private toTradeRecord(row: any[]): KolTradeRecord {
+        return {
+            timestamp: new Date(row[0]).toISOString(),
+            txHash: String(row[1] || ''),
+            chain: String(row[2] || ''),
+            action: String(row[3] || ''),
+            fromToken: String(row[4] || ''),
+            fromTokenAddress: String(row[5] || ''),
+            fromTokenCount: String(row[6] ?? ''),
+            toToken: String(row[7] || ''),
+            toTokenAddress: String(row[8] || ''),
+            toTokenCount: String(row[9] ?? ''),
+            usdtPrice: String(row[10] ?? ''),
+            kolId: String(row[11] ?? ''),
+            kolName: String(row[12] || ''),
+            kolAvatar: String(row[13] || ''),
+            kolTwitterId: String(row[14] || ''),
+            fromTokenCountNum: row[15] ?? null,
+            toTokenCountNum: row[16] ?? null,
+            usdtPriceNum: row[17] ?? null,
+        };
+    }
+
+    /**
+     * Resolves the traded token and side of a stored trade against its chain's quote tokens.
+     * @returns null for swaps with no side (quote-to-quote, token-to-token)
+     */
+    toStreamTrade(record: KolTradeRecord): KolStreamTrade | null {
+        const tradeChain = toTradeChain(record.chain) || 'BSC';
+        const side = classifyTradeSide(tradeChain, record.fromTokenAddress, record.toTokenAddress);
+        if (!side) return null;
+        const isSell = side === 'sell';
+        // Rows not yet backfilled have no numeric columns
+        const tokenAmount = (isSell ? record.fromTokenCountNum : record.toTokenCountNum)
+            ?? parseFeedNumber(isSell ? record.fromTokenCount : record.toTokenCount);
+        const usdValue = record.usdtPriceNum ?? parseFeedNumber(record.usdtPrice);
+        return {
+            timestamp: record.timestamp,
+            txHash: record.txHash,
+            chain: tradeChain,
+            contract: normalizeAddress(tradeChain, (isSell ? record.fromTokenAddress : record.toTokenAddress) || ''),
+            tokenName: (isSell ? record.fromToken : record.toToken) || '',
+            side,
+            action: record.action || 'unknown',
+            tokenAmount,
+            usdValue,
+            priceUsd: tokenAmount > 0 ? usdValue / tokenAmount : null,
+            kol: { id: record.kolId, name: record.kolName, avatar: record.kolAvatar, twitterId: record.kolTwitterId },
+        };
+    }
+
+    matchesStreamFilter(trade: KolStreamTrade, filter: KolTradeStreamFilter): boolean {
+        if (filter.chain && trade.chain !== filter.chain) return false;
+        if (filter.kolId && trade.kol.id !== filter.kolId) return false;
+        if (filter.contract && trade.contract.toLowerCase() !== filter.contract.toLowerCase()) return false;
+        if (filter.actions?.length && !filter.actions.includes(trade.side) && !filter.actions.includes(trade.action)) return false;
+        return true;
+    }
+
+    /**
+     * Trades stored at or after `since` that match the filter, oldest first (trades with the same time
+     * in the order they were stored); at most the latest `limit` before the action filter is applied.
+     * Used to resume a live stream.
+     */
+    async getTradesSince(since: string, filter: KolTradeStreamFilter, limit: number): Promise<KolStreamTrade[]> {
+        // Same side rule as toStreamTrade, so a resumed stream holds exactly the trades it would have received live
+        const side = tradeSideSql(filter.chain ? [filter.chain] : undefined);
+        const conditions = [`timestamp >= '${new Date(since).toISOString()}'`, `(${side.buy} OR ${side.sell})`];
+        if (filter.chain) conditions.push(`chain = '${filter.chain}'`);
+        if (filter.kolId) conditions.push(`kolId = ${filter.kolId}`);
+        if (filter.contract) {
+            const c = filter.contract.toLowerCase().replace(/'/g, "''");
+            conditions.push(`((${side.buy} AND lower(toTokenAddress) = '${c}') OR (${side.sell} AND lower(fromTokenAddress) = '${c}'))`);
+        }
+        const result = await questdbService.query(`
+            SELECT ${TRADE_RECORD_COLUMNS}
+            FROM kol_trades
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY timestamp DESC
+            LIMIT ${Math.max(1, Math.floor(limit))};
+        `);
+        return (result.rows as any[][])
+            .reverse()
+            .map(row => this.toStreamTrade(this.toTradeRecord(row)))
+            .filter((trade): trade is KolStreamTrade => trade !== null && this.matchesStreamFilter(trade, filter));
+    }
+
+    /**
+     * Every trade of the period grouped by KOL id, oldest first, so positions can be replayed in trade order.
+     */
+    async getTradesByKol(period: TimePeriod, chain?: Chain): Promise<Map<string, KolStreamTrade[]>> {
+        this.ensureInit();
+        const side = tradeSideSql(chain ? [chain] : undefined);
+        const conditions = [this.getTimeFilter(period), `(${side.buy} OR ${side.sell})`];
+        if (chain) conditions.push(`chain = '${chain}'`);
+        const result = await questdbService.query(`
+            SELECT ${TRADE_RECORD_COLUMNS}
+            FROM kol_trades
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY timestamp ASC;
+        `);
+        const byKol: Map<string, KolStreamTrade[]> = new Map();
+        for (const row of result.rows as any[][]) {
+            const trade = this.toStreamTrade(this.toTradeRecord(row));
+            if (!trade) continue;
+            const trades = byKol.get(trade.kol.id) || [];
+            trades.push(trade);
+            byKol.set(trade.kol.id, trades);
+        }
+        return byKol;
+    }
+
+    /**
+     * Realised and unrealised PnL and win rate over a KOL's positions. A position counts as a win or a
+     * loss once a sell realised PnL on it. Shared by the KOL profile and the global leaderboard.
+     */
+    summarisePositions(positions: KolTokenPosition[]): Pick<KolProfileStats, 'winRate' | 'wins' | 'losses' | 'realisedPnlUsd' | 'unrealisedPnlUsd'> {
+        const closed = positions.filter(p => p.sellCount > 0 && p.realisedPnlUsd !== 0);
+        const wins = closed.filter(p => p.realisedPnlUsd > 0).length;
+        return {
+            winRate: closed.length > 0 ? wins / closed.length : null,
+            wins,
+            losses: closed.length - wins,
+            realisedPnlUsd: positions.reduce((sum, p) => sum + p.realisedPnlUsd, 0),
+            unrealisedPnlUsd: positions.reduce((sum, p) => sum + (p.unrealisedPnlUsd ?? 0), 0),
+        };
+    }
+
+    /**
+     * Rebuilds per-token positions from trades (oldest first) using average cost.
+     * Sells of tokens bought before tracking started have no cost basis and realise nothing.
+     * @param prices current USD price per lowercased contract, for unrealised PnL
+     */
+    buildPositions(trades: KolTrade[], prices: Map<string, number>): KolTokenPosition[] {
+        const positions: Map<string, PositionAccumulator> = new Map();
+        for (const trade of trades) {
+            const key = `${trade.chain}:${trade.contract}`;
+            let position = positions.get(key);
+            if (!position) {
+                position = {
+                    contract: trade.contract, tokenName: trade.tokenName, chain: trade.chain,
+                    buyCount: 0, sellCount: 0, boughtAmount: 0, soldAmount: 0, holdingAmount: 0, costBasisUsd: 0,
+                    avgEntryPriceUsd: null, avgExitPriceUsd: null, currentPriceUsd: null,
+                    realisedPnlUsd: 0, unrealisedPnlUsd: null,
+                    firstTradeAt: trade.timestamp, lastTradeAt: trade.timestamp,
+                    buyUsd: 0, sellUsd: 0,
+                };
+                positions.set(key, position);
+            }
+            position.lastTradeAt = trade.timestamp;
+            if (trade.tokenName) position.tokenName = trade.tokenName;
+            if (trade.side === 'buy') {
+                position.buyCount++;
+                position.boughtAmount += trade.tokenAmount;
+                position.buyUsd += trade.usdValue;
+                position.holdingAmount += trade.tokenAmount;
+                position.costBasisUsd += trade.usdValue;
+            } else {
+                position.sellCount++;
+                position.soldAmount += trade.tokenAmount;
+                position.sellUsd += trade.usdValue;
+                const matched = Math.min(trade.tokenAmount, position.holdingAmount);
+                if (matched > 0) {
+                    const avgCost = position.costBasisUsd / position.holdingAmount;
+                    const proceeds = trade.usdValue * (matched / trade.tokenAmount);
+                    position.realisedPnlUsd += proceeds - avgCost * matched;
+                    position.costBasisUsd -= avgCost * matched;
+                    position.holdingAmount -= matched;
+                }
+            }
+            if (position.holdingAmount <= position.boughtAmount * DUST_RATIO) {
+                position.holdingAmount = 0;
+                position.costBasisUsd = 0;
+            }
+        }
+        return Array.from(positions.values()).map(({ buyUsd, sellUsd, ...position }) => {
+            const currentPriceUsd = prices.get(position.contract.toLowerCase()) ?? null;
+            return {
+                ...position,
+                avgEntryPriceUsd: position.boughtAmount > 0 ? buyUsd / position.boughtAmount : null,
+                avgExitPriceUsd: position.soldAmount > 0 ? sellUsd / position.soldAmount : null,
+                currentPriceUsd,
+                unrealisedPnlUsd: position.holdingAmount === 0
+                    ? 0
+                    : currentPriceUsd !== null ? position.holdingAmount * currentPriceUsd - position.costBasisUsd : null,
+            };
+        });
+    }
+
+    /**
+     * Profile, trading stats, open positions and recent trades of one KOL.
+     * @returns null when the KOL has no trades
+     */
+    async getKolProfile(kolId: string, options: { chain?: Chain; tradesLimit: number }): Promise<KolProfile | null> {
+        this.ensureInit();
+        const { kol, trades } = await this.getKolTrades(kolId, options.chain);
+        if (!kol) return null;
+
+        const held = this.buildPositions(trades, new Map()).filter(p => p.holdingAmount > 0).map(p => p.contract);
+        const prices = await tokenMetricsHistoryService.getLatestPrices(held);
+        const positions = this.buildPositions(trades, prices);
+
+        const holdings = positions
+            .filter(p => p.holdingAmount > 0)
+            .sort((a, b) => (b.holdingAmount * (b.currentPriceUsd ?? 0)) - (a.holdingAmount * (a.currentPriceUsd ?? 0)) || b.costBasisUsd - a.costBasisUsd);
+        const buyCount = trades.filter(t => t.side === 'buy').length;
+
+        return {
+            kol,
+            stats: {
+                totalTrades: trades.length,
+                buyCount,
+                sellCount: trades.length - buyCount,
+                tokensTraded: positions.length,
+                volumeUsd: trades.reduce((sum, t) => sum + t.usdValue, 0),
+                ...this.summarisePositions(positions),
+                firstTradeAt: trades[0].timestamp,
+                lastTradeAt: trades[trades.length - 1].timestamp,
+            },
+            holdings,
+            recentTrades: trades.slice(-options.tradesLimit).reverse(),
+        };
+    }
+
+    /**
+     * Every KOL's moves in one token, in entry order: first entry and price, adds and sells, what is still
+     * held and the current price as a multiple of the entry price.
+     * Holdings after a buy come from the feed's toTokenRemainCount when present; sells are deducted from it.
+     * Only the latest MAX_TIMELINE_TRADES trades are used; `truncated` says older ones were left out,
+     * in which case entries are the earliest loaded buys rather than the KOLs' first ones.
+     */
+    async getTokenKolTimeline(contract: string, chain?: Chain): Promise<TokenKolTimeline | null> {
+        this.ensureInit();
+        const address = chain ? normalizeAddress(chain, contract) : contract;
+        const chainFilter = chain ? `AND chain = '${chain}'` : '';
+        const match = (col: string) => chain && !getTradeChainInfo(chain).caseInsensitiveAddresses
+            ? `${col} = '${address.replace(/'/g, "''")}'`
+            : `lower(${col}) = '${address.toLowerCase().replace(/'/g, "''")}'`;
+        const result = await questdbService.query(`
+            SELECT ${TRADE_RECORD_COLUMNS}, toTokenRemainCountNum, initialPriceNum
+            FROM kol_trades
+            WHERE (${match('toTokenAddress')} OR ${match('fromTokenAddress')}) ${chainFilter}
+            ORDER BY timestamp DESC
+            LIMIT ${MAX_TIMELINE_TRADES};
+        `);
+        const truncated = result.rows.length >= MAX_TIMELINE_TRADES;
+        const rows = (result.rows as any[][])
+            .reverse()
+            .map(row => ({ trade: this.toStreamTrade(this.toTradeRecord(row)), remainCount: row[18], initialPrice: row[19] }))
+            .filter((row): row is { trade: KolStreamTrade; remainCount: any; initialPrice: any } =>
+                row.trade !== null && row.trade.contract.toLowerCase() === address.toLowerCase());
+        if (rows.length === 0) return null;
+
+        const byKol: Map<string, KolTimelineEntry> = new Map();
+        for (const { trade, remainCount, initialPrice } of rows) {
+            let entry = byKol.get(trade.kol.id);
+            if (!entry) {
+                entry = {
+                    kol: trade.kol, entryRank: null, firstEntryAt: null, entryPriceUsd: null, currentMultiple: null,
+                    status: 'holding', boughtAmount: 0, soldAmount: 0, remainingAmount: 0, events: [],
+                };
+                byKol.set(trade.kol.id, entry);
+            }
+            // Keep the latest profile
+            entry.kol = trade.kol;
+            let remaining: number;
+            if (trade.side === 'buy') {
+                if (!entry.firstEntryAt) {
+                    entry.firstEntryAt = trade.timestamp;
+                    const feedEntryPrice = Number(initialPrice ?? 0);
+                    entry.entryPriceUsd = trade.priceUsd ?? (feedEntryPrice > 0 ? feedEntryPrice : null);
+                }
+                entry.boughtAmount += trade.tokenAmount;
+                const reported = Number(remainCount ?? 0);
+                remaining = reported > 0 ? reported : entry.remainingAmount + trade.tokenAmount;
+            } else {
+                entry.soldAmount += trade.tokenAmount;
+                remaining = trade.action === 'full_sell' ? 0 : Math.max(0, entry.remainingAmount - trade.tokenAmount);
+            }
+            entry.remainingAmount = remaining;
+            entry.events.push({
+                timestamp: trade.timestamp,
+                txHash: trade.txHash,
+                side: trade.side,
+                action: trade.action,
+                tokenAmount: trade.tokenAmount,
+                usdValue: trade.usdValue,
+                priceUsd: trade.priceUsd,
+                remainingAmount: remaining,
+            });
+        }
+
+        const prices = await tokenMetricsHistoryService.getLatestPrices([address]);
+        const currentPriceUsd = prices.get(address.toLowerCase()) ?? null;
+        const kols = Array.from(byKol.values())
+            .sort((a, b) => (a.firstEntryAt ?? '\uffff').localeCompare(b.firstEntryAt ?? '\uffff') || a.events[0].timestamp.localeCompare(b.events[0].timestamp));
+        let rank = 0;
+        for (const entry of kols) {
+            if (entry.firstEntryAt) entry.entryRank = ++rank;
+            const sold = entry.events.some(e => e.side === 'sell');
+            // Without a tracked buy the holding is unknown; only a full sell says the KOL is out
+            const exited = entry.boughtAmount > 0
+                ? entry.remainingAmount <= entry.boughtAmount * DUST_RATIO
+                : entry.events[entry.events.length - 1].action === 'full_sell';
+            entry.status = !sold ? 'holding' : exited ? 'exited' : 'partially_sold';
+            entry.currentMultiple = currentPriceUsd !== null && entry.entryPriceUsd ? currentPriceUsd / entry.entryPriceUsd : null;
+        }
+        const latest = rows[rows.length - 1].trade;
+        return {
+            contract: latest.contract,
+            chain: latest.chain,
+            tokenName: latest.tokenName,
+            currentPriceUsd,
+            kolCount: kols.length,
+            holdingCount: kols.filter(k => k.status !== 'exited').length,
+            exitedCount: kols.filter(k => k.status === 'exited').length,
+            firstEntryAt: kols[0]?.firstEntryAt ?? null,
+            truncated,
+            kols,
+        };
+    }
+
     async close(): Promise<void> {
         this.initialized = false;
         this.initPromise = undefined;
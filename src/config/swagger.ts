@@ -162,6 +162,41 @@ const options: swaggerJsdoc.Options = {
                         }
                     }
                 },
+                TopTokenResponse: {
+                    type: 'object',
+                    properties: {
+                        contract: { type: 'string', example: '0x3f4c5a8bed91493badc688fec1d30630a67e4444' },
+                        tokenName: { type: 'string', example: 'AIrena' },
+                        chain: { type: 'string', example: 'BSC' },
+                        uniqueKolCount: { type: 'number', example: 12 },
+                        buyerKolCount: { type: 'number', example: 10 },
+                        sellerKolCount: { type: 'number', example: 4 },
+                        latestTimestamp: { type: 'string', format: 'date-time' },
+                        kolCallCount: { type: 'number', example: 31 },
+                        uniqueKolCalls: { type: 'number', example: 12 },
+                        totalBoughtAmount: { type: 'number', format: 'float', example: 15000000 },
+                        totalSoldAmount: { type: 'number', format: 'float', example: 4200000 },
+                        totalTradeAmount: { type: 'number', format: 'float', example: 8450.2 },
+                        buyUsd: { type: 'number', format: 'float', example: 6400.1 },
+                        sellUsd: { type: 'number', format: 'float', example: 2050.1 },
+                        netInflowUsd: { type: 'number', format: 'float', example: 4350 },
+                        buySellRatio: { type: 'number', format: 'float', nullable: true, example: 3.12 },
+                        currentPriceUsd: { type: 'number', format: 'float', nullable: true, example: 0.000008338 },
+                        kols: {
+                            type: 'array',
+                            description: 'Only with includeKols=true',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    id: { type: 'string', example: '1024' },
+                                    name: { type: 'string', example: 'CryptoD' },
+                                    avatar: { type: 'string' },
+                                    twitterId: { type: 'string', example: 'CryptoDevinL' }
+                                }
+                            }
+                        }
+                    }
+                },
                 ErrorResponse: {
                     type: 'object',
                     properties: {
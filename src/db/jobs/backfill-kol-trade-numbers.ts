@@ -0,0 +1,116 @@
+import { questdbService, KOL_TRADE_NUMERIC_COLUMNS } from '../../services/questDbService';
+import { parseDecimal } from '../../utils/numbers';
+import { logger } from '../../utils/logger';
+
+/**
+ * One-off backfill: fills the numeric columns of kol_trades (amountNum, usdtPriceNum, ...) for rows
+ * ingested before they existed, parsing the original strings with the same parser ingestion uses.
+ *
+ * The parse cannot be expressed in QuestDB SQL and QuestDB has no DELETE, so every row is copied
+ * page by page into a new table that is swapped in for kol_trades. The original is kept as
+ * kol_trades_prenum_<yyyymmddhhmm> unless --drop-backup is passed. Stop the Kafka consumer while
+ * it runs: trades written during the copy are lost.
+ *
+ * Usage: npm run job:backfill-kol-trade-numbers -- [--apply] [--drop-backup]
+ * Without --apply it only reports how many rows are missing numeric values.
+ */
+const TABLE = 'kol_trades';
+const STAGING_TABLE = 'kol_trades_numeric';
+const PAGE_SIZE = 1000;
+
+const countRows = async (where: string = ''): Promise<number> => {
+  const res = await questdbService.query(`SELECT count() FROM ${TABLE}${where ? ` WHERE ${where}` : ''};`);
+  return Number(res.rows[0]?.[0] || 0);
+};
+
+export const backfillKolTradeNumbers = async (apply: boolean, dropBackup: boolean): Promise<void> => {
+  await questdbService.init();
+  const total = await countRows();
+  // A row is missing values when a source string is set but its numeric column is not
+  const missingCond = Object.entries(KOL_TRADE_NUMERIC_COLUMNS)
+    .map(([source, numeric]) => `(${numeric} IS NULL AND ${source} IS NOT NULL AND ${source} != '')`)
+    .join(' OR ');
+  const missing = await countRows(missingCond);
+  logger.info(`[BackfillKolTradeNumbers] ${total} rows, ${missing} with unparsed amounts`);
+  if (missing === 0 || !apply) {
+    if (missing > 0) logger.info('[BackfillKolTradeNumbers] Dry run: pass --apply to backfill them');
+    return;
+  }
+
+  const columns = (await questdbService.query(`SELECT column FROM table_columns('${TABLE}');`)).rows.map(r => String(r[0]));
+  const columnList = columns.join(', ');
+  // Position of each numeric column and the string column it is parsed from
+  const derived = Object.entries(KOL_TRADE_NUMERIC_COLUMNS).map(([source, numeric]) => ({
+    source: columns.indexOf(source),
+    target: columns.indexOf(numeric),
+  }));
+  if (derived.some(d => d.source < 0 || d.target < 0)) {
+    throw new Error(`${TABLE} is missing numeric columns; start the API once so they are added`);
+  }
+
+  await questdbService.query(`DROP TABLE IF EXISTS ${STAGING_TABLE};`);
+  await questdbService.query(`
+    CREATE TABLE ${STAGING_TABLE} AS (
+      SELECT ${columnList} FROM ${TABLE} WHERE 1 = 0
+    ) TIMESTAMP(timestamp) PARTITION BY DAY WAL;`);
+
+  let copied = 0;
+  for (let offset = 0; offset < total; offset += PAGE_SIZE) {
+    const page = await questdbService.query(
+      `SELECT ${columnList} FROM ${TABLE} ORDER BY timestamp LIMIT ${offset}, ${offset + PAGE_SIZE};`
+    );
+    if (page.rows.length === 0) break;
+
+    const params: unknown[] = [];
+    const tuples = page.rows.map(row => {
+      const values = [...row];
+      for (const { source, target } of derived) {
+        values[target] = parseDecimal(values[source]);
+      }
+      const placeholders = values.map(value => {
+        params.push(value);
+        return `$${params.length}`;
+      });
+      return `(${placeholders.join(', ')})`;
+    });
+    await questdbService.pgClient.query(`INSERT INTO ${STAGING_TABLE} (${columnList}) VALUES ${tuples.join(', ')}`, params);
+    copied += page.rows.length;
+    logger.info(`[BackfillKolTradeNumbers] Copied ${copied}/${total}`);
+  }
+
+  // WAL tables apply inserts asynchronously; wait until the staging table has caught up
+  let stagedCount = 0;
+  for (let attempt = 0; attempt < 30; attempt++) {
+    const staged = await questdbService.query(`SELECT count() FROM ${STAGING_TABLE};`);
+    stagedCount = Number(staged.rows[0]?.[0] || 0);
+    if (stagedCount >= total) break;
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+  if (stagedCount !== total) {
+    throw new Error(`Copied ${stagedCount} rows but expected ${total}; ${TABLE} left untouched, inspect ${STAGING_TABLE}`);
+  }
+
+  const backup = `${TABLE}_prenum_${new Date().toISOString().replace(/[^\d]/g, '').slice(0, 12)}`;
+  await questdbService.query(`RENAME TABLE ${TABLE} TO ${backup};`);
+  await questdbService.query(`RENAME TABLE ${STAGING_TABLE} TO ${TABLE};`);
+  await questdbService.enableKolTradesDedup();
+  logger.info(`[BackfillKolTradeNumbers] Backfilled ${missing} rows; previous table kept as ${backup}`);
+
+  if (dropBackup) {
+    await questdbService.query(`DROP TABLE ${backup};`);
+    logger.info(`[BackfillKolTradeNumbers] Dropped ${backup}`);
+  }
+};
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  backfillKolTradeNumbers(args.includes('--apply'), args.includes('--drop-backup'))
+    .then(async () => {
+      await questdbService.close();
+      process.exit(0);
+    })
+    .catch(err => {
+      console.error('kol_trades numeric backfill failed:', err);
+      process.exit(1);
+    });
+}
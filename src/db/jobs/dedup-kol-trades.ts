@@ -0,0 +1,75 @@
+import { questdbService } from '../../services/questDbService';
+import { logger } from '../../utils/logger';
+
+/**
+ * One-off repair: collapses kol_trades rows that share (txHash, kolId, chain), left behind by
+ * Kafka redeliveries before ingestion became idempotent. The earliest copy of each trade is kept.
+ *
+ * QuestDB has no DELETE, so the surviving rows are copied into a new table that is swapped in
+ * for kol_trades. The original is kept as kol_trades_dups_<yyyymmddhhmm> unless --drop-backup
+ * is passed. Stop the Kafka consumer while it runs: trades written during the copy are lost.
+ *
+ * Usage: npm run job:dedup-kol-trades -- [--apply] [--drop-backup]
+ * Without --apply it only reports how many duplicates exist.
+ */
+const TABLE = 'kol_trades';
+const STAGING_TABLE = 'kol_trades_dedup';
+
+const countRows = async (): Promise<{ total: number; unique: number }> => {
+  const total = await questdbService.query(`SELECT count() FROM ${TABLE};`);
+  const unique = await questdbService.query(`SELECT count() FROM (SELECT DISTINCT txHash, kolId, chain FROM ${TABLE});`);
+  return { total: Number(total.rows[0]?.[0] || 0), unique: Number(unique.rows[0]?.[0] || 0) };
+};
+
+export const dedupKolTrades = async (apply: boolean, dropBackup: boolean): Promise<void> => {
+  await questdbService.init();
+  const before = await countRows();
+  const duplicates = before.total - before.unique;
+  logger.info(`[DedupKolTrades] ${before.total} rows, ${before.unique} unique trades, ${duplicates} duplicates`);
+  if (duplicates === 0 || !apply) {
+    if (duplicates > 0) logger.info('[DedupKolTrades] Dry run: pass --apply to collapse them');
+    return;
+  }
+
+  const columns = (await questdbService.query(`SELECT column FROM table_columns('${TABLE}');`)).rows.map(r => String(r[0]));
+  const columnList = columns.join(', ');
+  await questdbService.query(`DROP TABLE IF EXISTS ${STAGING_TABLE};`);
+  await questdbService.query(`
+    CREATE TABLE ${STAGING_TABLE} AS (
+      SELECT ${columnList} FROM (
+        SELECT ${columnList}, row_number() OVER (PARTITION BY txHash, kolId, chain ORDER BY timestamp) AS rn
+        FROM ${TABLE}
+      ) WHERE rn = 1
+      ORDER BY timestamp
+    ) TIMESTAMP(timestamp) PARTITION BY DAY WAL;`);
+
+  const copied = await questdbService.query(`SELECT count() FROM ${STAGING_TABLE};`);
+  const copiedCount = Number(copied.rows[0]?.[0] || 0);
+  if (copiedCount !== before.unique) {
+    throw new Error(`Copied ${copiedCount} rows but expected ${before.unique}; ${TABLE} left untouched, inspect ${STAGING_TABLE}`);
+  }
+
+  const backup = `${TABLE}_dups_${new Date().toISOString().replace(/[^\d]/g, '').slice(0, 12)}`;
+  await questdbService.query(`RENAME TABLE ${TABLE} TO ${backup};`);
+  await questdbService.query(`RENAME TABLE ${STAGING_TABLE} TO ${TABLE};`);
+  await questdbService.enableKolTradesDedup();
+  logger.info(`[DedupKolTrades] Removed ${duplicates} duplicates; previous table kept as ${backup}`);
+
+  if (dropBackup) {
+    await questdbService.query(`DROP TABLE ${backup};`);
+    logger.info(`[DedupKolTrades] Dropped ${backup}`);
+  }
+};
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  dedupKolTrades(args.includes('--apply'), args.includes('--drop-backup'))
+    .then(async () => {
+      await questdbService.close();
+      process.exit(0);
+    })
+    .catch(err => {
+      console.error('kol_trades dedup failed:', err);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,42 @@
+import { questdbService } from '../../services/questDbService';
+import { tradeIngestionService, createIngestionSource } from '../../services/tradeIngestionService';
+import { FileTradeSource } from '../../services/ingestion/fileTradeSource';
+import { config } from '../../utils/config';
+import { IngestionSourceKind } from '../../models/ingestion.types';
+
+/**
+ * Runs KOL trade ingestion without the API server, e.g. to load a JSONL fixture into a local QuestDB.
+ *
+ * Usage: npm run ingest:trades -- [--source=file|kafka] [--file=<path>|-] [--speed=<n>] [--live]
+ * --file implies the file source; '-' reads stdin. --speed defaults to INGESTION_REPLAY_SPEED
+ * (1 = real time, 10 = ten times faster, 0 = no delays). --live (or INGESTION_REPLAY_LIVE=true)
+ * replays the file as live trades, published to the trade stream and alerts. Exits when the file
+ * is exhausted; the Kafka source runs until interrupted.
+ */
+const value = (args: string[], name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const file = value(args, 'file');
+  const speed = value(args, 'speed');
+  const live = args.includes('--live') || config.ingestion.live;
+  const kind = (value(args, 'source') || (file ? 'file' : config.ingestion.source)) as IngestionSourceKind;
+  const source = kind === 'file'
+    ? new FileTradeSource({ file: file || config.ingestion.file, speed: speed !== undefined ? parseFloat(speed) || 0 : config.ingestion.speed, live })
+    : createIngestionSource(kind);
+
+  process.on('SIGINT', () => {
+    tradeIngestionService.stop().catch(() => undefined);
+  });
+
+  questdbService.init()
+    .then(() => tradeIngestionService.run(source))
+    .then(async () => {
+      await questdbService.close();
+      process.exit(0);
+    })
+    .catch(err => {
+      console.error('Trade ingestion failed:', err);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,79 @@
+import { questdbService } from '../../services/questDbService';
+import { deadLetterService } from '../../services/deadLetterService';
+import { tradeIngestionService } from '../../services/tradeIngestionService';
+import { logger } from '../../utils/logger';
+import { DEAD_LETTER_REASONS, DeadLetterReason, DeadLetterStatus } from '../../models/deadLetter.types';
+
+/**
+ * Re-runs dead-lettered Kafka messages through the consumer's parsing pipeline, typically after
+ * a parser fix has been deployed. Stored trades are deduplicated, so replaying twice is safe.
+ * Trades keep the time of the original message and are not published to the live stream or the
+ * convergence detector.
+ * Each dead letter ends up 'replayed', or 'failed' with the new error when it is rejected again.
+ *
+ * Usage: npm run job:replay-dead-letters -- [--id=<id> ...] [--reason=<reason>] [--include-failed] [--limit=500]
+ * Without --id it replays pending dead letters (and failed ones with --include-failed), oldest first.
+ */
+const DEFAULT_LIMIT = 500;
+
+export interface ReplayOptions {
+  ids: string[];
+  reason?: DeadLetterReason;
+  includeFailed: boolean;
+  limit: number;
+}
+
+export const replayDeadLetters = async (options: ReplayOptions): Promise<{ replayed: number; failed: number }> => {
+  await questdbService.init();
+  const statuses: DeadLetterStatus[] = options.includeFailed ? ['pending', 'failed'] : ['pending'];
+  const deadLetters = await deadLetterService.fetchForReplay({ ids: options.ids, reason: options.reason, statuses, limit: options.limit });
+  logger.info(`[ReplayDeadLetters] Replaying ${deadLetters.length} dead letters`);
+
+  let replayed = 0;
+  let failed = 0;
+  for (const deadLetter of deadLetters) {
+    const meta = { topic: deadLetter.topic, partition: deadLetter.partition, offset: deadLetter.offset };
+    // Dead letters recorded before message times were kept were stored when the message was consumed
+    const timestamp = Date.parse(deadLetter.messageTimestamp || deadLetter.createdAt);
+    const rejections = await tradeIngestionService.processMessage(deadLetter.payload || undefined, meta, { timestamp, replay: true });
+    if (rejections.length === 0) {
+      await deadLetterService.markReplayed(deadLetter);
+      replayed++;
+    } else {
+      const error = rejections.map(r => `${r.reason}: ${r.error}`).join('; ');
+      await deadLetterService.markFailed(deadLetter, error);
+      logger.warn(`[ReplayDeadLetters] ${deadLetter.id} rejected again: ${error}`);
+      failed++;
+    }
+  }
+  logger.info(`[ReplayDeadLetters] Done: ${replayed} replayed, ${failed} rejected again`);
+  return { replayed, failed };
+};
+
+const parseArgs = (args: string[]): ReplayOptions => {
+  const value = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+  const reason = value('reason');
+  if (reason && !DEAD_LETTER_REASONS.includes(reason as DeadLetterReason)) {
+    throw new Error(`--reason must be one of ${DEAD_LETTER_REASONS.join(', ')}`);
+  }
+  const limit = parseInt(value('limit') || String(DEFAULT_LIMIT), 10);
+  return {
+    ids: args.filter(a => a.startsWith('--id=')).map(a => a.slice('--id='.length)).filter(Boolean),
+    reason: reason as DeadLetterReason | undefined,
+    includeFailed: args.includes('--include-failed'),
+    limit: isNaN(limit) || limit < 1 ? DEFAULT_LIMIT : limit,
+  };
+};
+
+if (require.main === module) {
+  Promise.resolve()
+    .then(() => replayDeadLetters(parseArgs(process.argv.slice(2))))
+    .then(async () => {
+      await questdbService.close();
+      process.exit(0);
+    })
+    .catch(err => {
+      console.error('Dead-letter replay failed:', err);
+      process.exit(1);
+    });
+}
@@ -4,10 +4,14 @@ import helmet from 'helmet';
 import dotenv from 'dotenv';
 import swaggerUi from 'swagger-ui-express';
 import { logger } from './utils/logger';
+import { config } from './utils/config';
 import { questdbService } from './services/questDbService';
-import { kafkaService } from './services/kafka.service';  // NEW: Kafka import
+import { tradeIngestionService, createIngestionSource } from './services/tradeIngestionService';
 import kolsLeaderboardRouter from './api/router/leaderboard.route';
+import { requireGoogleUser, requireAdmin } from './api/middleware/auth.middleware';
 import { tokenMetricsDexscreenerPoller } from './services/tokenMetricsDexscreenerPoller'
+import { alertOutboxDispatcher } from './services/alerts/alertOutboxDispatcher';
+import { leaderElectionService } from './services/leaderElectionService';
 import cookieParser from 'cookie-parser';  // Ensure this middleware is used: app.use(cookieParser());
 import { MigrationRunner } from './db/migrations/migration-runner';
 import swaggerSpec from './config/swagger';
@@ -15,7 +19,6 @@ import { walletService } from './services/payments/paymentService';
 import { solanaPaymentCheckerService } from './services/payments/checkSOLpayment';
 import { bscPaymentCheckerService } from './services/payments/checkBSCpayment';
 import { paymentTransferCron } from './services/crons/paymentTrasnfer.cron';
-import { freeTokenMetricsDexscreenerPoller } from './services/freeTokenMetricsDexscreenerPoller';
 dotenv.config();
 
 const app: Application = express();
@@ -57,6 +60,15 @@ app.use('/scanner/api/v1/kol', kolsLeaderboardRouter);
 // Health check
 app.get('/scanner/health', (req, res) => res.status(200).json({ status: 'OK', db: 'QuestDB ready', kafka: 'Connected' }));
 
+// Background job status (per poller strategy) and which instance holds each job's lease; admins only,
+// since it exposes instance ids and fencing tokens
+app.get('/scanner/status', requireGoogleUser, requireAdmin, async (req, res) => res.status(200).json({
+  instanceId: leaderElectionService.instanceId,
+  leases: await leaderElectionService.getStatus(),
+  alertPoller: tokenMetricsDexscreenerPoller.getStatus(),
+  alertOutbox: alertOutboxDispatcher.getStatus()
+}));
+
 // Error handler
 app.use((err: Error, req: any, res: any, next: any) => {
   logger.error(err.message);
@@ -82,10 +94,11 @@ const runMigrations = async () => {
   try {
     await questdbService.init();
     // await runMigrations();
-    // await kafkaService.connect();  // NEW: Connect Kafka consumer
-    // await kafkaService.consume();  // NEW: Start consuming KOL pushes (background)
-    await tokenMetricsDexscreenerPoller.start();
-    // await freeTokenMetricsDexscreenerPoller.start()
+    if (config.ingestion.enabled) {
+      tradeIngestionService.start(createIngestionSource());  // KOL trades from Kafka or a JSONL replay (INGESTION_SOURCE)
+    }
+    await tokenMetricsDexscreenerPoller.start();  // Free-trial and paid plans, one strategy each
+    alertOutboxDispatcher.start();  // Delivers queued alerts
     // await solanaPaymentCheckerService.startCron();
     // bscPaymentCheckerService.startCron();
     // paymentTransferCron.runTransferCron();
@@ -110,8 +123,10 @@ const runMigrations = async () => {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('Shutting down...');
-  await kafkaService.disconnect();  // NEW: Disconnect Kafka
+  await tradeIngestionService.stop();
   tokenMetricsDexscreenerPoller.stop();
+  alertOutboxDispatcher.stop();
+  await leaderElectionService.releaseAll();  // Let another instance take over the jobs right away
   await questdbService.close();
   process.exit(0);
 });
@@ -0,0 +1,152 @@
+export type AlertMetric = 'volume' | 'priceChange' | 'buyers' | 'marketCap';
+export type AlertOperator = '>' | '>=' | '<' | '<=';
+export type AlertWindow = '5m' | '1h' | '6h' | '24h';
+
+export const ALERT_METRICS: AlertMetric[] = ['volume', 'priceChange', 'buyers', 'marketCap'];
+export const ALERT_OPERATORS: AlertOperator[] = ['>', '>=', '<', '<='];
+export const ALERT_WINDOWS: AlertWindow[] = ['5m', '1h', '6h', '24h'];
+
+// Everything that can be posted: rule metrics, the built-in price move and milestone alerts,
+// and KOL convergence signals raised by trade ingestion
+export type AlertKind = AlertMetric | 'pricePump' | 'priceDump' | 'marketCapMilestone' | 'kolConvergence';
+export const ALERT_KINDS: AlertKind[] = [...ALERT_METRICS, 'pricePump', 'priceDump', 'marketCapMilestone', 'kolConvergence'];
+
+// A single user-defined condition attached to a user_posts_plans entry (twitter_id + token)
+export interface AlertRule {
+    ruleId: string;
+    twitterId: string;
+    token: string;
+    metric: AlertMetric;
+    operator: AlertOperator;
+    threshold: number;
+    window: AlertWindow;  // ignored for marketCap
+    cooldownMinutes: number;
+    enabled: boolean;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'ruleId' | 'enabled' | 'createdAt' | 'updatedAt'>;
+
+// Values extracted from the selected Dexscreener pair, used to evaluate rules
+export interface TokenMetricsSnapshot {
+    contract: string;
+    chain: string;
+    symbol: string;
+    priceUsd: number;
+    marketCap: number;
+    fdv: number;
+    liquidityUsd: number;
+    volume: Record<AlertWindow, number>;
+    priceChange: Record<AlertWindow, number>;
+    buyers: Record<AlertWindow, number>;
+    sellers: Record<AlertWindow, number>;
+}
+
+export interface RuleMatch {
+    rule: AlertRule;
+    value: number;
+}
+
+// A price move or milestone detected outside of the rule engine
+export interface MarketEvent {
+    kind: Extract<AlertKind, 'pricePump' | 'priceDump' | 'marketCapMilestone'>;
+    window: AlertWindow;
+    value: number;
+    milestone?: number;
+}
+
+// One template per alert kind per plan
+export type AlertTemplateKind = AlertKind;
+
+export interface AlertTemplate {
+    templateId: string;
+    twitterId: string;
+    token: string;
+    kind: AlertTemplateKind;
+    body: string;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface TemplateValidationResult {
+    valid: boolean;
+    errors: string[];
+    renderedLength: number;
+}
+
+// Identifies one stream of alerts for a plan, used for cooldown and dedup in alerts_sent
+export interface AlertSendKey {
+    twitterId: string;
+    contract: string;
+    alertType: AlertKind;
+    window: AlertWindow;
+}
+
+export interface AlertSentRecord extends AlertSendKey {
+    value: number;
+    sentAt: number;
+}
+
+export interface AlertSendCheck {
+    allowed: boolean;
+    reason?: string;
+}
+
+export interface StrategyStatus {
+    name: string;
+    intervalMinutes: number;
+    allowedAlertTypes: AlertKind[];
+    activePlans: number;
+    lastRunAt: string | null;
+    lastAlertsPosted: number;
+    lastError: string | null;
+}
+
+export interface PollerStatus {
+    running: boolean;
+    cycleInProgress: boolean;
+    lastCycleAt: string | null;
+    // Set while the admin kill switch is on
+    globalPause: AlertControl | null;
+    strategies: StrategyStatus[];
+}
+
+// global: every plan (admin); token: one contract across all plans (admin);
+// account: every plan of one X account; plan: one X account and token
+export type AlertControlScope = 'global' | 'token' | 'account' | 'plan';
+
+export interface AlertControl {
+    scope: AlertControlScope;
+    twitterId?: string;
+    token?: string;
+    paused: boolean;
+    reason?: string;
+    updatedBy: string;
+    updatedAt: string;
+}
+
+// Outcome of evaluating one alert candidate for a plan
+export interface AlertEvaluation {
+    kind: AlertKind;
+    window: AlertWindow;
+    value: number;
+    ruleId?: string;
+    text: string;
+    // Passed cooldown, dedup and quota checks
+    eligible: boolean;
+    queued: boolean;
+    reason?: string;
+}
+
+export interface ManualTriggerResult {
+    twitterId: string;
+    contract: string;
+    chain: string;
+    serviceType: string;
+    dryRun: boolean;
+    pausedBy: AlertControl | null;
+    snapshot: TokenMetricsSnapshot;
+    rulesEvaluated: number;
+    results: AlertEvaluation[];
+}
@@ -0,0 +1,49 @@
+import { KolInfo } from './kols.types';
+
+// When a subscriber is alerted: at least minKols distinct KOLs bought the same token within windowMinutes
+export interface ConvergenceSettings {
+    twitterId: string;
+    enabled: boolean;
+    minKols: number;
+    windowMinutes: number;
+    cooldownMinutes: number;
+    // False while the subscriber uses the configured defaults
+    custom: boolean;
+    updatedBy?: string;
+    updatedAt?: string;
+}
+
+export type ConvergenceSettingsInput = Partial<Pick<ConvergenceSettings, 'enabled' | 'minKols' | 'windowMinutes' | 'cooldownMinutes'>>;
+
+// A detector threshold; signals fire once per threshold, token and window
+export type ConvergenceThreshold = Pick<ConvergenceSettings, 'minKols' | 'windowMinutes'>;
+
+// A KOL buy as seen by the detector
+export interface ConvergenceBuy {
+    kol: KolInfo;
+    boughtAt: string;
+}
+
+export interface ConvergenceSignal {
+    signalId: string;
+    chain: string;
+    contract: string;
+    symbol: string;
+    minKols: number;
+    windowMinutes: number;
+    kolCount: number;
+    // Oldest first
+    buyers: ConvergenceBuy[];
+    firstBuyAt: string;
+    lastBuyAt: string;
+    // Alerts queued for subscribers holding a plan on the token
+    alertsQueued: number;
+    triggeredAt: string;
+}
+
+export interface ConvergenceSignalQuery {
+    chain?: string;
+    contract?: string;
+    from?: string;
+    limit: number;
+}
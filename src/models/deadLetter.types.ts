@@ -0,0 +1,45 @@
+export const DEAD_LETTER_REASONS = ['empty_message', 'invalid_json', 'missing_tx_hash', 'censored_tx_hash', 'processing_error'] as const;
+export type DeadLetterReason = typeof DEAD_LETTER_REASONS[number];
+
+// pending: not replayed yet; replayed: a replay stored it; failed: the last replay rejected it again
+export const DEAD_LETTER_STATUSES = ['pending', 'replayed', 'failed'] as const;
+export type DeadLetterStatus = typeof DEAD_LETTER_STATUSES[number];
+
+export interface KafkaMessageMeta {
+    topic: string;
+    partition: number;
+    offset: string;
+}
+
+export interface MessageRejection {
+    reason: DeadLetterReason;
+    error: string;
+    // Raw message, or a single-trade message when only one trade of a batch was rejected
+    payload: string;
+}
+
+export interface DeadLetter extends KafkaMessageMeta, MessageRejection {
+    id: string;
+    status: DeadLetterStatus;
+    replayCount: number;
+    createdAt: string;
+    // When the message was produced, if known; replayed trades are stored at this time
+    messageTimestamp: string | null;
+    replayedAt: string | null;
+}
+
+export interface DeadLetterQuery {
+    reason?: DeadLetterReason;
+    status?: DeadLetterStatus;
+    topic?: string;
+    from?: string;
+    to?: string;
+    page: number;
+    limit: number;
+}
+
+export interface DeadLetterCount {
+    reason: DeadLetterReason;
+    status: DeadLetterStatus;
+    count: number;
+}
@@ -0,0 +1,118 @@
+import { AlertKind, AlertWindow, TokenMetricsSnapshot } from './alert.types';
+
+export type DeliveryChannelType = 'twitter' | 'telegram' | 'discord' | 'webhook';
+
+export const DELIVERY_CHANNEL_TYPES: DeliveryChannelType[] = ['twitter', 'telegram', 'discord', 'webhook'];
+
+// A delivery destination attached to a plan (twitter_id + token), in addition to the plan's own X account
+export interface AlertChannel {
+    channelId: string;
+    twitterId: string;
+    token: string;
+    type: DeliveryChannelType;
+    // twitter: community link or id (empty for timeline), telegram: chat id, discord/webhook: URL
+    target: string;
+    // HMAC secret for generic webhooks; never returned by the API
+    secret?: string;
+    enabled: boolean;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export type AlertChannelInput = Pick<AlertChannel, 'twitterId' | 'token' | 'type' | 'target' | 'secret'>;
+
+// Everything an adapter needs to format an alert for its channel
+export interface AlertDeliveryMessage {
+    twitterId: string;
+    contract: string;
+    chain: string;
+    kind: AlertKind;
+    window: AlertWindow;
+    text: string;
+    snapshot?: TokenMetricsSnapshot;
+    dexLink?: string;
+}
+
+export interface DeliveryResult {
+    channelId: string;
+    type: DeliveryChannelType;
+    success: boolean;
+    statusCode?: number;
+    // Tweet id, Telegram message id, ...
+    externalId?: string;
+    error?: string;
+    durationMs: number;
+    // Failed deliveries only: whether a later attempt can succeed (429, 5xx, network errors)
+    retryable?: boolean;
+    // Earliest time to retry, from rate-limit headers (epoch ms)
+    retryAt?: number;
+}
+
+// One adapter per channel type; each formats the alert its own way and reports its own result
+export interface DeliveryAdapter {
+    readonly type: DeliveryChannelType;
+    send(channel: AlertChannel, message: AlertDeliveryMessage): Promise<DeliveryResult>;
+}
+
+export type OutboxStatus = 'pending' | 'retrying' | 'sending' | 'delivered' | 'failed';
+
+// One queued delivery of an alert to one channel; all channels of an alert share alertId
+export interface OutboxItem {
+    outboxId: string;
+    alertId: string;
+    twitterId: string;
+    contract: string;
+    serviceType: string;
+    channelId: string;
+    channelType: DeliveryChannelType;
+    target: string;
+    message: AlertDeliveryMessage;
+    status: OutboxStatus;
+    attempts: number;
+    nextAttemptAt: string;
+    lastError?: string;
+    lastStatusCode?: number;
+    externalId?: string;
+    createdAt: string;
+    deliveredAt?: string;
+}
+
+export interface OutboxDispatcherStatus {
+    running: boolean;
+    tickInProgress: boolean;
+    lastTickAt: string | null;
+    lastDelivered: number;
+    lastFailed: number;
+    lastRetried: number;
+    // Accounts/channels currently held back by a rate limit, with the time they reopen
+    rateLimited: Record<string, string>;
+    lastError: string | null;
+}
+
+// A delivered alert as shown to the plan owner
+export interface AlertHistoryEntry {
+    alertId: string;
+    twitterId: string;
+    contract: string;
+    chain: string;
+    serviceType: string;
+    alertType: AlertKind;
+    window: AlertWindow;
+    text: string;
+    channelId: string;
+    channelType: DeliveryChannelType;
+    // Tweet id, Telegram message id or Discord message id, when the channel returns one
+    externalId?: string;
+    snapshot?: TokenMetricsSnapshot;
+    deliveredAt: string;
+}
+
+export interface AlertHistoryQuery {
+    twitterIds: string[];
+    token?: string;
+    alertType?: AlertKind;
+    from?: string;
+    to?: string;
+    page: number;
+    limit: number;
+}
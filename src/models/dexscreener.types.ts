@@ -0,0 +1,53 @@
+// Shapes returned by the Dexscreener /latest/dex/tokens endpoint
+
+export interface DexWindowValues {
+    m5?: number;
+    h1?: number;
+    h6?: number;
+    h24?: number;
+}
+
+export interface DexTxnCounts {
+    buys: number;
+    sells: number;
+}
+
+export interface DexToken {
+    address: string;
+    name: string;
+    symbol: string;
+}
+
+export interface DexPair {
+    chainId: string;
+    dexId: string;
+    url: string;
+    pairAddress: string;
+    labels?: string[];
+    baseToken: DexToken;
+    quoteToken: DexToken;
+    priceNative: string;
+    priceUsd?: string;
+    txns?: { m5?: DexTxnCounts; h1?: DexTxnCounts; h6?: DexTxnCounts; h24?: DexTxnCounts };
+    volume?: DexWindowValues;
+    priceChange?: DexWindowValues;
+    liquidity?: { usd?: number; base?: number; quote?: number };
+    fdv?: number;
+    marketCap?: number;
+    pairCreatedAt?: number;
+    info?: Record<string, any>;
+}
+
+export interface DexTokensResponse {
+    schemaVersion: string;
+    pairs: DexPair[] | null;
+}
+
+export interface PairSelectionOptions {
+    // Only pairs where this token is the base token
+    baseToken?: string;
+    // Plan chain (SOLANA, BSC, ETH) or Dexscreener chainId
+    chain?: string;
+    // Use this pair when present, otherwise fall back to the highest-liquidity pair
+    pinnedPairAddress?: string;
+}
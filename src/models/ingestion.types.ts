@@ -0,0 +1,49 @@
+import { KafkaMessageMeta } from './deadLetter.types';
+
+export type IngestionSourceKind = 'kafka' | 'file';
+
+export interface IngestedMessage {
+    // Raw message value, undefined for empty messages
+    value: string | undefined;
+    meta: KafkaMessageMeta;
+    // When the message was produced (ms since epoch), if known
+    timestamp?: number;
+    // Historical message (file replay): stored, but not published live
+    replay?: boolean;
+}
+
+/**
+ * How the trades of one message are stored.
+ */
+export interface ProcessMessageOptions {
+    // Time of the trades (ms since epoch), normally when the message was produced; defaults to now
+    timestamp?: number;
+    // Store the trades without publishing them to the live stream or the convergence detector
+    replay?: boolean;
+}
+
+export type IngestedMessageHandler = (message: IngestedMessage) => Promise<void>;
+
+/**
+ * Where KOL trade messages come from. The ingestion service feeds every message through the same
+ * parsing pipeline whatever the source.
+ */
+export interface TradeIngestionSource {
+    readonly name: string;
+    /**
+     * Delivers messages one at a time until the source is exhausted (files) or stop() is called.
+     */
+    run(handler: IngestedMessageHandler): Promise<void>;
+    stop(): Promise<void>;
+}
+
+/**
+ * One line of a capture/replay file. Lines that are not envelopes are treated as the message value itself.
+ */
+export interface CapturedMessage {
+    value: string | object | null;
+    timestamp?: number | string;
+    topic?: string;
+    partition?: number;
+    offset?: string;
+}
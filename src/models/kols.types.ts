@@ -1,3 +1,5 @@
+import type { TradeChain } from '../utils/chains';
+
 export interface KolTradeStat {
     kolName: string;
     action: 'buy' | 'sell' | 'add' | 'partial_sell' | 'full_sell';
@@ -9,4 +11,256 @@ export interface KolLeaderboardResponse {
     sellerCount: number;
     clearCount?: number;
     tradeStatList: KolTradeStat[];
+    // Where the entries came from: our own kol_trades and/or CabalSpy
+    sources?: Array<'native' | 'cabalspy'>;
+}
+
+export type TradeSide = 'buy' | 'sell';
+
+export interface KolInfo {
+    id: string;
+    name: string;
+    avatar: string;
+    twitterId: string;
+}
+
+export interface KolTrade {
+    timestamp: string;
+    txHash: string;
+    chain: string;
+    contract: string;
+    tokenName: string;
+    side: TradeSide;
+    // Feed action: initial_position, add_position, partial_sell, full_sell...
+    action: string;
+    tokenAmount: number;
+    usdValue: number;
+    // usdValue / tokenAmount, null when the amount is unknown
+    priceUsd: number | null;
+}
+
+// A kol_trades row as written by ingestion, before the traded token and side are resolved
+export interface KolTradeRecord {
+    timestamp: string;
+    txHash: string;
+    chain: string;
+    action: string;
+    fromToken: string;
+    fromTokenAddress: string;
+    fromTokenCount: string;
+    toToken: string;
+    toTokenAddress: string;
+    toTokenCount: string;
+    usdtPrice: string;
+    kolId: string;
+    kolName: string;
+    kolAvatar: string;
+    kolTwitterId: string;
+    // Parsed at ingest; null when the string is empty or malformed (or the row predates the numeric columns)
+    fromTokenCountNum: number | null;
+    toTokenCountNum: number | null;
+    usdtPriceNum: number | null;
+}
+
+// A trade pushed to live-feed clients
+export interface KolStreamTrade extends KolTrade {
+    kol: KolInfo;
+}
+
+// Server-side filters of the live trade stream; actions match either the side (buy, sell) or the feed action
+export interface KolTradeStreamFilter {
+    chain?: TradeChain;
+    contract?: string;
+    kolId?: string;
+    actions?: string[];
+}
+
+/**
+ * A KOL's position in one token, using average cost: sells realise PnL against the average entry price.
+ */
+export interface KolTokenPosition {
+    contract: string;
+    tokenName: string;
+    chain: string;
+    buyCount: number;
+    sellCount: number;
+    boughtAmount: number;
+    soldAmount: number;
+    holdingAmount: number;
+    // Cost of the tokens still held
+    costBasisUsd: number;
+    avgEntryPriceUsd: number | null;
+    avgExitPriceUsd: number | null;
+    currentPriceUsd: number | null;
+    realisedPnlUsd: number;
+    // null when the token has no current price
+    unrealisedPnlUsd: number | null;
+    firstTradeAt: string;
+    lastTradeAt: string;
+}
+
+export interface KolProfileStats {
+    totalTrades: number;
+    buyCount: number;
+    sellCount: number;
+    tokensTraded: number;
+    volumeUsd: number;
+    // Tokens sold at a profit / tokens sold at a profit or loss (0-1), null before the first such sell
+    winRate: number | null;
+    wins: number;
+    losses: number;
+    realisedPnlUsd: number;
+    unrealisedPnlUsd: number;
+    firstTradeAt: string;
+    lastTradeAt: string;
+}
+
+export interface KolProfile {
+    kol: KolInfo;
+    stats: KolProfileStats;
+    holdings: KolTokenPosition[];
+    recentTrades: KolTrade[];
+}
+
+export type KolTimelineStatus = 'holding' | 'partially_sold' | 'exited';
+
+// One trade of a KOL in the token's timeline
+export interface KolTimelineEvent {
+    timestamp: string;
+    txHash: string;
+    side: TradeSide;
+    // initial_position, add_position, partial_sell, full_sell...
+    action: string;
+    tokenAmount: number;
+    usdValue: number;
+    priceUsd: number | null;
+    // Tokens held after the trade
+    remainingAmount: number;
+}
+
+export interface KolTimelineEntry {
+    kol: KolInfo;
+    // 1 for the first KOL to buy; null (with firstEntryAt) when only sells were tracked
+    entryRank: number | null;
+    firstEntryAt: string | null;
+    entryPriceUsd: number | null;
+    // Current price / entry price
+    currentMultiple: number | null;
+    status: KolTimelineStatus;
+    boughtAmount: number;
+    soldAmount: number;
+    remainingAmount: number;
+    events: KolTimelineEvent[];
+}
+
+export interface TokenKolTimeline {
+    contract: string;
+    chain: string;
+    tokenName: string;
+    currentPriceUsd: number | null;
+    kolCount: number;
+    holdingCount: number;
+    exitedCount: number;
+    firstEntryAt: string | null;
+    // True when the token has more trades than the timeline loads; only the most recent ones are included
+    truncated: boolean;
+    // Ordered by first entry; KOLs seen selling without a tracked buy come last
+    kols: KolTimelineEntry[];
+}
+
+export const TOP_TOKEN_SORTS = ['kols', 'netInflow', 'buySellRatio', 'volume', 'recent'] as const;
+export type TopTokenSort = typeof TOP_TOKEN_SORTS[number];
+
+export interface TopToken {
+    contract: string;
+    tokenName: string;
+    chain: TradeChain;
+    uniqueKolCount: number;
+    buyerKolCount: number;
+    sellerKolCount: number;
+    latestTimestamp: string;
+    kolCallCount: number;  // Total KOL trades/calls (COUNT(*))
+    uniqueKolCalls: number; // Unique KOL calls (COUNT(DISTINCT kolId))
+    totalBoughtAmount: number;
+    totalSoldAmount: number;
+    totalTradeAmount: number;
+    buyUsd: number;
+    sellUsd: number;
+    netInflowUsd: number;
+    // buyUsd / sellUsd, null when nothing was sold
+    buySellRatio: number | null;
+    // Latest token_metrics price, null when the token is not tracked
+    currentPriceUsd: number | null;
+    // Participating KOLs, most recent trade first; only with includeKols
+    kols?: KolInfo[];
+}
+
+// Position after the last token of a page, in the order of its sort
+export interface TopTokenCursor {
+    sortBy: TopTokenSort;
+    values: number[];
+    key: string;
+}
+
+// Either a rolling period or a from/to window
+export interface TopTokenQuery {
+    period?: LeaderboardPeriod;
+    from?: Date;
+    to?: Date;
+    chain?: TradeChain;
+    sortBy: TopTokenSort;
+    limit: number;
+    cursor?: TopTokenCursor;
+    includeKols: boolean;
+}
+
+export const LEADERBOARD_PERIODS = ['1h', '24h', '1w', 'all'] as const;
+export type LeaderboardPeriod = typeof LEADERBOARD_PERIODS[number];
+
+export const LEADERBOARD_SORTS = ['pnl', 'winRate', 'volume', 'earlyEntry'] as const;
+export type LeaderboardSort = typeof LEADERBOARD_SORTS[number];
+
+/**
+ * One KOL's trading in one token over a period, summed by side.
+ */
+export interface KolTokenAggregate {
+    kolId: string;
+    kolName: string;
+    kolAvatar: string;
+    kolTwitterId: string;
+    chain: string;
+    contract: string;
+    buyUsd: number;
+    sellUsd: number;
+    boughtAmount: number;
+    soldAmount: number;
+    trades: number;
+    firstBuyAt: string | null;
+    lastTradeAt: string;
+}
+
+export interface GlobalLeaderboardEntry {
+    rank: number;
+    kol: KolInfo;
+    pnlUsd: number;
+    realisedPnlUsd: number;
+    unrealisedPnlUsd: number;
+    // Tokens sold at a profit / tokens sold at a profit or loss (0-1), null without such sells
+    winRate: number | null;
+    wins: number;
+    losses: number;
+    volumeUsd: number;
+    trades: number;
+    tokensTraded: number;
+    // 0-100: how early the KOL bought compared with the other KOLs buying the same tokens, null without shared tokens
+    earlyEntryScore: number | null;
+    lastTradeAt: string;
+}
+
+export interface GlobalLeaderboardQuery {
+    period: LeaderboardPeriod;
+    chain?: string;
+    sortBy: LeaderboardSort;
+    page: number;
+    limit: number;
 }
@@ -0,0 +1,11 @@
+// A lease held in Redis that lets one instance run a scheduled job
+export interface LeaseStatus {
+    name: string;
+    // Instance id of the current holder, null when nobody holds the lease
+    holder: string | null;
+    // Increases every time the lease changes hands; writes carrying an older token are stale
+    fencingToken: number | null;
+    expiresInMs: number | null;
+    // Whether this instance is the holder
+    isLeader: boolean;
+}
@@ -0,0 +1,70 @@
+import { KolInfo, LeaderboardPeriod } from './kols.types';
+
+export interface KolOverlapQuery {
+    period: LeaderboardPeriod;
+    chain?: string;
+    // Shared tokens a pair needs to be reported and linked into a cluster
+    minShared: number;
+    // Jaccard similarity a pair needs to be linked into a cluster (0-1)
+    minSimilarity: number;
+    // KOLs in the co-occurrence matrix, most active first
+    maxKols: number;
+}
+
+// Two KOLs that bought the same tokens; the leader is the one that bought first more often
+export interface KolPairOverlap {
+    leader: KolInfo;
+    follower: KolInfo;
+    sharedTokens: number;
+    // Shared tokens / tokens bought by either KOL (0-1)
+    similarity: number;
+    leaderFirstCount: number;
+    followerFirstCount: number;
+    // Median of follower first buy minus leader first buy over shared tokens
+    medianLagMinutes: number;
+}
+
+export interface KolCluster {
+    id: number;
+    kols: KolInfo[];
+    // Mean similarity over every member pair, linked or not
+    avgSimilarity: number;
+    // Median time between members buying the same token; small values point to coordinated buying
+    medianLagMinutes: number;
+}
+
+export interface KolOverlapMember {
+    kol: KolInfo;
+    tokensBought: number;
+    clusterId: number | null;
+}
+
+export interface KolOverlapAnalysis {
+    period: LeaderboardPeriod;
+    chain: string | null;
+    kols: KolOverlapMember[];
+    // matrix[i][j]: tokens bought by both kols[i] and kols[j]; the diagonal holds each KOL's own count
+    matrix: number[][];
+    pairs: KolPairOverlap[];
+    clusters: KolCluster[];
+}
+
+// Another KOL's overlap seen from the requested KOL
+export interface KolCorrelation {
+    kol: KolInfo;
+    sharedTokens: number;
+    similarity: number;
+    // Shared tokens the requested KOL bought first / the other KOL bought first
+    leadCount: number;
+    followCount: number;
+    // Median of the other KOL's first buy minus the requested KOL's; positive when the requested KOL leads
+    medianLagMinutes: number;
+}
+
+export interface KolCorrelationResult {
+    kol: KolInfo;
+    period: LeaderboardPeriod;
+    chain: string | null;
+    tokensBought: number;
+    correlated: KolCorrelation[];
+}
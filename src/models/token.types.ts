@@ -32,4 +32,28 @@ export type TokenInfoResponse = {
   pairs?: any[];
   honeypot?: any;
   goplusSecurity?: any;
-};
\ No newline at end of file
+};
+export type MetricsInterval = '5m' | '1h' | '1d';
+
+export const METRICS_INTERVALS: MetricsInterval[] = ['5m', '1h', '1d'];
+
+// One SAMPLE BY bucket of token_metrics; empty buckets carry the previous prices
+export interface TokenMetricsBucket {
+  timestamp: string;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  marketCap: number | null;
+  volume: number;
+  samples: number;
+}
+
+export interface TokenMetricsSeries {
+  contract: string;
+  chain: string | null;
+  interval: MetricsInterval;
+  from: string;
+  to: string;
+  buckets: TokenMetricsBucket[];
+}
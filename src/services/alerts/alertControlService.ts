@@ -0,0 +1,112 @@
+import { questdbService } from '../questDbService';
+import { logger } from '../../utils/logger';
+import { AlertControl, AlertControlScope } from '../../models/alert.types';
+
+// Current pause state, keyed by control key
+export type AlertControlState = Map<string, AlertControl>;
+
+/**
+ * Pause and resume switches for alerts. Every change is appended to alert_controls;
+ * the latest row per key is the current state, so history is kept and restarts are safe.
+ */
+export class AlertControlService {
+    controlKey(scope: AlertControlScope, twitterId?: string, token?: string): string {
+        switch (scope) {
+            case 'global':
+                return 'global';
+            case 'token':
+                return `token:${(token || '').toLowerCase()}`;
+            case 'account':
+                return `account:${(twitterId || '').toLowerCase()}`;
+            case 'plan':
+                return `plan:${(twitterId || '').toLowerCase()}:${(token || '').toLowerCase()}`;
+        }
+    }
+
+    async setPaused(
+        scope: AlertControlScope,
+        paused: boolean,
+        updatedBy: string,
+        options: { twitterId?: string; token?: string; reason?: string } = {}
+    ): Promise<AlertControl> {
+        const nowIso = new Date().toISOString();
+        const control: AlertControl = {
+            scope,
+            twitterId: scope === 'account' || scope === 'plan' ? options.twitterId : undefined,
+            token: scope === 'token' || scope === 'plan' ? options.token?.toLowerCase() : undefined,
+            paused,
+            reason: options.reason,
+            updatedBy,
+            updatedAt: nowIso,
+        };
+        await questdbService.pgClient.query(
+            `INSERT INTO alert_controls (timestamp, control_key, scope, twitter_id, token, paused, reason, updated_by)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8);`,
+            [
+                nowIso, this.controlKey(scope, control.twitterId, control.token), scope,
+                control.twitterId ?? null, control.token ?? null, paused, control.reason ?? null, updatedBy
+            ]
+        );
+        logger.info(`[Controls] ${paused ? 'Paused' : 'Resumed'} ${this.controlKey(scope, control.twitterId, control.token)} by ${updatedBy}`);
+        return control;
+    }
+
+    /**
+     * Active pauses, keyed by control key.
+     */
+    async loadState(): Promise<AlertControlState> {
+        const result = await questdbService.query(
+            `SELECT control_key, scope, twitter_id, token, paused, reason, updated_by, timestamp
+             FROM alert_controls
+             LATEST ON timestamp PARTITION BY control_key;`
+        );
+        const state: AlertControlState = new Map();
+        for (const row of result.rows) {
+            if (!row[4]) continue;
+            state.set(String(row[0]), {
+                scope: row[1],
+                twitterId: row[2] ? String(row[2]) : undefined,
+                token: row[3] ? String(row[3]) : undefined,
+                paused: true,
+                reason: row[5] ? String(row[5]) : undefined,
+                updatedBy: String(row[6] || ''),
+                updatedAt: new Date(row[7]).toISOString(),
+            });
+        }
+        return state;
+    }
+
+    /**
+     * The pause that applies to a plan, most general first, or null when alerts are on.
+     */
+    findPause(state: AlertControlState, twitterId: string, token: string): AlertControl | null {
+        return state.get('global')
+            || state.get(this.controlKey('token', undefined, token))
+            || state.get(this.controlKey('account', twitterId))
+            || state.get(this.controlKey('plan', twitterId, token))
+            || null;
+    }
+
+    /**
+     * The kill switch state. Fails closed: if it cannot be read, alerts are treated as paused.
+     */
+    async getGlobalPause(): Promise<AlertControl | null> {
+        try {
+            return (await this.loadState()).get('global') || null;
+        } catch (error: any) {
+            logger.error(`[Controls] Failed to read kill switch: ${error?.message || error}`);
+            return { scope: 'global', paused: true, reason: 'Control state unavailable', updatedBy: 'system', updatedAt: new Date().toISOString() };
+        }
+    }
+
+    /**
+     * Active pauses that concern the given X accounts.
+     */
+    async listForAccounts(twitterIds: string[]): Promise<AlertControl[]> {
+        const ids = new Set(twitterIds.map(id => id.toLowerCase()));
+        const state = await this.loadState();
+        return Array.from(state.values()).filter(c => c.scope === 'global' || c.scope === 'token' || (c.twitterId && ids.has(c.twitterId.toLowerCase())));
+    }
+}
+
+export const alertControlService = new AlertControlService();
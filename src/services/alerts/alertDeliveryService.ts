@@ -0,0 +1,193 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { questdbService } from '../questDbService';
+import { logger } from '../../utils/logger';
+import {
+    AlertChannel,
+    AlertChannelInput,
+    AlertDeliveryMessage,
+    DELIVERY_CHANNEL_TYPES,
+    DeliveryAdapter,
+    DeliveryChannelType,
+    DeliveryResult
+} from '../../models/delivery.types';
+import { twitterDeliveryAdapter } from './delivery/twitterAdapter';
+import { telegramDeliveryAdapter } from './delivery/telegramAdapter';
+import { discordDeliveryAdapter } from './delivery/discordAdapter';
+import { webhookDeliveryAdapter } from './delivery/webhookAdapter';
+import { checkPublicTarget } from './delivery/targetGuard';
+
+const esc = (s: string) => s.replace(/'/g, "''");
+
+// Id of the implicit channel that posts with the plan's own X account
+export const PLAN_TWITTER_CHANNEL_ID = 'plan-twitter';
+
+export class AlertDeliveryService {
+    private adapters: Record<DeliveryChannelType, DeliveryAdapter> = {
+        twitter: twitterDeliveryAdapter,
+        telegram: telegramDeliveryAdapter,
+        discord: discordDeliveryAdapter,
+        webhook: webhookDeliveryAdapter,
+    };
+
+    /**
+     * Discord and webhook targets must resolve to public addresses. That check looks up a
+     * caller-supplied host, so callers verify plan ownership before validating.
+     */
+    async validateChannelInput(input: Partial<AlertChannelInput>): Promise<string[]> {
+        const errors: string[] = [];
+        if (!input.twitterId) errors.push('twitterId is required');
+        if (!input.token) errors.push('token is required');
+        if (!input.type || !DELIVERY_CHANNEL_TYPES.includes(input.type)) {
+            errors.push(`type must be one of ${DELIVERY_CHANNEL_TYPES.join(', ')}`);
+        }
+        if (typeof input.target !== 'string' || (input.type !== 'twitter' && !input.target.trim())) {
+            errors.push('target is required');
+        } else if (input.type === 'discord' || input.type === 'webhook') {
+            try {
+                const url = new URL(input.target);
+                if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+                    errors.push('target must be an http(s) URL');
+                } else {
+                    const blocked = await checkPublicTarget(input.target);
+                    if (blocked) errors.push(blocked);
+                }
+            } catch {
+                errors.push('target must be a valid URL');
+            }
+        } else if (input.type === 'telegram' && !/^(-?\d+|@\w{5,})$/.test(input.target.trim())) {
+            errors.push('target must be a Telegram chat id or @channelusername');
+        }
+        return errors;
+    }
+
+    /**
+     * Creates a channel. Webhook channels get a generated signing secret when none is supplied;
+     * it is only returned from this call.
+     */
+    async createChannel(input: AlertChannelInput): Promise<AlertChannel> {
+        const nowIso = new Date().toISOString();
+        const channel: AlertChannel = {
+            channelId: randomUUID(),
+            twitterId: input.twitterId,
+            token: input.token.toLowerCase(),
+            type: input.type,
+            target: input.target.trim(),
+            secret: input.type === 'webhook' ? (input.secret || randomBytes(32).toString('hex')) : undefined,
+            enabled: true,
+            createdAt: nowIso,
+            updatedAt: nowIso,
+        };
+        await questdbService.pgClient.query(
+            `INSERT INTO alert_channels (timestamp, channel_id, twitter_id, token, channel_type, target, secret, enabled, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10);`,
+            [nowIso, channel.channelId, channel.twitterId, channel.token, channel.type, channel.target, channel.secret || '', true, nowIso, nowIso]
+        );
+        logger.info(`[Delivery] Created ${channel.type} channel ${channel.channelId} for ${channel.twitterId}/${channel.token}`);
+        return channel;
+    }
+
+    /**
+     * Disables a channel (soft delete).
+     * @returns true if a matching channel owned by twitterId existed.
+     */
+    async disableChannel(channelId: string, twitterId: string): Promise<boolean> {
+        const existing = await questdbService.query(
+            `SELECT channel_id FROM alert_channels WHERE channel_id = '${esc(channelId)}' AND twitter_id = '${esc(twitterId)}' AND enabled = true LIMIT 1;`
+        );
+        if (existing.rows.length === 0) return false;
+        await questdbService.query(
+            `UPDATE alert_channels SET enabled = false, updated_at = now() WHERE channel_id = '${esc(channelId)}';`
+        );
+        logger.info(`[Delivery] Disabled channel ${channelId} for ${twitterId}`);
+        return true;
+    }
+
+    /**
+     * Lists enabled channels. Secrets are stripped unless includeSecrets is set.
+     */
+    async listChannels(twitterId: string, token?: string, includeSecrets = false): Promise<AlertChannel[]> {
+        const tokenFilter = token ? `AND lower(token) = '${esc(token.toLowerCase())}'` : '';
+        const result = await questdbService.query(
+            `SELECT channel_id, twitter_id, token, channel_type, target, secret, enabled, created_at, updated_at
+             FROM alert_channels
+             WHERE twitter_id = '${esc(twitterId)}' AND enabled = true ${tokenFilter}
+             ORDER BY created_at ASC;`
+        );
+        return result.rows.map(row => ({
+            channelId: String(row[0]),
+            twitterId: String(row[1]),
+            token: String(row[2]),
+            type: row[3],
+            target: String(row[4] || ''),
+            secret: includeSecrets && row[5] ? String(row[5]) : undefined,
+            enabled: Boolean(row[6]),
+            createdAt: row[7] ? new Date(row[7]).toISOString() : undefined,
+            updatedAt: row[8] ? new Date(row[8]).toISOString() : undefined,
+        }));
+    }
+
+    async getChannel(channelId: string, twitterId: string): Promise<AlertChannel | null> {
+        const channels = await this.listChannels(twitterId, undefined, true);
+        return channels.find(c => c.channelId === channelId) || null;
+    }
+
+    /**
+     * Channels an alert for a plan goes to: the plan's own X account (community or timeline)
+     * followed by any configured channels.
+     */
+    async getChannelsForPlan(twitterId: string, token: string, twitterCommunity: string): Promise<AlertChannel[]> {
+        const planChannel: AlertChannel = {
+            channelId: PLAN_TWITTER_CHANNEL_ID,
+            twitterId,
+            token: token.toLowerCase(),
+            type: 'twitter',
+            target: twitterCommunity,
+            enabled: true,
+        };
+        try {
+            return [planChannel, ...(await this.listChannels(twitterId, token, true))];
+        } catch (error) {
+            logger.error(`[Delivery] Failed to load channels for ${twitterId}/${token}, using X only`, error);
+            return [planChannel];
+        }
+    }
+
+    private async recordDelivery(result: DeliveryResult, message: AlertDeliveryMessage): Promise<void> {
+        const nowIso = new Date().toISOString();
+        try {
+            await questdbService.pgClient.query(
+                `INSERT INTO alert_deliveries (
+                    timestamp, channel_id, channel_type, twitter_id, contract, alert_type, success,
+                    status_code, external_id, error, duration_ms
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11);`,
+                [
+                    nowIso, result.channelId, result.type, message.twitterId, message.contract.toLowerCase(), message.kind,
+                    result.success, result.statusCode ?? null, result.externalId ?? null, result.error ?? null, result.durationMs
+                ]
+            );
+        } catch (error) {
+            logger.error(`[Delivery] Failed to record delivery result for channel ${result.channelId}`, error);
+        }
+    }
+
+    /**
+     * Sends a message to one channel and records the outcome. Adapter errors never propagate.
+     */
+    async deliverTo(channel: AlertChannel, message: AlertDeliveryMessage): Promise<DeliveryResult> {
+        const adapter = this.adapters[channel.type];
+        let result: DeliveryResult;
+        if (!adapter) {
+            result = { channelId: channel.channelId, type: channel.type, success: false, error: `Unsupported channel type: ${channel.type}`, durationMs: 0, retryable: false };
+        } else {
+            try {
+                result = await adapter.send(channel, message);
+            } catch (error: any) {
+                result = { channelId: channel.channelId, type: channel.type, success: false, error: error?.message || String(error), durationMs: 0, retryable: true };
+            }
+        }
+        await this.recordDelivery(result, message);
+        return result;
+    }
+}
+
+export const alertDeliveryService = new AlertDeliveryService();
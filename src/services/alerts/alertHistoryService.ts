@@ -0,0 +1,82 @@
+import { questdbService } from '../questDbService';
+import { logger } from '../../utils/logger';
+import { AlertHistoryEntry, AlertHistoryQuery, OutboxItem } from '../../models/delivery.types';
+
+const esc = (s: string) => s.replace(/'/g, "''");
+
+/**
+ * Record of every alert confirmed delivered, one row per channel, for plan owners to browse.
+ */
+export class AlertHistoryService {
+    async record(item: OutboxItem, externalId?: string): Promise<void> {
+        const { message } = item;
+        const nowIso = new Date().toISOString();
+        try {
+            await questdbService.pgClient.query(
+                `INSERT INTO alert_history (
+                    timestamp, alert_id, twitter_id, contract, chain, service_type, alert_type, time_window,
+                    channel_id, channel_type, external_id, message, snapshot
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13);`,
+                [
+                    nowIso, item.alertId, item.twitterId, item.contract, message.chain || '', item.serviceType,
+                    message.kind, message.window, item.channelId, item.channelType, externalId ?? null, message.text,
+                    message.snapshot ? JSON.stringify(message.snapshot) : null
+                ]
+            );
+        } catch (error) {
+            logger.error(`[History] Failed to record alert ${item.alertId} for channel ${item.channelId}`, error);
+        }
+    }
+
+    /**
+     * Newest first. Returns the requested page and the total number of matching rows.
+     */
+    async list(query: AlertHistoryQuery): Promise<{ items: AlertHistoryEntry[]; total: number }> {
+        if (query.twitterIds.length === 0) return { items: [], total: 0 };
+        const conditions = [`twitter_id IN (${query.twitterIds.map(id => `'${esc(id)}'`).join(', ')})`];
+        if (query.token) conditions.push(`contract = '${esc(query.token.toLowerCase())}'`);
+        if (query.alertType) conditions.push(`alert_type = '${esc(query.alertType)}'`);
+        if (query.from) conditions.push(`timestamp >= '${new Date(query.from).toISOString()}'`);
+        if (query.to) conditions.push(`timestamp <= '${new Date(query.to).toISOString()}'`);
+        const where = `WHERE ${conditions.join(' AND ')}`;
+
+        const countResult = await questdbService.query(`SELECT count() FROM alert_history ${where};`);
+        const total = Number(countResult.rows[0]?.[0] || 0);
+
+        const lo = (query.page - 1) * query.limit;
+        const result = await questdbService.query(
+            `SELECT alert_id, twitter_id, contract, chain, service_type, alert_type, time_window,
+                    channel_id, channel_type, external_id, message, snapshot, timestamp
+             FROM alert_history
+             ${where}
+             ORDER BY timestamp DESC
+             LIMIT ${lo}, ${lo + query.limit};`
+        );
+        const items = result.rows.map(row => {
+            let snapshot;
+            try {
+                snapshot = row[11] ? JSON.parse(String(row[11])) : undefined;
+            } catch {
+                snapshot = undefined;
+            }
+            return {
+                alertId: String(row[0]),
+                twitterId: String(row[1]),
+                contract: String(row[2]),
+                chain: String(row[3] || ''),
+                serviceType: String(row[4] || ''),
+                alertType: row[5],
+                window: row[6],
+                channelId: String(row[7]),
+                channelType: row[8],
+                externalId: row[9] ? String(row[9]) : undefined,
+                text: String(row[10] || ''),
+                snapshot,
+                deliveredAt: new Date(row[12]).toISOString(),
+            };
+        });
+        return { items, total };
+    }
+}
+
+export const alertHistoryService = new AlertHistoryService();
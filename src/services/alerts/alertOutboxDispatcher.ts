@@ -0,0 +1,185 @@
+import { CronJob } from 'cron';
+import { logger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { AlertChannel, DeliveryResult, OutboxDispatcherStatus, OutboxItem } from '../../models/delivery.types';
+import { alertOutboxService } from './alertOutboxService';
+import { alertHistoryService } from './alertHistoryService';
+import { alertControlService } from './alertControlService';
+import { leaderElectionService } from '../leaderElectionService';
+import { alertDeliveryService, PLAN_TWITTER_CHANNEL_ID } from './alertDeliveryService';
+
+export const ALERT_OUTBOX_LEASE = 'alert-outbox';
+
+/**
+ * Drains the alert outbox. Retryable failures back off exponentially (or until the
+ * provider's reset time on 429), permanent failures are marked failed, and the plan
+ * quota is charged only when a delivery is confirmed.
+ */
+export class AlertOutboxDispatcher {
+    private job: CronJob | null = null;
+    private running = false;
+    private tickInProgress = false;
+    // Rate-limit key -> epoch ms when sending may resume
+    private blockedUntil: Map<string, number> = new Map();
+    // Fencing token of the last tick; a new token means the lease just changed hands
+    private leaseToken: number | null = null;
+    private status: Omit<OutboxDispatcherStatus, 'running' | 'tickInProgress' | 'rateLimited'> = {
+        lastTickAt: null,
+        lastDelivered: 0,
+        lastFailed: 0,
+        lastRetried: 0,
+        lastError: null,
+    };
+
+    start() {
+        if (this.running) return;
+        this.running = true;
+        this.job = new CronJob(
+            '*/10 * * * * *',
+            async () => {
+                if (this.tickInProgress) return;
+                this.tickInProgress = true;
+                try {
+                    await leaderElectionService.runIfLeader(ALERT_OUTBOX_LEASE, fencingToken => this.dispatch(fencingToken));
+                } finally {
+                    this.tickInProgress = false;
+                }
+            },
+            null,
+            true,
+            'UTC'
+        );
+        logger.info('AlertOutboxDispatcher started');
+    }
+
+    stop() {
+        if (this.job) {
+            this.job.stop();
+            this.job = null;
+        }
+        this.running = false;
+        logger.info('AlertOutboxDispatcher stopped');
+    }
+
+    getStatus(): OutboxDispatcherStatus {
+        const now = Date.now();
+        const rateLimited: Record<string, string> = {};
+        for (const [key, until] of this.blockedUntil) {
+            if (until > now) rateLimited[key] = new Date(until).toISOString();
+        }
+        return { running: this.running, tickInProgress: this.tickInProgress, rateLimited, ...this.status };
+    }
+
+    // X limits apply per posting account; other channel types per destination
+    private rateLimitKey(item: OutboxItem): string {
+        return item.channelType === 'twitter' ? `twitter:${item.twitterId}` : `${item.channelType}:${item.target}`;
+    }
+
+    private backoff(attempts: number): number {
+        return Math.min(config.outbox.baseBackoffMs * 2 ** Math.max(0, attempts - 1), config.outbox.maxBackoffMs);
+    }
+
+    private async resolveChannel(item: OutboxItem): Promise<AlertChannel | null> {
+        if (item.channelId === PLAN_TWITTER_CHANNEL_ID) {
+            return {
+                channelId: PLAN_TWITTER_CHANNEL_ID,
+                twitterId: item.twitterId,
+                token: item.contract,
+                type: 'twitter',
+                target: item.target,
+                enabled: true,
+            };
+        }
+        return alertDeliveryService.getChannel(item.channelId, item.twitterId);
+    }
+
+    private async dispatch(fencingToken: number): Promise<void> {
+        if (!this.running) return;
+        let delivered = 0;
+        let failed = 0;
+        let retried = 0;
+        try {
+            // The kill switch also holds back queued deliveries; they go out once alerts resume
+            const globalPause = await alertControlService.getGlobalPause();
+            if (globalPause) {
+                logger.debug(`[Outbox] Alerts paused globally by ${globalPause.updatedBy} - not dispatching`);
+                return;
+            }
+            if (fencingToken !== this.leaseToken) {
+                // Deliveries a previous holder left in 'sending' are put back in the queue
+                await alertOutboxService.requeueInterrupted();
+                this.leaseToken = fencingToken;
+            }
+            const items = await alertOutboxService.fetchDue(config.outbox.batchSize);
+            for (const item of items) {
+                if (!this.running) break;
+                const blocked = this.blockedUntil.get(this.rateLimitKey(item));
+                if (blocked && blocked > Date.now()) {
+                    // Skip without an attempt; the row stays due and is picked up once the limit resets
+                    continue;
+                }
+                if (!(await leaderElectionService.isFenceValid(ALERT_OUTBOX_LEASE, fencingToken))) {
+                    logger.warn('[Outbox] Lease lost - stopping this tick');
+                    break;
+                }
+                const outcome = await this.process(item);
+                if (outcome === 'delivered') delivered++;
+                else if (outcome === 'failed') failed++;
+                else retried++;
+            }
+            this.status.lastError = null;
+        } catch (error: any) {
+            this.status.lastError = error?.message || String(error);
+            logger.error('[Outbox] Dispatch tick failed', error);
+        }
+        this.status = { ...this.status, lastTickAt: new Date().toISOString(), lastDelivered: delivered, lastFailed: failed, lastRetried: retried };
+        if (delivered || failed || retried) {
+            logger.info(`[Outbox] Tick done: ${delivered} delivered, ${retried} retrying, ${failed} failed`);
+        }
+    }
+
+    private async process(item: OutboxItem): Promise<'delivered' | 'retrying' | 'failed'> {
+        const attempts = item.attempts + 1;
+        const channel = await this.resolveChannel(item);
+        if (!channel) {
+            await alertOutboxService.markFailed(item, 'Channel no longer exists or was disabled');
+            return 'failed';
+        }
+        await alertOutboxService.markSending(item);
+        const result: DeliveryResult = await alertDeliveryService.deliverTo(channel, item.message);
+
+        if (result.success) {
+            await alertOutboxService.markDelivered(item, result.externalId, result.statusCode);
+            await alertHistoryService.record(item, result.externalId);
+            // Only the first confirmed channel of an alert uses a post of the quota
+            if (!(await alertOutboxService.isAlertDelivered(item.alertId, item.outboxId))) {
+                await alertOutboxService.chargeQuota(item).catch(err =>
+                    logger.error(`[Outbox] Failed to update post count for ${item.contract}`, err)
+                );
+            }
+            return 'delivered';
+        }
+
+        const error = result.error || 'Unknown delivery error';
+        if (result.statusCode === 429) {
+            const until = result.retryAt || Date.now() + this.backoff(attempts);
+            this.blockedUntil.set(this.rateLimitKey(item), until);
+            logger.warn(`[Outbox] Rate limited on ${this.rateLimitKey(item)} until ${new Date(until).toISOString()}`);
+        }
+        if (result.retryable === false) {
+            logger.error(`[Outbox] Permanent failure for ${item.outboxId} (${item.channelType}): ${error}`);
+            await alertOutboxService.markFailed(item, error, result.statusCode);
+            return 'failed';
+        }
+        if (attempts >= config.outbox.maxAttempts) {
+            logger.error(`[Outbox] Giving up on ${item.outboxId} (${item.channelType}) after ${attempts} attempts: ${error}`);
+            await alertOutboxService.markFailed(item, error, result.statusCode);
+            return 'failed';
+        }
+        const nextAt = new Date(Math.max(result.retryAt || 0, Date.now() + this.backoff(attempts)));
+        await alertOutboxService.markRetry(item, nextAt, error, result.statusCode);
+        return 'retrying';
+    }
+}
+
+export const alertOutboxDispatcher = new AlertOutboxDispatcher();
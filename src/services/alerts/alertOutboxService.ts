@@ -0,0 +1,156 @@
+import { randomUUID } from 'crypto';
+import { questdbService } from '../questDbService';
+import { logger } from '../../utils/logger';
+import { AlertChannel, AlertDeliveryMessage, OutboxItem } from '../../models/delivery.types';
+
+const esc = (s: string) => s.replace(/'/g, "''");
+
+const OUTBOX_COLUMNS = `outbox_id, alert_id, twitter_id, contract, service_type, channel_id, channel_type, target, payload,
+    status, attempts, next_attempt_at, last_error, last_status_code, external_id, created_at, delivered_at`;
+
+/**
+ * Persistent queue of alert deliveries. The poller enqueues one row per channel,
+ * the dispatcher drains rows whose next attempt is due.
+ */
+export class AlertOutboxService {
+    private toItem(row: any[]): OutboxItem {
+        let message: AlertDeliveryMessage;
+        try {
+            message = JSON.parse(String(row[8] || '{}'));
+        } catch {
+            message = { twitterId: String(row[2]), contract: String(row[3]), chain: '', kind: 'volume', window: '1h', text: '' };
+        }
+        return {
+            outboxId: String(row[0]),
+            alertId: String(row[1]),
+            twitterId: String(row[2]),
+            contract: String(row[3]),
+            serviceType: String(row[4] || ''),
+            channelId: String(row[5]),
+            channelType: row[6],
+            target: String(row[7] || ''),
+            message,
+            status: row[9],
+            attempts: Number(row[10] || 0),
+            nextAttemptAt: row[11] ? new Date(row[11]).toISOString() : new Date(0).toISOString(),
+            lastError: row[12] ? String(row[12]) : undefined,
+            lastStatusCode: row[13] != null ? Number(row[13]) : undefined,
+            externalId: row[14] ? String(row[14]) : undefined,
+            createdAt: new Date(row[15]).toISOString(),
+            deliveredAt: row[16] ? new Date(row[16]).toISOString() : undefined,
+        };
+    }
+
+    /**
+     * Queues an alert for every channel. Returns the alert id shared by the rows.
+     */
+    async enqueue(message: AlertDeliveryMessage, serviceType: string, channels: AlertChannel[]): Promise<string> {
+        const alertId = randomUUID();
+        const nowIso = new Date().toISOString();
+        const payload = JSON.stringify(message);
+        for (const channel of channels) {
+            await questdbService.pgClient.query(
+                `INSERT INTO alert_outbox (
+                    timestamp, outbox_id, alert_id, twitter_id, contract, service_type, channel_id, channel_type, target,
+                    payload, status, attempts, next_attempt_at, created_at, updated_at
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15);`,
+                [
+                    nowIso, randomUUID(), alertId, message.twitterId, message.contract.toLowerCase(), serviceType,
+                    channel.channelId, channel.type, channel.target, payload, 'pending', 0, nowIso, nowIso, nowIso
+                ]
+            );
+        }
+        logger.info(`[Outbox] Queued ${message.kind} alert ${alertId} for ${message.twitterId}/${message.contract} to ${channels.length} channels`);
+        return alertId;
+    }
+
+    /**
+     * Alerts still waiting for delivery for a plan, so the poller does not queue past the quota.
+     */
+    async countUndelivered(twitterId: string, contract: string): Promise<number> {
+        const result = await questdbService.query(
+            `SELECT count_distinct(alert_id) FROM alert_outbox
+             WHERE twitter_id = '${esc(twitterId)}' AND contract = '${esc(contract.toLowerCase())}'
+             AND status IN ('pending', 'retrying', 'sending');`
+        );
+        return Number(result.rows[0]?.[0] || 0);
+    }
+
+    async fetchDue(limit: number): Promise<OutboxItem[]> {
+        const result = await questdbService.query(
+            `SELECT ${OUTBOX_COLUMNS}
+             FROM alert_outbox
+             WHERE status IN ('pending', 'retrying') AND next_attempt_at <= now()
+             ORDER BY created_at ASC
+             LIMIT ${Math.max(1, Math.floor(limit))};`
+        );
+        return result.rows.map(row => this.toItem(row));
+    }
+
+    private async update(outboxId: string, fields: string): Promise<void> {
+        await questdbService.query(
+            `UPDATE alert_outbox SET ${fields}, updated_at = now() WHERE outbox_id = '${esc(outboxId)}';`
+        );
+    }
+
+    async markSending(item: OutboxItem): Promise<void> {
+        await this.update(item.outboxId, `status = 'sending', attempts = ${item.attempts + 1}`);
+    }
+
+    async markDelivered(item: OutboxItem, externalId?: string, statusCode?: number): Promise<void> {
+        await this.update(
+            item.outboxId,
+            `status = 'delivered', delivered_at = now(), last_error = null, last_status_code = ${statusCode ?? 'null'}, external_id = '${esc(externalId || '')}'`
+        );
+    }
+
+    async markRetry(item: OutboxItem, nextAttemptAt: Date, error: string, statusCode?: number): Promise<void> {
+        await this.update(
+            item.outboxId,
+            `status = 'retrying', next_attempt_at = '${nextAttemptAt.toISOString()}', last_error = '${esc(error)}', last_status_code = ${statusCode ?? 'null'}`
+        );
+    }
+
+    async markFailed(item: OutboxItem, error: string, statusCode?: number): Promise<void> {
+        await this.update(
+            item.outboxId,
+            `status = 'failed', last_error = '${esc(error)}', last_status_code = ${statusCode ?? 'null'}`
+        );
+    }
+
+    /**
+     * Rows left in 'sending' by a crashed or replaced dispatcher are put back in the queue.
+     */
+    async requeueInterrupted(): Promise<void> {
+        await questdbService.query(
+            `UPDATE alert_outbox SET status = 'retrying', next_attempt_at = now(), updated_at = now() WHERE status = 'sending';`
+        );
+    }
+
+    /**
+     * Whether another channel already confirmed this alert (and so already used the quota).
+     */
+    async isAlertDelivered(alertId: string, exceptOutboxId: string): Promise<boolean> {
+        const result = await questdbService.query(
+            `SELECT count() FROM alert_outbox
+             WHERE alert_id = '${esc(alertId)}' AND status = 'delivered' AND outbox_id != '${esc(exceptOutboxId)}';`
+        );
+        return Number(result.rows[0]?.[0] || 0) > 0;
+    }
+
+    /**
+     * Uses one post of the plan quota. Called once per alert, on its first confirmed delivery.
+     */
+    async chargeQuota(item: OutboxItem): Promise<void> {
+        await questdbService.query(
+            `UPDATE user_posts_plans
+             SET total_posts_count = COALESCE(total_posts_count, 0) + 1,
+                 updated_at = now()
+             WHERE twitter_id = '${esc(item.twitterId)}'
+             AND service_type = '${esc(item.serviceType)}'
+             AND LOWER(token) = LOWER('${esc(item.contract)}')`
+        );
+    }
+}
+
+export const alertOutboxService = new AlertOutboxService();
@@ -0,0 +1,204 @@
+import { randomUUID } from 'crypto';
+import { questdbService } from '../questDbService';
+import { logger } from '../../utils/logger';
+import {
+    ALERT_METRICS,
+    ALERT_OPERATORS,
+    ALERT_WINDOWS,
+    AlertRule,
+    AlertRuleInput,
+    AlertWindow,
+    RuleMatch,
+    TokenMetricsSnapshot
+} from '../../models/alert.types';
+import type { DexPair } from '../../models/dexscreener.types';
+
+const esc = (s: string) => s.replace(/'/g, "''");
+
+// Rules applied to plans that have not configured any of their own.
+// These mirror the previous hard-coded hourly volume and hourly buyer alerts.
+const DEFAULT_RULES: Array<Omit<AlertRule, 'twitterId' | 'token'>> = [
+    { ruleId: 'default-volume-1h', metric: 'volume', operator: '>', threshold: 0, window: '1h', cooldownMinutes: 60, enabled: true },
+    { ruleId: 'default-buyers-1h', metric: 'buyers', operator: '>=', threshold: 1, window: '1h', cooldownMinutes: 60, enabled: true },
+];
+
+export class AlertRuleService {
+    /**
+     * Validates a rule payload coming from the API.
+     * @returns A list of validation errors (empty when valid).
+     */
+    validateRuleInput(input: Partial<AlertRuleInput>): string[] {
+        const errors: string[] = [];
+        if (!input.twitterId) errors.push('twitterId is required');
+        if (!input.token) errors.push('token is required');
+        if (!input.metric || !ALERT_METRICS.includes(input.metric)) {
+            errors.push(`metric must be one of ${ALERT_METRICS.join(', ')}`);
+        }
+        if (!input.operator || !ALERT_OPERATORS.includes(input.operator)) {
+            errors.push(`operator must be one of ${ALERT_OPERATORS.join(', ')}`);
+        }
+        if (input.threshold === undefined || typeof input.threshold !== 'number' || !Number.isFinite(input.threshold)) {
+            errors.push('threshold must be a finite number');
+        }
+        if (input.metric !== 'marketCap' && (!input.window || !ALERT_WINDOWS.includes(input.window))) {
+            errors.push(`window must be one of ${ALERT_WINDOWS.join(', ')}`);
+        }
+        if (input.cooldownMinutes !== undefined && (!Number.isInteger(input.cooldownMinutes) || input.cooldownMinutes < 0)) {
+            errors.push('cooldownMinutes must be a non-negative integer');
+        }
+        return errors;
+    }
+
+    async createRule(input: AlertRuleInput): Promise<AlertRule> {
+        const nowIso = new Date().toISOString();
+        const rule: AlertRule = {
+            ruleId: randomUUID(),
+            twitterId: input.twitterId,
+            token: input.token.toLowerCase(),
+            metric: input.metric,
+            operator: input.operator,
+            threshold: input.threshold,
+            window: input.metric === 'marketCap' ? '24h' : input.window,
+            cooldownMinutes: input.cooldownMinutes ?? 60,
+            enabled: true,
+            createdAt: nowIso,
+            updatedAt: nowIso,
+        };
+        await questdbService.pgClient.query(
+            `INSERT INTO alert_rules (
+                timestamp, rule_id, twitter_id, token, metric, operator, threshold, time_window,
+                cooldown_minutes, enabled, created_at, updated_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12);`,
+            [
+                nowIso, rule.ruleId, rule.twitterId, rule.token, rule.metric, rule.operator, rule.threshold,
+                rule.window, rule.cooldownMinutes, rule.enabled, nowIso, nowIso
+            ]
+        );
+        logger.info(`[AlertRules] Created rule ${rule.ruleId} for ${rule.twitterId}/${rule.token}: ${rule.metric} ${rule.window} ${rule.operator} ${rule.threshold}`);
+        return rule;
+    }
+
+    /**
+     * Disables a rule. QuestDB has no DELETE, so rules are soft-deleted via the enabled flag.
+     * @returns true if a matching rule owned by twitterId existed.
+     */
+    async disableRule(ruleId: string, twitterId: string): Promise<boolean> {
+        const existing = await questdbService.query(
+            `SELECT rule_id FROM alert_rules WHERE rule_id = '${esc(ruleId)}' AND twitter_id = '${esc(twitterId)}' AND enabled = true LIMIT 1;`
+        );
+        if (existing.rows.length === 0) return false;
+        await questdbService.query(
+            `UPDATE alert_rules SET enabled = false, updated_at = now() WHERE rule_id = '${esc(ruleId)}';`
+        );
+        logger.info(`[AlertRules] Disabled rule ${ruleId} for ${twitterId}`);
+        return true;
+    }
+
+    async listRules(twitterId: string, token?: string): Promise<AlertRule[]> {
+        const tokenFilter = token ? `AND lower(token) = '${esc(token.toLowerCase())}'` : '';
+        const result = await questdbService.query(
+            `SELECT rule_id, twitter_id, token, metric, operator, threshold, time_window, cooldown_minutes, enabled, created_at, updated_at
+             FROM alert_rules
+             WHERE twitter_id = '${esc(twitterId)}' AND enabled = true ${tokenFilter}
+             ORDER BY created_at ASC;`
+        );
+        return result.rows.map(row => ({
+            ruleId: String(row[0]),
+            twitterId: String(row[1]),
+            token: String(row[2]),
+            metric: row[3],
+            operator: row[4],
+            threshold: Number(row[5] || 0),
+            window: row[6],
+            cooldownMinutes: Number(row[7] || 0),
+            enabled: Boolean(row[8]),
+            createdAt: row[9] ? new Date(row[9]).toISOString() : undefined,
+            updatedAt: row[10] ? new Date(row[10]).toISOString() : undefined,
+        }));
+    }
+
+    /**
+     * Returns the enabled rules for a plan, falling back to the default rule set
+     * when the plan has not configured any.
+     */
+    async getRulesForPlan(twitterId: string, token: string): Promise<AlertRule[]> {
+        try {
+            const rules = await this.listRules(twitterId, token);
+            if (rules.length > 0) return rules;
+        } catch (error) {
+            logger.error(`[AlertRules] Failed to load rules for ${twitterId}/${token}, using defaults`, error);
+        }
+        return DEFAULT_RULES.map(rule => ({ ...rule, twitterId, token: token.toLowerCase() }));
+    }
+
+    /**
+     * Builds a metrics snapshot from a Dexscreener pair object.
+     */
+    buildSnapshot(pair: DexPair, contract: string, chain: string): TokenMetricsSnapshot {
+        const num = (v: any) => (v != null && !isNaN(Number(v)) ? Number(v) : 0);
+        const byWindow = (source: any, pick: (v: any) => any = v => v): Record<AlertWindow, number> => ({
+            '5m': num(pick(source?.m5)),
+            '1h': num(pick(source?.h1)),
+            '6h': num(pick(source?.h6)),
+            '24h': num(pick(source?.h24)),
+        });
+        return {
+            contract,
+            chain,
+            symbol: pair.baseToken?.symbol || 'UNKNOWN',
+            priceUsd: num(pair.priceUsd),
+            marketCap: num(pair.marketCap),
+            fdv: num(pair.fdv),
+            liquidityUsd: num(pair.liquidity?.usd),
+            volume: byWindow(pair.volume),
+            priceChange: byWindow(pair.priceChange),
+            buyers: byWindow(pair.txns, t => t?.buys),
+            sellers: byWindow(pair.txns, t => t?.sells),
+        };
+    }
+
+    /**
+     * Reads the metric value a rule refers to from a snapshot.
+     */
+    getMetricValue(rule: Pick<AlertRule, 'metric' | 'window'>, snapshot: TokenMetricsSnapshot): number {
+        switch (rule.metric) {
+            case 'volume':
+                return snapshot.volume[rule.window] ?? 0;
+            case 'priceChange':
+                return snapshot.priceChange[rule.window] ?? 0;
+            case 'buyers':
+                return snapshot.buyers[rule.window] ?? 0;
+            case 'marketCap':
+                return snapshot.marketCap;
+            default:
+                return 0;
+        }
+    }
+
+    private compare(value: number, operator: AlertRule['operator'], threshold: number): boolean {
+        switch (operator) {
+            case '>': return value > threshold;
+            case '>=': return value >= threshold;
+            case '<': return value < threshold;
+            case '<=': return value <= threshold;
+            default: return false;
+        }
+    }
+
+    /**
+     * Evaluates rules against a snapshot. Cooldowns are enforced when posting, see alertsSentService.
+     */
+    evaluate(rules: AlertRule[], snapshot: TokenMetricsSnapshot): RuleMatch[] {
+        const matches: RuleMatch[] = [];
+        for (const rule of rules) {
+            if (!rule.enabled) continue;
+            const value = this.getMetricValue(rule, snapshot);
+            if (this.compare(value, rule.operator, rule.threshold)) {
+                matches.push({ rule, value });
+            }
+        }
+        return matches;
+    }
+}
+
+export const alertRuleService = new AlertRuleService();
@@ -0,0 +1,321 @@
+import { randomUUID } from 'crypto';
+import { questdbService } from '../questDbService';
+import { logger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { DEFAULT_PLAN_CHAIN, getChainInfo, getDexLink, getExplorerLink, normalizeChain } from '../../utils/chains';
+import { getTweetLength } from '../../utils/tweetLength';
+import {
+    ALERT_KINDS,
+    AlertTemplate,
+    AlertTemplateKind,
+    AlertWindow,
+    TemplateValidationResult,
+    TokenMetricsSnapshot
+} from '../../models/alert.types';
+
+const esc = (s: string) => s.replace(/'/g, "''");
+
+const FOOTERS = [
+    'Auto-posted by {{brand}} | NFA | DYOR | Community-run',
+    'Powered by {{brand}} | NFA | DYOR | Community-run',
+    'Auto-sent by {{brand}} | NFA | DYOR | Community-run',
+];
+
+// Default template set; one variant is picked at random per post
+const DEFAULT_TEMPLATES: Record<AlertTemplateKind, string[]> = {
+    volume: [
+        '🕐 {{WINDOW}} VOLUME ALERT!\n💰 {{window}} volume: {{volume}} on ${{symbol}}\n🔗 CA: {{ca}}\n📈 DexScreener → {{dexLink}}\n' + FOOTERS[0],
+        '📊 {{WINDOW}} TOTAL VOLUME JUST IN!\n📈 {{volume}} traded in last {{window}} → ${{symbol}}\n🔗 CA: {{ca}}\n📊 Live Chart → {{dexLink}}\n' + FOOTERS[1],
+        '🔥 {{WINDOW}} VOLUME REPORT!\n🟢 {{window}} total volume: {{volume}} for ${{symbol}}\n🔗 CA: {{ca}}\n📈 DexScreener → {{dexLink}}\n' + FOOTERS[2],
+        '🚀 {{WINDOW}} VOLUME UPDATE!\n🟢 {{window}} buys + sells: {{volume}} → ${{symbol}}\n🔗 CA: {{ca}}\n📊 Live Chart → {{dexLink}}\n' + FOOTERS[0],
+    ],
+    buyers: [
+        '🎉 {{WINDOW}} BUYER ALERT! 🚀\n💸 {{WINDOW}}: {{buyers}} Unique Buyers Bought ${{symbol}} 🔥\n🔗 CA: {{ca}}\n📊 [Live Chart]({{dexLink}})\n' + FOOTERS[0],
+    ],
+    priceChange: [
+        '🚀 {{WINDOW}} PRICE MOVE!\n💹 ${{symbol}} moved {{priceChange}} in {{window}}\n💵 Price: {{price}}\n🔗 CA: {{ca}}\n📈 DexScreener → {{dexLink}}\n' + FOOTERS[1],
+    ],
+    marketCap: [
+        '🏆 MARKET CAP ALERT!\n💎 ${{symbol}} market cap: {{marketCap}}\n🔗 CA: {{ca}}\n📊 Live Chart → {{dexLink}}\n' + FOOTERS[2],
+    ],
+    pricePump: [
+        '🚀 PUMP ALERT!\n📈 ${{symbol}} is up {{priceChange}} in the last {{window}}\n💵 Price: {{price}} | MC: {{marketCap}}\n🔗 CA: {{ca}}\n📊 Live Chart → {{dexLink}}\n' + FOOTERS[0],
+    ],
+    priceDump: [
+        '⚠️ DIP ALERT!\n📉 ${{symbol}} moved {{priceChange}} in the last {{window}}\n💵 Price: {{price}} | MC: {{marketCap}}\n🔗 CA: {{ca}}\n📊 Live Chart → {{dexLink}}\n' + FOOTERS[1],
+    ],
+    marketCapMilestone: [
+        '🎉 MILESTONE UNLOCKED!\n🏆 ${{symbol}} just crossed {{milestone}} market cap!\n💎 MC now: {{marketCap}}\n🔗 CA: {{ca}}\n📊 Live Chart → {{dexLink}}\n' + FOOTERS[2],
+    ],
+    kolConvergence: [
+        '🧠 SMART MONEY ALERT!\n👥 {{kolCount}} KOLs bought ${{symbol}} in the last {{kolWindow}}\n🔥 {{kols}}\n📊 {{dexLink}}\n' + FOOTERS[1],
+    ],
+};
+
+export const TEMPLATE_VARIABLES = [
+    'symbol', 'ca', 'chain', 'chainName', 'currency', 'dexLink', 'explorerLink', 'brand', 'window', 'WINDOW', 'value',
+    'price', 'marketCap', 'milestone', 'fdv', 'liquidity',
+    'volume', 'volume5m', 'volume1h', 'volume6h', 'volume24h',
+    'priceChange', 'priceChange5m', 'priceChange1h', 'priceChange6h', 'priceChange24h',
+    'buyers', 'buyers5m', 'buyers1h', 'sellers', 'sellers1h',
+    'kolCount', 'kols', 'kolWindow',
+];
+
+// Worst-case sized sample used to check templates against the tweet length limit
+const SAMPLE_SNAPSHOT: TokenMetricsSnapshot = {
+    contract: 'So11111111111111111111111111111111111111112',
+    chain: 'SOLANA',
+    symbol: 'SAMPLETOKEN',
+    priceUsd: 0.00001234,
+    marketCap: 123456789,
+    fdv: 123456789,
+    liquidityUsd: 1234567,
+    volume: { '5m': 123456, '1h': 1234567, '6h': 12345678, '24h': 123456789 },
+    priceChange: { '5m': -12.34, '1h': 123.45, '6h': -45.67, '24h': 1234.56 },
+    buyers: { '5m': 1234, '1h': 12345, '6h': 12345, '24h': 123456 },
+    sellers: { '5m': 1234, '1h': 12345, '6h': 12345, '24h': 123456 },
+};
+const SAMPLE_KOL_NAMES = ['SampleKolName01', 'SampleKolName02', 'SampleKolName03', 'SampleKolName04', 'SampleKolName05', 'SampleKolName06'];
+
+// KOLs named in {{kols}}; the rest are summarised as "+N more"
+const MAX_LISTED_KOLS = 3;
+
+export interface TemplateContext {
+    window: AlertWindow;
+    value?: number;
+    milestone?: number;
+    dexLink: string;
+    // KOL convergence signals only
+    kolNames?: string[];
+    kolWindowMinutes?: number;
+}
+
+export class AlertTemplateService {
+    private formatUsd(value: number): string {
+        if (value >= 1000000) return `$${(value / 1000000).toFixed(1)}M`;
+        if (value >= 1000) return `$${(value / 1000).toFixed(0)}k`;
+        return `$${value.toFixed(0)}`;
+    }
+
+    private formatPercent(value: number): string {
+        if (value > 0) return `+${value.toFixed(2)}% 📈`;
+        if (value < 0) return `${value.toFixed(2)}% 📉`;
+        return '0% ➖';
+    }
+
+    private formatPrice(value: number): string {
+        return value >= 1 ? `$${value.toFixed(4)}` : `$${value.toPrecision(4)}`;
+    }
+
+    /**
+     * Builds the variable map for a snapshot. Window-less variables ({{volume}}, {{buyers}}, ...)
+     * resolve against the window of the rule that triggered the alert.
+     */
+    buildVariables(kind: AlertTemplateKind, snapshot: TokenMetricsSnapshot, ctx: TemplateContext): Record<string, string> {
+        const w = ctx.window;
+        const value = ctx.value ?? 0;
+        const chain = normalizeChain(snapshot.chain) || DEFAULT_PLAN_CHAIN;
+        const chainInfo = getChainInfo(chain);
+        const formattedValue = kind === 'priceChange' || kind === 'pricePump' || kind === 'priceDump' ? this.formatPercent(value)
+            : kind === 'buyers' || kind === 'kolConvergence' ? String(value)
+                : this.formatUsd(value);
+        const kolNames = ctx.kolNames || [];
+        const extraKols = kolNames.length - MAX_LISTED_KOLS;
+        return {
+            symbol: snapshot.symbol,
+            ca: snapshot.contract,
+            chain: chain,
+            chainName: chainInfo.name,
+            currency: chainInfo.currencySymbol,
+            dexLink: ctx.dexLink,
+            explorerLink: getExplorerLink(chain, snapshot.contract),
+            brand: config.alerts.brandHandle,
+            window: w,
+            WINDOW: w.toUpperCase(),
+            value: formattedValue,
+            price: this.formatPrice(snapshot.priceUsd),
+            marketCap: this.formatUsd(snapshot.marketCap),
+            milestone: this.formatUsd(ctx.milestone ?? snapshot.marketCap),
+            fdv: this.formatUsd(snapshot.fdv),
+            liquidity: this.formatUsd(snapshot.liquidityUsd),
+            volume: this.formatUsd(snapshot.volume[w]),
+            volume5m: this.formatUsd(snapshot.volume['5m']),
+            volume1h: this.formatUsd(snapshot.volume['1h']),
+            volume6h: this.formatUsd(snapshot.volume['6h']),
+            volume24h: this.formatUsd(snapshot.volume['24h']),
+            priceChange: this.formatPercent(snapshot.priceChange[w]),
+            priceChange5m: this.formatPercent(snapshot.priceChange['5m']),
+            priceChange1h: this.formatPercent(snapshot.priceChange['1h']),
+            priceChange6h: this.formatPercent(snapshot.priceChange['6h']),
+            priceChange24h: this.formatPercent(snapshot.priceChange['24h']),
+            buyers: String(snapshot.buyers[w]),
+            buyers5m: String(snapshot.buyers['5m']),
+            buyers1h: String(snapshot.buyers['1h']),
+            sellers: String(snapshot.sellers[w]),
+            sellers1h: String(snapshot.sellers['1h']),
+            kolCount: String(kolNames.length || value),
+            kols: kolNames.slice(0, MAX_LISTED_KOLS).join(', ') + (extraKols > 0 ? ` +${extraKols} more` : ''),
+            kolWindow: `${ctx.kolWindowMinutes ?? config.convergence.windowMinutes}m`,
+        };
+    }
+
+    /**
+     * Replaces {{variable}} placeholders. Unknown variables are left untouched.
+     */
+    render(body: string, variables: Record<string, string>): string {
+        return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+            Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+        );
+    }
+
+    /**
+     * Validates a template: known variables only, and the rendering of a worst-case
+     * sample must fit in a single tweet.
+     */
+    validate(kind: AlertTemplateKind, body: string): TemplateValidationResult {
+        const errors: string[] = [];
+        if (!ALERT_KINDS.includes(kind)) {
+            errors.push(`kind must be one of ${ALERT_KINDS.join(', ')}`);
+        }
+        if (typeof body !== 'string' || body.trim().length === 0) {
+            errors.push('body must be a non-empty string');
+            return { valid: false, errors, renderedLength: 0 };
+        }
+        const unknown = Array.from(body.matchAll(/\{\{\s*(\w+)\s*\}\}/g))
+            .map(m => m[1])
+            .filter(name => !TEMPLATE_VARIABLES.includes(name));
+        if (unknown.length > 0) {
+            errors.push(`Unknown template variables: ${Array.from(new Set(unknown)).join(', ')}`);
+        }
+        const sampleKind = ALERT_KINDS.includes(kind) ? kind : 'volume';
+        const rendered = this.render(body, this.buildVariables(sampleKind, SAMPLE_SNAPSHOT, {
+            window: '24h',
+            value: SAMPLE_SNAPSHOT.volume['24h'],
+            milestone: 10000000,
+            dexLink: getDexLink('SOLANA', SAMPLE_SNAPSHOT.contract),
+            kolNames: SAMPLE_KOL_NAMES,
+            kolWindowMinutes: config.convergence.maxWindowMinutes,
+        }));
+        // Weighted as X counts it: links are 23, emoji and CJK characters 2
+        const renderedLength = getTweetLength(rendered);
+        if (renderedLength > config.alerts.maxTweetLength) {
+            errors.push(`Rendered template weighs ${renderedLength} characters as X counts them; the limit is ${config.alerts.maxTweetLength}`);
+        }
+        return { valid: errors.length === 0, errors, renderedLength };
+    }
+
+    getDefaultTemplates(): Record<AlertTemplateKind, string[]> {
+        return DEFAULT_TEMPLATES;
+    }
+
+    async listTemplates(twitterId: string, token?: string): Promise<AlertTemplate[]> {
+        const tokenFilter = token ? `AND lower(token) = '${esc(token.toLowerCase())}'` : '';
+        const result = await questdbService.query(
+            `SELECT template_id, twitter_id, token, alert_kind, body, created_at, updated_at
+             FROM alert_templates
+             WHERE twitter_id = '${esc(twitterId)}' AND enabled = true ${tokenFilter}
+             ORDER BY created_at DESC;`
+        );
+        return result.rows.map(row => ({
+            templateId: String(row[0]),
+            twitterId: String(row[1]),
+            token: String(row[2]),
+            kind: row[3],
+            body: String(row[4]),
+            createdAt: row[5] ? new Date(row[5]).toISOString() : undefined,
+            updatedAt: row[6] ? new Date(row[6]).toISOString() : undefined,
+        }));
+    }
+
+    /**
+     * Saves a per-plan override, replacing any previous override of the same kind.
+     * Callers must validate the body first.
+     */
+    async saveTemplate(twitterId: string, token: string, kind: AlertTemplateKind, body: string): Promise<AlertTemplate> {
+        const nowIso = new Date().toISOString();
+        const normToken = token.toLowerCase();
+        await questdbService.query(
+            `UPDATE alert_templates SET enabled = false, updated_at = now()
+             WHERE twitter_id = '${esc(twitterId)}' AND lower(token) = '${esc(normToken)}' AND alert_kind = '${esc(kind)}' AND enabled = true;`
+        );
+        const template: AlertTemplate = {
+            templateId: randomUUID(),
+            twitterId,
+            token: normToken,
+            kind,
+            body,
+            createdAt: nowIso,
+            updatedAt: nowIso,
+        };
+        await questdbService.pgClient.query(
+            `INSERT INTO alert_templates (timestamp, template_id, twitter_id, token, alert_kind, body, enabled, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9);`,
+            [nowIso, template.templateId, twitterId, normToken, kind, body, true, nowIso, nowIso]
+        );
+        logger.info(`[AlertTemplates] Saved ${kind} template for ${twitterId}/${normToken}`);
+        return template;
+    }
+
+    /**
+     * Returns the plan's override for a kind, or a random default variant.
+     */
+    async getTemplateBody(kind: AlertTemplateKind, twitterId?: string, token?: string): Promise<string> {
+        if (twitterId && token) {
+            try {
+                const overrides = await this.listTemplates(twitterId, token);
+                const override = overrides.find(t => t.kind === kind);
+                if (override) return override.body;
+            } catch (error) {
+                logger.error(`[AlertTemplates] Failed to load overrides for ${twitterId}/${token}, using defaults`, error);
+            }
+        }
+        const variants = DEFAULT_TEMPLATES[kind] || DEFAULT_TEMPLATES.volume;
+        return variants[Math.floor(Math.random() * variants.length)];
+    }
+
+    /**
+     * Renders the alert text for a plan, using its override when present.
+     */
+    async renderAlert(
+        kind: AlertTemplateKind,
+        snapshot: TokenMetricsSnapshot,
+        ctx: TemplateContext,
+        twitterId?: string,
+        token?: string
+    ): Promise<string> {
+        const body = await this.getTemplateBody(kind, twitterId, token);
+        return this.render(body, this.buildVariables(kind, snapshot, ctx));
+    }
+
+    /**
+     * Builds a snapshot from the latest token_metrics row for a contract.
+     * token_metrics has no transaction counts or price changes, so those are zero.
+     */
+    async getLatestSnapshot(contract: string): Promise<TokenMetricsSnapshot | null> {
+        const result = await questdbService.query(
+            `SELECT contract, chain, title, price_usd, market_cap, fdv, volume_5m, volume_1h, volume_24h
+             FROM token_metrics
+             WHERE lower(contract) = '${esc(contract.toLowerCase())}'
+             ORDER BY timestamp DESC
+             LIMIT 1;`
+        );
+        if (result.rows.length === 0) return null;
+        const [rowContract, chain, title, price, marketCap, fdv, v5m, v1h, v24h] = result.rows[0];
+        const zero = { '5m': 0, '1h': 0, '6h': 0, '24h': 0 };
+        return {
+            contract: String(rowContract),
+            chain: String(chain || ''),
+            symbol: title ? String(title) : 'UNKNOWN',
+            priceUsd: Number(price || 0),
+            marketCap: Number(marketCap || 0),
+            fdv: Number(fdv || 0),
+            liquidityUsd: 0,
+            volume: { '5m': Number(v5m || 0), '1h': Number(v1h || 0), '6h': 0, '24h': Number(v24h || 0) },
+            priceChange: { ...zero },
+            buyers: { ...zero },
+            sellers: { ...zero },
+        };
+    }
+}
+
+export const alertTemplateService = new AlertTemplateService();
@@ -0,0 +1,94 @@
+import { questdbService } from '../questDbService';
+import { logger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { AlertSendCheck, AlertSendKey, AlertSentRecord } from '../../models/alert.types';
+
+const esc = (s: string) => s.replace(/'/g, "''");
+
+export class AlertsSentService {
+    private async getLastSent(key: AlertSendKey): Promise<AlertSentRecord | null> {
+        const result = await questdbService.query(
+            `SELECT twitter_id, contract, alert_type, time_window, metric_value, sent_at
+             FROM alerts_sent
+             WHERE twitter_id = '${esc(key.twitterId)}'
+             AND contract = '${esc(key.contract.toLowerCase())}'
+             AND alert_type = '${esc(key.alertType)}'
+             AND time_window = '${esc(key.window)}'
+             ORDER BY sent_at DESC
+             LIMIT 1;`
+        );
+        if (result.rows.length === 0) return null;
+        const row = result.rows[0];
+        return {
+            twitterId: String(row[0]),
+            contract: String(row[1]),
+            alertType: row[2],
+            window: row[3],
+            value: Number(row[4] || 0),
+            sentAt: new Date(row[5]).getTime(),
+        };
+    }
+
+    private async getLastSentForPlan(twitterId: string, contract: string): Promise<number | null> {
+        const result = await questdbService.query(
+            `SELECT max(sent_at) FROM alerts_sent
+             WHERE twitter_id = '${esc(twitterId)}'
+             AND contract = '${esc(contract.toLowerCase())}';`
+        );
+        const last = result.rows[0]?.[0];
+        return last ? new Date(last).getTime() : null;
+    }
+
+    /**
+     * Decides whether an alert may be posted, based on what was already sent for the plan.
+     * Checks, in order: the per-type cooldown, the minimum gap between any two alerts for
+     * the same plan and contract, and whether the metric moved enough since the last post
+     * (skipped with requireChange = false, for alerts that are events rather than readings).
+     */
+    async checkSend(
+        key: AlertSendKey,
+        value: number,
+        cooldownMinutes: number,
+        now: number = Date.now(),
+        requireChange: boolean = true
+    ): Promise<AlertSendCheck> {
+        try {
+            const last = await this.getLastSent(key);
+            if (last) {
+                if (now - last.sentAt < cooldownMinutes * 60 * 1000) {
+                    return { allowed: false, reason: `cooldown (${cooldownMinutes}m) active since ${new Date(last.sentAt).toISOString()}` };
+                }
+                const base = Math.abs(last.value);
+                const changePct = base === 0 ? (value === 0 ? 0 : 100) : (Math.abs(value - last.value) / base) * 100;
+                if (requireChange && changePct < config.alerts.minChangePct) {
+                    return { allowed: false, reason: `metric unchanged since last post (${last.value} -> ${value})` };
+                }
+            }
+            const lastForPlan = await this.getLastSentForPlan(key.twitterId, key.contract);
+            if (lastForPlan && now - lastForPlan < config.alerts.planGapMinutes * 60 * 1000) {
+                return { allowed: false, reason: `another alert was posted for this plan within ${config.alerts.planGapMinutes}m` };
+            }
+            return { allowed: true };
+        } catch (error) {
+            // Fail closed: a broken state table must not turn into a spam storm
+            logger.error(`[AlertsSent] Failed to check send state for ${key.twitterId}/${key.contract}`, error);
+            return { allowed: false, reason: 'send state unavailable' };
+        }
+    }
+
+    async recordSent(key: AlertSendKey, value: number, message: string): Promise<void> {
+        const nowIso = new Date().toISOString();
+        try {
+            await questdbService.pgClient.query(
+                `INSERT INTO alerts_sent (
+                    timestamp, twitter_id, contract, alert_type, time_window, metric_value, message, sent_at
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8);`,
+                [nowIso, key.twitterId, key.contract.toLowerCase(), key.alertType, key.window, value, message, nowIso]
+            );
+        } catch (error) {
+            logger.error(`[AlertsSent] Failed to record sent alert for ${key.twitterId}/${key.contract}`, error);
+        }
+    }
+}
+
+export const alertsSentService = new AlertsSentService();
@@ -0,0 +1,224 @@
+import { createHmac } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import type { AlertChannel, AlertDeliveryMessage, DeliveryAdapter } from '../../../models/delivery.types';
+
+jest.mock('../../../utils/logger', () => ({
+    logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+interface Reply {
+    status: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+}
+
+interface RecordedRequest {
+    method?: string;
+    url?: string;
+    headers: IncomingMessage['headers'];
+    rawBody: string;
+    json: any;
+}
+
+// Local stand-in for the Telegram Bot API, Discord and webhook receivers
+let server: Server;
+let baseUrl: string;
+let reply: Reply | 'hang';
+let requests: RecordedRequest[];
+
+let telegram: DeliveryAdapter;
+let discord: DeliveryAdapter;
+let webhook: DeliveryAdapter & { sign(secret: string, timestamp: string, body: string): string };
+
+const channel = (type: AlertChannel['type'], target: string, secret?: string): AlertChannel => ({
+    channelId: `${type}-channel`,
+    twitterId: 'plan-owner',
+    token: 'so11111111111111111111111111111111111111112',
+    type,
+    target,
+    secret,
+    enabled: true,
+});
+
+const message: AlertDeliveryMessage = {
+    twitterId: 'plan-owner',
+    contract: 'So11111111111111111111111111111111111111112',
+    chain: 'SOLANA',
+    kind: 'pricePump',
+    window: '1h',
+    text: 'PUMP ALERT!\nPrice up 20.5% (1h) - see [Chart](https://dexscreener.com/solana/abc)\nCA: so_11',
+    dexLink: 'https://dexscreener.com/solana/abc',
+};
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let rawBody = '';
+        req.on('data', chunk => { rawBody += chunk; });
+        req.on('end', () => {
+            let json: any = null;
+            try {
+                json = JSON.parse(rawBody);
+            } catch {
+                // Not JSON
+            }
+            requests.push({ method: req.method, url: req.url, headers: req.headers, rawBody, json });
+            if (reply === 'hang') return;
+            res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+            res.end(reply.body === undefined ? '' : JSON.stringify(reply.body));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    // Read by config when the adapters are first loaded
+    process.env.TELEGRAM_API_BASE_URL = baseUrl;
+    process.env.TELEGRAM_BOT_TOKEN = 'test-bot-token';
+    process.env.ALERT_DELIVERY_TIMEOUT_MS = '300';
+    process.env.ALERT_DELIVERY_ALLOWED_HOSTS = '127.0.0.1';
+    telegram = (await import('./telegramAdapter')).telegramDeliveryAdapter;
+    discord = (await import('./discordAdapter')).discordDeliveryAdapter;
+    webhook = (await import('./webhookAdapter')).webhookDeliveryAdapter;
+});
+
+beforeEach(() => {
+    reply = { status: 200, body: {} };
+    requests = [];
+});
+
+afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+});
+
+describe('TelegramDeliveryAdapter', () => {
+    it('sends a MarkdownV2 sendMessage request to the configured Bot API', async () => {
+        reply = { status: 200, body: { ok: true, result: { message_id: 42 } } };
+
+        const result = await telegram.send(channel('telegram', '-100123'), message);
+
+        expect(requests).toHaveLength(1);
+        expect(requests[0].url).toBe('/bottest-bot-token/sendMessage');
+        expect(requests[0].json).toMatchObject({ chat_id: '-100123', parse_mode: 'MarkdownV2', disable_web_page_preview: true });
+        expect(requests[0].json.reply_markup.inline_keyboard[0][0].url).toBe(message.dexLink);
+        expect(result).toMatchObject({ success: true, statusCode: 200, externalId: '42' });
+    });
+
+    it('escapes MarkdownV2 special characters and keeps markdown links', async () => {
+        reply = { status: 200, body: { ok: true, result: { message_id: 1 } } };
+
+        await telegram.send(channel('telegram', '-100123'), message);
+
+        expect(requests[0].json.text).toBe([
+            '*PUMP ALERT\\!*',
+            'Price up 20\\.5% \\(1h\\) \\- see [Chart](https://dexscreener.com/solana/abc)',
+            'CA: so\\_11',
+        ].join('\n'));
+    });
+
+    it('treats ok:false on HTTP 200 as a failed, non-retryable delivery', async () => {
+        reply = { status: 200, body: { ok: false, description: 'Bad Request: chat not found' } };
+
+        const result = await telegram.send(channel('telegram', '-100123'), message);
+
+        expect(result).toMatchObject({ success: false, statusCode: 200, error: 'Bad Request: chat not found', retryable: false });
+    });
+
+    it('maps 429 retry_after to retryAt', async () => {
+        reply = { status: 429, body: { ok: false, description: 'Too Many Requests', parameters: { retry_after: 7 } } };
+
+        const before = Date.now();
+        const result = await telegram.send(channel('telegram', '-100123'), message);
+
+        expect(result.success).toBe(false);
+        expect(result.retryable).toBe(true);
+        expect(result.retryAt).toBeGreaterThanOrEqual(before + 7000);
+        expect(result.retryAt).toBeLessThanOrEqual(Date.now() + 7000);
+    });
+});
+
+describe('DiscordDeliveryAdapter', () => {
+    it('posts one embed and asks Discord to return the message', async () => {
+        reply = { status: 200, body: { id: '998877' } };
+
+        const result = await discord.send(channel('discord', `${baseUrl}/api/webhooks/1/abc`), message);
+
+        expect(requests[0].url).toBe('/api/webhooks/1/abc?wait=true');
+        const [embed] = requests[0].json.embeds;
+        expect(embed).toMatchObject({
+            title: 'PUMP ALERT!',
+            description: 'Price up 20.5% (1h) - see [Chart](https://dexscreener.com/solana/abc)\nCA: so_11',
+            color: 0x2ecc71,
+            url: message.dexLink,
+        });
+        expect(result).toMatchObject({ success: true, statusCode: 200, externalId: '998877' });
+    });
+
+    it('maps 429 retry_after (seconds, in the body) to retryAt', async () => {
+        reply = { status: 429, body: { message: 'You are being rate limited.', retry_after: 2.5 } };
+
+        const before = Date.now();
+        const result = await discord.send(channel('discord', `${baseUrl}/api/webhooks/1/abc`), message);
+
+        expect(result).toMatchObject({ success: false, statusCode: 429, retryable: true });
+        expect(result.retryAt).toBeGreaterThanOrEqual(before + 2500);
+    });
+});
+
+describe('WebhookDeliveryAdapter', () => {
+    it('posts the alert as JSON', async () => {
+        const result = await webhook.send(channel('webhook', `${baseUrl}/hooks/alerts`, 'shh'), message);
+
+        expect(requests[0].method).toBe('POST');
+        expect(requests[0].headers['content-type']).toBe('application/json');
+        expect(requests[0].json).toMatchObject({
+            event: 'alert',
+            kind: 'pricePump',
+            window: '1h',
+            text: message.text,
+            token: { contract: message.contract, chain: 'SOLANA' },
+            dexLink: message.dexLink,
+            plan: 'plan-owner',
+        });
+        expect(result).toMatchObject({ success: true, statusCode: 200 });
+    });
+
+    it('signs the raw body with HMAC-SHA256 of timestamp.body', async () => {
+        await webhook.send(channel('webhook', `${baseUrl}/hooks/alerts`, 'shh'), message);
+
+        const { headers, rawBody } = requests[0];
+        const timestamp = String(headers['x-alert-timestamp']);
+        const expected = `sha256=${createHmac('sha256', 'shh').update(`${timestamp}.${rawBody}`).digest('hex')}`;
+        expect(timestamp).toMatch(/^\d+$/);
+        expect(headers['x-alert-signature']).toBe(expected);
+    });
+
+    it('reports a timeout as retryable status 0', async () => {
+        reply = 'hang';
+
+        const result = await webhook.send(channel('webhook', `${baseUrl}/hooks/slow`, 'shh'), message);
+
+        expect(result).toMatchObject({ success: false, statusCode: 0, retryable: true });
+        expect(result.error).toMatch(/Timed out/);
+    });
+
+    it('refuses private targets that are not allow-listed', async () => {
+        const result = await webhook.send(channel('webhook', 'http://10.0.0.5/hooks', 'shh'), message);
+
+        expect(result).toMatchObject({ success: false, retryable: false });
+        expect(requests).toHaveLength(0);
+    });
+});
+
+describe('postJson', () => {
+    it('connects to the pinned addresses instead of resolving the host again', async () => {
+        const { postJson } = await import('./http');
+        const port = new URL(baseUrl).port;
+
+        // .invalid never resolves, so the request can only arrive through the pinned address
+        const resp = await postJson(`http://rebind.invalid:${port}/hooks/pinned`, '{}', {}, [{ address: '127.0.0.1', family: 4 }]);
+
+        expect(resp).toMatchObject({ ok: true, status: 200 });
+        expect(requests[0]).toMatchObject({ url: '/hooks/pinned', headers: expect.objectContaining({ host: `rebind.invalid:${port}` }) });
+    });
+});
@@ -0,0 +1,73 @@
+import { logger } from '../../../utils/logger';
+import { config } from '../../../utils/config';
+import { AlertKind } from '../../../models/alert.types';
+import { AlertChannel, AlertDeliveryMessage, DeliveryAdapter, DeliveryResult } from '../../../models/delivery.types';
+import { isRetryableStatus, postJson, splitTitle } from './http';
+import { resolvePublicTarget } from './targetGuard';
+
+const EMBED_COLORS: Partial<Record<AlertKind, number>> = {
+    pricePump: 0x2ecc71,
+    priceDump: 0xe74c3c,
+    marketCapMilestone: 0xf1c40f,
+    kolConvergence: 0x9b59b6,
+};
+const DEFAULT_EMBED_COLOR = 0x3498db;
+
+const usd = (value: number) => `$${value.toLocaleString('en-US', { maximumFractionDigits: value >= 1 ? 0 : 8 })}`;
+
+/**
+ * Sends alerts to a Discord channel webhook as a single embed.
+ */
+export class DiscordDeliveryAdapter implements DeliveryAdapter {
+    readonly type = 'discord' as const;
+
+    format(message: AlertDeliveryMessage): Record<string, any> {
+        const { title, body } = splitTitle(message.text);
+        const embed: Record<string, any> = {
+            title,
+            description: body,
+            color: EMBED_COLORS[message.kind] ?? DEFAULT_EMBED_COLOR,
+            footer: { text: `${config.alerts.brandHandle} | ${message.chain}` },
+            timestamp: new Date().toISOString(),
+        };
+        if (message.dexLink) embed.url = message.dexLink;
+        if (message.snapshot) {
+            embed.fields = [
+                { name: 'Price', value: usd(message.snapshot.priceUsd), inline: true },
+                { name: 'Market cap', value: usd(message.snapshot.marketCap), inline: true },
+                { name: `Volume ${message.window}`, value: usd(message.snapshot.volume[message.window] ?? 0), inline: true },
+            ];
+        }
+        return { username: config.alerts.brandHandle.replace(/^@/, ''), embeds: [embed] };
+    }
+
+    async send(channel: AlertChannel, message: AlertDeliveryMessage): Promise<DeliveryResult> {
+        const startedAt = Date.now();
+        // Re-checked on every send: the host may have been re-pointed since the channel was created
+        const checked = await resolvePublicTarget(channel.target);
+        if (checked.error) {
+            return { channelId: channel.channelId, type: this.type, success: false, error: checked.error, durationMs: 0, retryable: false };
+        }
+        // wait=true makes Discord return the created message so its id can be tracked
+        const url = `${channel.target}${channel.target.includes('?') ? '&' : '?'}wait=true`;
+        const resp = await postJson(url, JSON.stringify(this.format(message)), {}, checked.addresses);
+        if (!resp.ok) {
+            logger.warn(`[Delivery][discord] Failed to send for ${channel.twitterId}/${channel.token}: ${resp.error}`);
+        }
+        // Discord reports rate limits in the body as seconds
+        const retryAfterMs = Number(resp.body?.retry_after) > 0 ? Number(resp.body.retry_after) * 1000 : resp.retryAfterMs;
+        return {
+            channelId: channel.channelId,
+            type: this.type,
+            success: resp.ok,
+            statusCode: resp.status,
+            externalId: resp.body?.id ? String(resp.body.id) : undefined,
+            error: resp.ok ? undefined : resp.error,
+            durationMs: Date.now() - startedAt,
+            retryable: resp.ok ? undefined : isRetryableStatus(resp.status),
+            retryAt: retryAfterMs ? Date.now() + retryAfterMs : undefined,
+        };
+    }
+}
+
+export const discordDeliveryAdapter = new DiscordDeliveryAdapter();
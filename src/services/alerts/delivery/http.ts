@@ -0,0 +1,97 @@
+import { LookupAddress } from 'dns';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { LookupFunction } from 'net';
+import { config } from '../../../utils/config';
+
+export interface HttpDeliveryResponse {
+    ok: boolean;
+    status: number;
+    body: any;
+    error?: string;
+    // From the Retry-After header (seconds), when present
+    retryAfterMs?: number;
+}
+
+/**
+ * 429, 5xx and network failures (status 0) may succeed on a later attempt; other errors will not.
+ */
+export const isRetryableStatus = (status: number): boolean => status === 0 || status === 429 || status >= 500;
+
+/**
+ * A `lookup` for http(s).request that answers with already-checked addresses, so the connection
+ * cannot go to a different address than the one validated (DNS rebinding).
+ */
+const pinnedLookup = (addresses: LookupAddress[]): LookupFunction =>
+    (_hostname, options, callback) => {
+        if (options.all) {
+            (callback as (err: null, addresses: LookupAddress[]) => void)(null, addresses);
+        } else {
+            const [first] = addresses;
+            callback(null, first.address, first.family);
+        }
+    };
+
+/**
+ * POSTs a JSON body with the delivery timeout applied. Network errors and timeouts
+ * are returned as a failed response (status 0) instead of being thrown. When `addresses`
+ * is given the connection goes to one of them instead of resolving the host again.
+ */
+export const postJson = (
+    url: string,
+    body: string,
+    headers: Record<string, string> = {},
+    addresses: LookupAddress[] = []
+): Promise<HttpDeliveryResponse> => new Promise(resolve => {
+    const fail = (error: string) => resolve({ ok: false, status: 0, body: null, error });
+    let target: URL;
+    try {
+        target = new URL(url);
+    } catch {
+        return fail(`Invalid URL: ${url}`);
+    }
+    // Redirects are not followed: they would bypass the check on where user-supplied targets point
+    const req = (target.protocol === 'https:' ? httpsRequest : httpRequest)(target, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Content-Length': String(Buffer.byteLength(body)), ...headers },
+        lookup: addresses.length ? pinnedLookup(addresses) : undefined,
+    }, res => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => { text += chunk; });
+        res.on('error', error => fail(error.message));
+        res.on('end', () => {
+            clearTimeout(timer);
+            let parsed: any = text;
+            try {
+                parsed = text ? JSON.parse(text) : null;
+            } catch {
+                // Non-JSON responses are kept as text
+            }
+            const status = res.statusCode || 0;
+            const ok = status >= 200 && status < 300;
+            const retryAfter = Number(res.headers['retry-after']);
+            resolve({
+                ok,
+                status,
+                body: parsed,
+                retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+                error: ok ? undefined : `HTTP ${status}: ${typeof parsed === 'string' ? parsed : JSON.stringify(parsed)}`.slice(0, 500)
+            });
+        });
+    });
+    const timer = setTimeout(() => req.destroy(new Error(`Timed out after ${config.delivery.timeoutMs}ms`)), config.delivery.timeoutMs);
+    req.on('error', error => {
+        clearTimeout(timer);
+        fail(error.message || String(error));
+    });
+    req.end(body);
+});
+
+/**
+ * Splits rendered alert text into a title (first line) and the remaining body.
+ */
+export const splitTitle = (text: string): { title: string; body: string } => {
+    const [title, ...rest] = text.split('\n');
+    return { title: title.trim(), body: rest.join('\n').trim() };
+};
@@ -0,0 +1,98 @@
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { config } from '../../../utils/config';
+
+// Loopback, private, shared (CGNAT), link-local, benchmarking, multicast and reserved IPv4 ranges
+const BLOCKED_IPV4: Array<[string, number]> = [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 3],
+];
+
+const ipv4ToInt = (address: string): number =>
+    address.split('.').reduce((acc, octet) => (acc << 8) + Number(octet), 0) >>> 0;
+
+const isBlockedIpv4 = (address: string): boolean => {
+    const ip = ipv4ToInt(address);
+    return BLOCKED_IPV4.some(([base, bits]) => {
+        const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+        return (ip & mask) === (ipv4ToInt(base) & mask);
+    });
+};
+
+const isBlockedIpv6 = (address: string): boolean => {
+    const lower = address.toLowerCase();
+    // IPv4-mapped (::ffff:10.0.0.1) addresses reach the IPv4 host
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isBlockedIpv4(mapped[1]);
+    // The same in hex, as URL parsing writes it (::ffff:7f00:1)
+    const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+        const [hi, lo] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+        return isBlockedIpv4(`${hi >> 8}.${hi & 0xff}.${lo >> 8}.${lo & 0xff}`);
+    }
+    if (lower === '::' || lower === '::1') return true;
+    const firstHextet = parseInt(lower.split(':')[0] || '0', 16);
+    // fc00::/7 unique local, fe80::/10 link-local, ff00::/8 multicast
+    return (firstHextet & 0xfe00) === 0xfc00 || (firstHextet & 0xffc0) === 0xfe80 || (firstHextet & 0xff00) === 0xff00;
+};
+
+/**
+ * True for addresses that are not reachable on the public internet (loopback, private, link-local, ...).
+ */
+export const isPrivateAddress = (address: string): boolean => {
+    const version = isIP(address);
+    if (version === 4) return isBlockedIpv4(address);
+    if (version === 6) return isBlockedIpv6(address);
+    return true;
+};
+
+export interface PublicTargetCheck {
+    // Why the target may not be called, or null when it may
+    error: string | null;
+    // The checked addresses, for pinning the request to them; empty for allow-listed hosts
+    addresses: LookupAddress[];
+}
+
+/**
+ * Checks that a user-supplied delivery URL resolves only to public addresses, so channels cannot be
+ * used to reach internal services (QuestDB, cloud metadata, ...). Hosts in ALERT_DELIVERY_ALLOWED_HOSTS
+ * skip the check, for local development. Requests must connect to the returned addresses: resolving
+ * the host again could give a different answer than the one checked.
+ */
+export const resolvePublicTarget = async (target: string): Promise<PublicTargetCheck> => {
+    let url: URL;
+    try {
+        url = new URL(target);
+    } catch {
+        return { error: 'target must be a valid URL', addresses: [] };
+    }
+    const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (config.delivery.allowedPrivateHosts.includes(host)) return { error: null, addresses: [] };
+    let addresses: LookupAddress[];
+    try {
+        const version = isIP(host);
+        addresses = version ? [{ address: host, family: version }] : await lookup(host, { all: true });
+    } catch {
+        return { error: `target host ${host} does not resolve`, addresses: [] };
+    }
+    if (addresses.length === 0 || addresses.some(a => isPrivateAddress(a.address))) {
+        return { error: 'target must not point to a loopback, private or link-local address', addresses: [] };
+    }
+    return { error: null, addresses };
+};
+
+/**
+ * {@link resolvePublicTarget} for validation only.
+ * @returns an error message, or null when the target may be called
+ */
+export const checkPublicTarget = async (target: string): Promise<string | null> =>
+    (await resolvePublicTarget(target)).error;
@@ -0,0 +1,73 @@
+import { logger } from '../../../utils/logger';
+import { config } from '../../../utils/config';
+import { AlertChannel, AlertDeliveryMessage, DeliveryAdapter, DeliveryResult } from '../../../models/delivery.types';
+import { isRetryableStatus, postJson, splitTitle } from './http';
+
+// Characters that must be escaped in Telegram MarkdownV2 text
+const MARKDOWN_V2_SPECIAL = /[_*\[\]()~`>#+\-=|{}.!\\]/g;
+
+/**
+ * Sends alerts with the Bot API `sendMessage` method. The bot must be a member of the target chat.
+ */
+export class TelegramDeliveryAdapter implements DeliveryAdapter {
+    readonly type = 'telegram' as const;
+
+    private escape(text: string): string {
+        return text.replace(MARKDOWN_V2_SPECIAL, ch => `\\${ch}`);
+    }
+
+    /**
+     * Bold title line, escaped body, and markdown links ([label](url)) from templates kept as links.
+     */
+    format(message: AlertDeliveryMessage): Record<string, any> {
+        const { title, body } = splitTitle(message.text);
+        const formatLine = (line: string) => {
+            const out: string[] = [];
+            let last = 0;
+            for (const m of line.matchAll(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g)) {
+                out.push(this.escape(line.slice(last, m.index)));
+                out.push(`[${this.escape(m[1])}](${m[2].replace(/[)\\]/g, ch => `\\${ch}`)})`);
+                last = (m.index ?? 0) + m[0].length;
+            }
+            out.push(this.escape(line.slice(last)));
+            return out.join('');
+        };
+        const payload: Record<string, any> = {
+            text: [`*${this.escape(title)}*`, ...body.split('\n').map(formatLine)].join('\n'),
+            parse_mode: 'MarkdownV2',
+            disable_web_page_preview: true,
+        };
+        if (message.dexLink) {
+            payload.reply_markup = { inline_keyboard: [[{ text: '📊 Chart', url: message.dexLink }]] };
+        }
+        return payload;
+    }
+
+    async send(channel: AlertChannel, message: AlertDeliveryMessage): Promise<DeliveryResult> {
+        const startedAt = Date.now();
+        if (!config.delivery.telegramBotToken) {
+            return { channelId: channel.channelId, type: this.type, success: false, error: 'TELEGRAM_BOT_TOKEN is not configured', durationMs: 0, retryable: false };
+        }
+        const url = `${config.baseUrls.telegram}/bot${config.delivery.telegramBotToken}/sendMessage`;
+        const resp = await postJson(url, JSON.stringify({ chat_id: channel.target, ...this.format(message) }));
+        // The Bot API reports failures with ok=false and a description, sometimes alongside HTTP 200
+        const success = resp.ok && resp.body?.ok === true;
+        if (!success) {
+            logger.warn(`[Delivery][telegram] Failed to send to chat ${channel.target}: ${resp.body?.description || resp.error}`);
+        }
+        const retryAfterSec = Number(resp.body?.parameters?.retry_after);
+        return {
+            channelId: channel.channelId,
+            type: this.type,
+            success,
+            statusCode: resp.status,
+            externalId: resp.body?.result?.message_id != null ? String(resp.body.result.message_id) : undefined,
+            error: success ? undefined : resp.body?.description || resp.error,
+            durationMs: Date.now() - startedAt,
+            retryable: success ? undefined : isRetryableStatus(resp.status),
+            retryAt: retryAfterSec > 0 ? Date.now() + retryAfterSec * 1000 : undefined,
+        };
+    }
+}
+
+export const telegramDeliveryAdapter = new TelegramDeliveryAdapter();
@@ -0,0 +1,106 @@
+import type { AlertChannel, AlertDeliveryMessage } from '../../../models/delivery.types';
+import { getTweetLength } from '../../../utils/tweetLength';
+import { questdbService } from '../../questDbService';
+import { twitterDeliveryAdapter } from './twitterAdapter';
+
+jest.mock('../../../utils/logger', () => ({
+    logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../questDbService', () => ({
+    questdbService: { query: jest.fn() },
+}));
+
+// Stand-in for the X API client the adapter builds from the stored access token
+const me = jest.fn();
+const tweet = jest.fn();
+jest.mock('twitter-api-v2', () => ({
+    TwitterApi: jest.fn().mockImplementation(() => ({ v2: { me, tweet } })),
+}));
+
+const CONTRACT = '7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr';
+
+const channel = (target = ''): AlertChannel => ({
+    channelId: 'twitter-channel',
+    twitterId: 'plan_owner',
+    token: CONTRACT,
+    type: 'twitter',
+    target,
+    enabled: true,
+});
+
+const message = (text: string): AlertDeliveryMessage => ({
+    twitterId: 'plan_owner',
+    contract: CONTRACT,
+    chain: 'SOLANA',
+    kind: 'pricePump',
+    window: '1h',
+    text,
+    dexLink: `https://dexscreener.com/solana/${CONTRACT}`,
+});
+
+// The default pump template rendered for a Solana token: over 280 UTF-16 units, within 280 as X weighs it
+const PUMP_ALERT = [
+    '🚀 PUMP ALERT!',
+    '📈 $POPCAT is up +27.45% in the last 1h',
+    '💵 Price: $0.0₄5643 | MC: $12.35M',
+    `🔗 CA: ${CONTRACT}`,
+    `📊 Live Chart → https://dexscreener.com/solana/${CONTRACT}`,
+    'Powered by @DEXAlerts_io | NFA | DYOR | Community-run',
+].join('\n');
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    (questdbService.query as jest.Mock).mockResolvedValue({
+        rows: [['access-token', 'refresh-token', new Date(Date.now() + 3600_000).toISOString(), 'plan_owner', 'user-1']],
+        columns: [],
+    });
+    me.mockResolvedValue({ data: { id: 'user-1', username: 'plan_owner' } });
+    tweet.mockResolvedValue({ data: { id: '1790000000000000000' } });
+});
+
+describe('TwitterDeliveryAdapter', () => {
+    it('posts a default alert in full when it fits X\'s weighted limit', async () => {
+        expect(PUMP_ALERT.length).toBeGreaterThan(280);
+        expect(getTweetLength(PUMP_ALERT)).toBeLessThanOrEqual(280);
+
+        const result = await twitterDeliveryAdapter.send(channel(), message(PUMP_ALERT));
+
+        expect(tweet).toHaveBeenCalledWith(PUMP_ALERT);
+        expect(result).toMatchObject({ success: true, externalId: '1790000000000000000' });
+    });
+
+    it('truncates text over the weighted limit to fit it', async () => {
+        const text = `${PUMP_ALERT}\n${'🔥'.repeat(40)}`;
+
+        await twitterDeliveryAdapter.send(channel(), message(text));
+
+        const posted: string = tweet.mock.calls[0][0];
+        expect(posted.endsWith('...')).toBe(true);
+        expect(posted.startsWith(PUMP_ALERT)).toBe(true);
+        expect(getTweetLength(posted)).toBeLessThanOrEqual(280);
+    });
+
+    it('posts to the community in the channel target', async () => {
+        await twitterDeliveryAdapter.send(channel('https://x.com/i/communities/1234567890123456789'), message(PUMP_ALERT));
+
+        expect(tweet).toHaveBeenCalledWith({ text: PUMP_ALERT, community_id: '1234567890123456789' });
+    });
+
+    it('maps a 429 to a retryable failure at the rate-limit reset', async () => {
+        const reset = Math.floor(Date.now() / 1000) + 900;
+        tweet.mockRejectedValue(Object.assign(new Error('Too Many Requests'), { code: 429, rateLimit: { reset } }));
+
+        const result = await twitterDeliveryAdapter.send(channel(), message(PUMP_ALERT));
+
+        expect(result).toMatchObject({ success: false, statusCode: 429, retryable: true, retryAt: reset * 1000 });
+    });
+
+    it('fails without retry when the owner has no valid token', async () => {
+        (questdbService.query as jest.Mock).mockResolvedValue({ rows: [], columns: [] });
+
+        const result = await twitterDeliveryAdapter.send(channel(), message(PUMP_ALERT));
+
+        expect(result).toMatchObject({ success: false, retryable: false });
+        expect(tweet).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,260 @@
+import { TwitterApi } from 'twitter-api-v2';
+import { questdbService } from '../../questDbService';
+import { logger } from '../../../utils/logger';
+import { config } from '../../../utils/config';
+import { truncateTweet } from '../../../utils/tweetLength';
+import { AlertChannel, AlertDeliveryMessage, DeliveryAdapter, DeliveryResult } from '../../../models/delivery.types';
+import { isRetryableStatus } from './http';
+
+/**
+ * Posts alerts with the plan owner's X account, to their community when one is set
+ * and to their timeline otherwise.
+ */
+export class TwitterDeliveryAdapter implements DeliveryAdapter {
+    readonly type = 'twitter' as const;
+
+    private async getTwitterClient(username?: string): Promise<TwitterApi | null> {
+        try {
+            let targetUsername: string;
+            let query: string;
+            if (username) {
+                targetUsername = username;
+                query = `
+                    SELECT
+                        access_token,
+                        refresh_token,
+                        expires_at,
+                        username,
+                        id
+                    FROM twitter_auth
+                    WHERE username = '${username.replace(/'/g, "''")}'
+                    AND access_token IS NOT NULL
+                    ORDER BY updated_at DESC
+                    LIMIT 1`;
+            } else {
+                logger.debug('getTwitterClient: Attempting to fetch valid Twitter access token from database');
+                // First, get the username from user_posts_plans table
+                const userQuery = `
+                    SELECT DISTINCT twitter_id
+                    FROM user_posts_plans
+                    WHERE twitter_id IS NOT NULL
+                    LIMIT 1`;
+                logger.debug('getTwitterClient: Fetching username from user_posts_plans');
+                const userResult = await questdbService.query(userQuery);
+                if (userResult.rows.length === 0) {
+                    logger.error('No username found in user_posts_plans table');
+                    return null;
+                }
+                targetUsername = userResult.rows[0][0]?.trim();
+                if (!targetUsername) {
+                    logger.error('Found empty username in user_posts_plans table');
+                    return null;
+                }
+                logger.debug('getTwitterClient: Found username in user_posts_plans:', { username: targetUsername });
+                query = `
+                    SELECT
+                        access_token,
+                        refresh_token,
+                        expires_at,
+                        username,
+                        id
+                    FROM twitter_auth
+                    WHERE username = '${targetUsername.replace(/'/g, "''")}'
+                    AND access_token IS NOT NULL
+                    ORDER BY updated_at DESC
+                    LIMIT 1`;
+            }
+            logger.debug('getTwitterClient: Executing query:', { query });
+            const result = await questdbService.query(query);
+            logger.debug('getTwitterClient: Query result:', {
+                rowsReturned: result.rows.length,
+                columns: result.columns,
+                firstRow: result.rows[0] ? '***REDACTED***' : 'No rows returned'
+            });
+            if (result.rows.length === 0) {
+                logger.error('No valid Twitter access token found in database - no rows returned');
+                return null;
+            }
+            const accessToken = result.rows[0][0]; // access_token is the first column in the SELECT
+            const refreshToken = result.rows[0][1]; // refresh_token
+            const usernameFromDb = result.rows[0][3] || 'unknown';
+            const userId = result.rows[0][4] || 'unknown';
+            const expiresAt = result.rows[0][2];
+            logger.debug('getTwitterClient: Found access token', {
+                username: usernameFromDb,
+                userId,
+                expiresAt: expiresAt ? new Date(expiresAt).toISOString() : 'unknown',
+                tokenPrefix: accessToken ? `${accessToken.substring(0, 10)}...` : 'empty'
+            });
+            if (!accessToken) {
+                logger.error('Found row but access token is empty or undefined');
+                return null;
+            }
+            let currentAccessToken = accessToken;
+            let currentRefreshToken = refreshToken;
+            let currentExpiresAt = expiresAt;
+            // Refresh token if it's expired or about to expire (within 5 minutes)
+            const now = new Date();
+            const tokenExpiry = expiresAt ? (typeof expiresAt === 'string' ? new Date(expiresAt) : expiresAt) : null;
+            const shouldRefresh = !tokenExpiry || tokenExpiry < new Date(now.getTime() + 5 * 60 * 1000);
+            if (shouldRefresh) {
+                logger.info('getTwitterClient: Access token nearing expiry - attempting auto-refresh');
+                if (!refreshToken) {
+                    logger.error('getTwitterClient: No refresh token available for auto-refresh');
+                    return null;
+                }
+                try {
+                    // Create app client for refresh (requires client_id and client_secret in config)
+                    const appClient = new TwitterApi({
+                        clientId: config.twitter.clientId,
+                        clientSecret: config.twitter.clientSecret,
+                    });
+                    const refreshed = await appClient.refreshOAuth2Token(refreshToken);
+                    currentAccessToken = refreshed.accessToken;
+                    currentRefreshToken = refreshed.refreshToken;
+                    currentExpiresAt = new Date(Date.now() + (refreshed.expiresIn || 7200) * 1000).toISOString();
+                    // Update DB with new tokens using parameterized query
+                    const updateQuery = `
+                        UPDATE twitter_auth
+                        SET
+                            access_token = '${currentAccessToken.replace(/'/g, "''")}',
+                            refresh_token = '${currentRefreshToken.replace(/'/g, "''")}',
+                            expires_at = to_timestamp('${currentExpiresAt}', 'yyyy-MM-ddTHH:mm:ss.SSSZ'),
+                            updated_at = now()
+                        WHERE id = '${userId.replace(/'/g, "''")}';
+                    `;
+                    await questdbService.query(updateQuery);
+                    logger.info('getTwitterClient: Successfully refreshed tokens and updated DB', {
+                        username: usernameFromDb,
+                        newExpiresAt: currentExpiresAt,
+                        newTokenPrefix: `${currentAccessToken.substring(0, 10)}...`
+                    });
+                } catch (refreshError: any) {
+                    logger.error('getTwitterClient: Auto-refresh failed', {
+                        error: refreshError.message,
+                        code: refreshError.code,
+                        status: refreshError.status
+                    });
+                    // Fall back to original token (might fail verification next)
+                }
+            }
+            // Create a new Twitter client with the (potentially refreshed) access token
+            logger.debug('getTwitterClient: Creating Twitter client with access token');
+            const client = new TwitterApi(currentAccessToken);
+            // Verify the token is valid by making a simple API call
+            try {
+                logger.debug('getTwitterClient: Verifying token with Twitter API');
+                const user = await client.v2.me();
+                logger.debug('getTwitterClient: Successfully verified token for user:', {
+                    username: user.data.username,
+                    id: user.data.id
+                });
+            } catch (error: any) {
+                const verifyError = error as {
+                    message: string;
+                    code?: string | number;
+                    status?: number;
+                };
+                logger.error('getTwitterClient: Failed to verify token with Twitter API:', {
+                    error: verifyError.message,
+                    code: verifyError.code,
+                    status: verifyError.status
+                });
+                return null;
+            }
+            return client;
+        } catch (error: any) {
+            const err = error as {
+                message: string;
+                stack?: string;
+                code?: string | number;
+                status?: number;
+            };
+            logger.error('Error in getTwitterClient:', {
+                error: err.message,
+                stack: err.stack,
+                code: err.code,
+                status: err.status
+            });
+            return null;
+        }
+    }
+
+    private extractCommunityId(communityLink: string): string | null {
+        try {
+            // Handle different community link formats
+            // Format 1: https://twitter.com/i/communities/1234567890123456789
+            // Format 2: https://x.com/i/communities/1234567890123456789
+            // Format 3: https://twitter.com/i/communities/1234567890123456789/settings
+            const match = communityLink.match(/[\/](?:communities|i\/communities)[\/](\d+)/);
+            if (match && match[1]) {
+                return match[1];
+            }
+            // If the link is just a community ID
+            if (/^\d+$/.test(communityLink)) {
+                return communityLink;
+            }
+            logger.warn('Could not extract community ID from link:', communityLink);
+            return null;
+        } catch (error) {
+            logger.error('Error extracting community ID:', error);
+            return null;
+        }
+    }
+
+    // Templates are validated by weighted length; this only guards against long variable values
+    private format(message: AlertDeliveryMessage): string {
+        return truncateTweet(message.text, config.alerts.maxTweetLength);
+    }
+
+    async send(channel: AlertChannel, message: AlertDeliveryMessage): Promise<DeliveryResult> {
+        const startedAt = Date.now();
+        const result = (success: boolean, extra: Partial<DeliveryResult> = {}): DeliveryResult => ({
+            channelId: channel.channelId,
+            type: this.type,
+            success,
+            durationMs: Date.now() - startedAt,
+            ...extra
+        });
+        const client = await this.getTwitterClient(channel.twitterId);
+        if (!client) {
+            // Missing or revoked tokens need the user to reconnect X; retrying will not help
+            return result(false, { error: `No valid Twitter access token for ${channel.twitterId}`, retryable: false });
+        }
+        const text = this.format(message);
+        const community = channel.target.trim();
+        try {
+            if (community) {
+                const communityId = this.extractCommunityId(community);
+                if (!communityId) {
+                    return result(false, { error: `Invalid community link or ID: ${community}`, retryable: false });
+                }
+                const tweet = await client.v2.tweet({ text, community_id: communityId });
+                logger.info('Successfully posted to community', { tweetId: tweet.data.id, communityId });
+                return result(true, { externalId: tweet.data.id });
+            }
+            const tweet = await client.v2.tweet(text);
+            logger.info(`Posted to Twitter (${message.contract}): ${text}`);
+            return result(true, { externalId: tweet.data?.id });
+        } catch (error: any) {
+            logger.error('Failed to post to Twitter:', {
+                error: error.message,
+                code: error.code,
+                status: error.status,
+                community
+            });
+            // ApiResponseError carries the HTTP status in `code` and the x-rate-limit-* headers in `rateLimit`.
+            // 401/403 (revoked token, not a community member) and 400 (e.g. duplicate content) are permanent.
+            const statusCode = Number(error.code || error.status) || 0;
+            const resetSec = Number(error.rateLimit?.reset);
+            return result(false, {
+                statusCode,
+                error: error.data?.detail || error.message,
+                retryable: isRetryableStatus(statusCode),
+                retryAt: statusCode === 429 && resetSec > 0 ? resetSec * 1000 : undefined
+            });
+        }
+    }
+}
+
+export const twitterDeliveryAdapter = new TwitterDeliveryAdapter();
@@ -0,0 +1,65 @@
+import { createHmac } from 'crypto';
+import { logger } from '../../../utils/logger';
+import { AlertChannel, AlertDeliveryMessage, DeliveryAdapter, DeliveryResult } from '../../../models/delivery.types';
+import { isRetryableStatus, postJson } from './http';
+import { resolvePublicTarget } from './targetGuard';
+
+/**
+ * Sends alerts as JSON to any HTTP endpoint. Requests are signed so receivers can verify them:
+ * X-Alert-Signature is `sha256=` + hex HMAC-SHA256 of `${X-Alert-Timestamp}.${rawBody}` keyed with the channel secret.
+ */
+export class WebhookDeliveryAdapter implements DeliveryAdapter {
+    readonly type = 'webhook' as const;
+
+    format(message: AlertDeliveryMessage): Record<string, any> {
+        return {
+            event: 'alert',
+            kind: message.kind,
+            window: message.window,
+            text: message.text,
+            token: {
+                contract: message.contract,
+                chain: message.chain,
+                symbol: message.snapshot?.symbol,
+            },
+            metrics: message.snapshot || null,
+            dexLink: message.dexLink,
+            plan: message.twitterId,
+            sentAt: new Date().toISOString(),
+        };
+    }
+
+    sign(secret: string, timestamp: string, body: string): string {
+        return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+    }
+
+    async send(channel: AlertChannel, message: AlertDeliveryMessage): Promise<DeliveryResult> {
+        const startedAt = Date.now();
+        // Re-checked on every send: the host may have been re-pointed since the channel was created
+        const checked = await resolvePublicTarget(channel.target);
+        if (checked.error) {
+            return { channelId: channel.channelId, type: this.type, success: false, error: checked.error, durationMs: 0, retryable: false };
+        }
+        const body = JSON.stringify(this.format(message));
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        const resp = await postJson(channel.target, body, {
+            'X-Alert-Timestamp': timestamp,
+            'X-Alert-Signature': this.sign(channel.secret || '', timestamp, body),
+        }, checked.addresses);
+        if (!resp.ok) {
+            logger.warn(`[Delivery][webhook] Failed to send for ${channel.twitterId}/${channel.token}: ${resp.error}`);
+        }
+        return {
+            channelId: channel.channelId,
+            type: this.type,
+            success: resp.ok,
+            statusCode: resp.status,
+            error: resp.ok ? undefined : resp.error,
+            durationMs: Date.now() - startedAt,
+            retryable: resp.ok ? undefined : isRetryableStatus(resp.status),
+            retryAt: resp.retryAfterMs ? Date.now() + resp.retryAfterMs : undefined,
+        };
+    }
+}
+
+export const webhookDeliveryAdapter = new WebhookDeliveryAdapter();
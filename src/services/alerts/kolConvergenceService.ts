@@ -0,0 +1,403 @@
+import { randomUUID } from 'crypto';
+import { questdbService } from '../questDbService';
+import { alertTemplateService } from './alertTemplateService';
+import { getStrategyForServiceType } from './planStrategies';
+import { tokenMetricsDexscreenerPoller } from '../tokenMetricsDexscreenerPoller';
+import { redis } from '../../utils/redisHelper';
+import { logger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { DEFAULT_PLAN_CHAIN, TradeChain, getDexLink, getTradeChainInfo, normalizeChain } from '../../utils/chains';
+import { ALERT_WINDOWS, AlertWindow, TokenMetricsSnapshot } from '../../models/alert.types';
+import { AlertDeliveryMessage } from '../../models/delivery.types';
+import { KolInfo } from '../../models/kols.types';
+import {
+    ConvergenceBuy,
+    ConvergenceSettings,
+    ConvergenceSettingsInput,
+    ConvergenceSignal,
+    ConvergenceSignalQuery,
+    ConvergenceThreshold,
+} from '../../models/convergence.types';
+
+const esc = (s: string) => s.replace(/'/g, "''");
+
+const BUYS_PREFIX = 'kol_convergence:buys:';
+const KOLS_PREFIX = 'kol_convergence:kols:';
+const FIRED_PREFIX = 'kol_convergence:fired:';
+// Subscriber settings are re-read at most this often by the detector
+const SETTINGS_CACHE_MS = 60 * 1000;
+const MAX_MIN_KOLS = 50;
+
+const WINDOW_MINUTES: Record<AlertWindow, number> = { '5m': 5, '1h': 60, '6h': 360, '24h': 1440 };
+
+// Smallest alert window covering the signal window; used for cooldown bookkeeping in alerts_sent
+const toAlertWindow = (minutes: number): AlertWindow =>
+    ALERT_WINDOWS.find(w => WINDOW_MINUTES[w] >= minutes) || '24h';
+
+export interface ConvergenceBuyEvent {
+    chain: TradeChain;
+    contract: string;
+    symbol: string;
+    kol: KolInfo;
+    boughtAt: number;
+}
+
+/**
+ * Smart-money convergence: fires when enough distinct KOLs buy the same token within a window.
+ *
+ * Buys are kept per token in a Redis sorted set (kolId scored by the time of its latest buy), so
+ * every ingestion instance sees the same window. The feed's recentBuyerKols carry no buy times and
+ * cannot be windowed, so only buys we ingest count. Each threshold in use (the defaults plus every
+ * subscriber's own) fires at most once per token and window; the signal is persisted and queued
+ * for subscribers holding a plan on the token through the regular alert checks.
+ */
+export class KolConvergenceService {
+    private settingsCache: { loadedAt: number; settings: Map<string, ConvergenceSettings> } | null = null;
+
+    getDefaults(twitterId: string): ConvergenceSettings {
+        return {
+            twitterId,
+            enabled: true,
+            minKols: config.convergence.minKols,
+            windowMinutes: config.convergence.windowMinutes,
+            cooldownMinutes: config.convergence.cooldownMinutes,
+            custom: false,
+        };
+    }
+
+    /**
+     * Validates a settings payload coming from the API.
+     * @returns A list of validation errors (empty when valid).
+     */
+    validateSettingsInput(input: ConvergenceSettingsInput): string[] {
+        const errors: string[] = [];
+        if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+            errors.push('enabled must be a boolean');
+        }
+        if (input.minKols !== undefined && (!Number.isInteger(input.minKols) || input.minKols < 2 || input.minKols > MAX_MIN_KOLS)) {
+            errors.push(`minKols must be an integer between 2 and ${MAX_MIN_KOLS}`);
+        }
+        const maxWindow = config.convergence.maxWindowMinutes;
+        if (input.windowMinutes !== undefined && (!Number.isInteger(input.windowMinutes) || input.windowMinutes < 1 || input.windowMinutes > maxWindow)) {
+            errors.push(`windowMinutes must be an integer between 1 and ${maxWindow}`);
+        }
+        if (input.cooldownMinutes !== undefined && (!Number.isInteger(input.cooldownMinutes) || input.cooldownMinutes < 0)) {
+            errors.push('cooldownMinutes must be a non-negative integer');
+        }
+        return errors;
+    }
+
+    /**
+     * Latest saved settings of every subscriber, keyed by lower-cased X username.
+     */
+    private async loadSettings(): Promise<Map<string, ConvergenceSettings>> {
+        const result = await questdbService.query(
+            `SELECT twitter_id, enabled, min_kols, window_minutes, cooldown_minutes, updated_by, timestamp
+             FROM kol_convergence_settings
+             LATEST ON timestamp PARTITION BY twitter_id;`
+        );
+        const settings: Map<string, ConvergenceSettings> = new Map();
+        for (const row of result.rows) {
+            settings.set(String(row[0]).toLowerCase(), {
+                twitterId: String(row[0]),
+                enabled: Boolean(row[1]),
+                minKols: Number(row[2]),
+                windowMinutes: Number(row[3]),
+                cooldownMinutes: Number(row[4]),
+                custom: true,
+                updatedBy: row[5] ? String(row[5]) : undefined,
+                updatedAt: new Date(row[6]).toISOString(),
+            });
+        }
+        return settings;
+    }
+
+    private async getCachedSettings(): Promise<Map<string, ConvergenceSettings>> {
+        if (!this.settingsCache || Date.now() - this.settingsCache.loadedAt > SETTINGS_CACHE_MS) {
+            this.settingsCache = { loadedAt: Date.now(), settings: await this.loadSettings() };
+        }
+        return this.settingsCache.settings;
+    }
+
+    /**
+     * Effective settings of each X account: saved ones, or the defaults.
+     */
+    async getSettings(twitterIds: string[]): Promise<ConvergenceSettings[]> {
+        const saved = await this.loadSettings();
+        return twitterIds.map(id => saved.get(id.toLowerCase()) || this.getDefaults(id));
+    }
+
+    /**
+     * Saves a subscriber's thresholds; fields left out keep their current value.
+     * Callers must validate the input first.
+     */
+    async saveSettings(twitterId: string, input: ConvergenceSettingsInput, updatedBy: string): Promise<ConvergenceSettings> {
+        const [current] = await this.getSettings([twitterId]);
+        const nowIso = new Date().toISOString();
+        const settings: ConvergenceSettings = {
+            twitterId,
+            enabled: input.enabled ?? current.enabled,
+            minKols: input.minKols ?? current.minKols,
+            windowMinutes: input.windowMinutes ?? current.windowMinutes,
+            cooldownMinutes: input.cooldownMinutes ?? current.cooldownMinutes,
+            custom: true,
+            updatedBy,
+            updatedAt: nowIso,
+        };
+        await questdbService.pgClient.query(
+            `INSERT INTO kol_convergence_settings (timestamp, twitter_id, enabled, min_kols, window_minutes, cooldown_minutes, updated_by)
+             VALUES ($1, $2, $3, $4, $5, $6, $7);`,
+            [nowIso, twitterId, settings.enabled, settings.minKols, settings.windowMinutes, settings.cooldownMinutes, updatedBy]
+        );
+        this.settingsCache = null;
+        logger.info(`[Convergence] ${twitterId} set to ${settings.minKols} KOLs in ${settings.windowMinutes}m (${settings.enabled ? 'enabled' : 'disabled'})`);
+        return settings;
+    }
+
+    /**
+     * Feeds one ingested buy to the detector and handles every threshold it completes.
+     * Never throws: convergence must not hold up ingestion.
+     */
+    async recordBuy(event: ConvergenceBuyEvent): Promise<ConvergenceSignal[]> {
+        try {
+            const buys = await this.addBuy(event);
+            const settings = await this.getCachedSettings();
+            const thresholds = this.getThresholds(settings);
+            const signals: ConvergenceSignal[] = [];
+            for (const threshold of thresholds) {
+                const cutoff = event.boughtAt - threshold.windowMinutes * 60 * 1000;
+                const inWindow = buys.filter(b => new Date(b.boughtAt).getTime() >= cutoff);
+                if (inWindow.length < threshold.minKols) continue;
+                if (!(await this.claimSignal(event, threshold))) continue;
+                const signal: ConvergenceSignal = {
+                    signalId: randomUUID(),
+                    chain: event.chain,
+                    contract: event.contract,
+                    symbol: event.symbol,
+                    minKols: threshold.minKols,
+                    windowMinutes: threshold.windowMinutes,
+                    kolCount: inWindow.length,
+                    buyers: inWindow,
+                    firstBuyAt: inWindow[0].boughtAt,
+                    lastBuyAt: inWindow[inWindow.length - 1].boughtAt,
+                    alertsQueued: 0,
+                    triggeredAt: new Date().toISOString(),
+                };
+                logger.info(`[Convergence] ${signal.kolCount} KOLs bought ${event.symbol || event.contract} (${event.chain}) within ${threshold.windowMinutes}m`);
+                signal.alertsQueued = await this.deliver(signal, settings);
+                await this.saveSignal(signal);
+                signals.push(signal);
+            }
+            return signals;
+        } catch (error: any) {
+            logger.warn(`[Convergence] Failed to evaluate buy of ${event.contract} by ${event.kol.id}: ${error?.message || error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Adds the buy to the token's window and returns the KOLs that bought within the longest window, oldest first.
+     */
+    private async addBuy(event: ConvergenceBuyEvent): Promise<ConvergenceBuy[]> {
+        const token = `${event.chain}:${event.contract}`;
+        const buysKey = `${BUYS_PREFIX}${token}`;
+        const kolsKey = `${KOLS_PREFIX}${token}`;
+        const ttlSeconds = config.convergence.maxWindowMinutes * 60;
+        const cutoff = event.boughtAt - ttlSeconds * 1000;
+        const results = await redis.multi()
+            .zadd(buysKey, event.boughtAt, event.kol.id)
+            .zremrangebyscore(buysKey, '-inf', `(${cutoff}`)
+            .hset(kolsKey, event.kol.id, JSON.stringify(event.kol))
+            .expire(buysKey, ttlSeconds)
+            .expire(kolsKey, ttlSeconds)
+            .zrangebyscore(buysKey, cutoff, '+inf', 'WITHSCORES')
+            .hgetall(kolsKey)
+            .exec();
+        const failed = results?.find(([error]) => error);
+        if (!results || failed) throw failed?.[0] || new Error('Redis transaction aborted');
+        const members = results[5][1] as string[];
+        const kols = results[6][1] as Record<string, string>;
+        const buys: ConvergenceBuy[] = [];
+        for (let i = 0; i < members.length; i += 2) {
+            const kolId = members[i];
+            let kol: KolInfo = { id: kolId, name: '', avatar: '', twitterId: '' };
+            try {
+                if (kols[kolId]) kol = JSON.parse(kols[kolId]);
+            } catch {
+                // Keep the id only
+            }
+            buys.push({ kol, boughtAt: new Date(Number(members[i + 1])).toISOString() });
+        }
+        return buys;
+    }
+
+    private getThresholds(settings: Map<string, ConvergenceSettings>): ConvergenceThreshold[] {
+        const thresholds: Map<string, ConvergenceThreshold> = new Map();
+        const defaults = this.getDefaults('');
+        for (const s of [defaults, ...Array.from(settings.values()).filter(s => s.enabled)]) {
+            thresholds.set(`${s.minKols}:${s.windowMinutes}`, { minKols: s.minKols, windowMinutes: s.windowMinutes });
+        }
+        return Array.from(thresholds.values());
+    }
+
+    /**
+     * One signal per token and threshold until the window has passed, across all instances.
+     */
+    private async claimSignal(event: ConvergenceBuyEvent, threshold: ConvergenceThreshold): Promise<boolean> {
+        const key = `${FIRED_PREFIX}${event.chain}:${event.contract}:${threshold.minKols}:${threshold.windowMinutes}`;
+        const result = await redis.set(key, event.boughtAt.toString(), 'EX', threshold.windowMinutes * 60, 'NX');
+        return result === 'OK';
+    }
+
+    /**
+     * Queues the signal for every active plan on the token whose owner uses this threshold.
+     * @returns the number of alerts queued
+     */
+    private async deliver(signal: ConvergenceSignal, settings: Map<string, ConvergenceSettings>): Promise<number> {
+        const res = await questdbService.query(
+            `SELECT twitter_id, token, chain, service_type
+             FROM user_posts_plans
+             WHERE lower(token) = '${esc(signal.contract.toLowerCase())}'
+             AND twitter_id IS NOT NULL
+             AND expire_at > now()
+             ORDER BY created_at DESC;`
+        );
+        const seen = new Set<string>();
+        let snapshot: TokenMetricsSnapshot | null | undefined;
+        let queued = 0;
+        for (const [twitterIdRaw, tokenRaw, chainRaw, serviceTypeRaw] of res.rows) {
+            const twitterId = String(twitterIdRaw || '');
+            const address = String(tokenRaw || '').trim();
+            const planChain = normalizeChain(chainRaw) || DEFAULT_PLAN_CHAIN;
+            // Latest plan per account; plans on a same-address token of another chain do not match
+            if (!twitterId || seen.has(twitterId.toLowerCase())) continue;
+            if (getTradeChainInfo(signal.chain as TradeChain).chain !== planChain) continue;
+            seen.add(twitterId.toLowerCase());
+
+            const subscriber = settings.get(twitterId.toLowerCase()) || this.getDefaults(twitterId);
+            if (!subscriber.enabled || subscriber.minKols !== signal.minKols || subscriber.windowMinutes !== signal.windowMinutes) continue;
+            const serviceType = String(serviceTypeRaw || '');
+            const strategy = getStrategyForServiceType(serviceType);
+            if (!strategy.allowedAlertTypes.includes('kolConvergence')) continue;
+
+            if (snapshot === undefined) snapshot = await alertTemplateService.getLatestSnapshot(signal.contract);
+            const window = toAlertWindow(signal.windowMinutes);
+            const dexLink = getDexLink(planChain, address);
+            const text = await alertTemplateService.renderAlert(
+                'kolConvergence',
+                snapshot || this.emptySnapshot(signal, address, planChain),
+                {
+                    window,
+                    value: signal.kolCount,
+                    dexLink,
+                    kolNames: signal.buyers.map(b => b.kol.name || b.kol.id),
+                    kolWindowMinutes: signal.windowMinutes,
+                },
+                twitterId,
+                address.toLowerCase()
+            );
+            const message: AlertDeliveryMessage = {
+                twitterId,
+                contract: address.toLowerCase(),
+                chain: planChain,
+                kind: 'kolConvergence',
+                window,
+                text,
+                snapshot: snapshot || undefined,
+                dexLink,
+            };
+            const outcome = await tokenMetricsDexscreenerPoller.queueEventAlert(message, serviceType, {
+                key: { twitterId, contract: address.toLowerCase(), alertType: 'kolConvergence', window },
+                value: signal.kolCount,
+                cooldownMinutes: subscriber.cooldownMinutes,
+                maxPosts: strategy.maxPosts,
+                requireChange: false,
+            });
+            if (outcome.queued) {
+                queued++;
+            } else {
+                logger.info(`[Convergence] Alert for ${twitterId}/${signal.contract} not queued: ${outcome.reason}`);
+            }
+        }
+        return queued;
+    }
+
+    // Tokens without token_metrics yet (not polled before) still get an alert
+    private emptySnapshot(signal: ConvergenceSignal, address: string, chain: string): TokenMetricsSnapshot {
+        const zero = { '5m': 0, '1h': 0, '6h': 0, '24h': 0 };
+        return {
+            contract: address,
+            chain,
+            symbol: signal.symbol || 'UNKNOWN',
+            priceUsd: 0,
+            marketCap: 0,
+            fdv: 0,
+            liquidityUsd: 0,
+            volume: { ...zero },
+            priceChange: { ...zero },
+            buyers: { ...zero },
+            sellers: { ...zero },
+        };
+    }
+
+    private async saveSignal(signal: ConvergenceSignal): Promise<void> {
+        try {
+            await questdbService.pgClient.query(
+                `INSERT INTO kol_convergence_signals (
+                    timestamp, signal_id, chain, contract, symbol, min_kols, window_minutes, kol_count, buyers,
+                    first_buy_at, last_buy_at, alerts_queued
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12);`,
+                [
+                    signal.triggeredAt, signal.signalId, signal.chain, signal.contract, signal.symbol, signal.minKols,
+                    signal.windowMinutes, signal.kolCount, JSON.stringify(signal.buyers), signal.firstBuyAt, signal.lastBuyAt,
+                    signal.alertsQueued
+                ]
+            );
+        } catch (error) {
+            logger.error(`[Convergence] Failed to store signal for ${signal.chain}:${signal.contract}`, error);
+        }
+    }
+
+    /**
+     * Stored signals, newest first.
+     */
+    async listSignals(query: ConvergenceSignalQuery): Promise<ConvergenceSignal[]> {
+        const conditions: string[] = [];
+        if (query.chain) conditions.push(`chain = '${esc(query.chain)}'`);
+        if (query.contract) conditions.push(`lower(contract) = '${esc(query.contract.toLowerCase())}'`);
+        if (query.from) conditions.push(`timestamp >= '${esc(query.from)}'`);
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const result = await questdbService.query(
+            `SELECT signal_id, chain, contract, symbol, min_kols, window_minutes, kol_count, buyers,
+                    first_buy_at, last_buy_at, alerts_queued, timestamp
+             FROM kol_convergence_signals
+             ${where}
+             ORDER BY timestamp DESC
+             LIMIT ${Math.max(1, Math.floor(query.limit))};`
+        );
+        return result.rows.map(row => {
+            let buyers: ConvergenceBuy[] = [];
+            try {
+                buyers = JSON.parse(String(row[7] || '[]'));
+            } catch {
+                // Leave empty
+            }
+            return {
+                signalId: String(row[0]),
+                chain: String(row[1]),
+                contract: String(row[2]),
+                symbol: String(row[3] || ''),
+                minKols: Number(row[4]),
+                windowMinutes: Number(row[5]),
+                kolCount: Number(row[6]),
+                buyers,
+                firstBuyAt: new Date(row[8]).toISOString(),
+                lastBuyAt: new Date(row[9]).toISOString(),
+                alertsQueued: Number(row[10] || 0),
+                triggeredAt: new Date(row[11]).toISOString(),
+            };
+        });
+    }
+}
+
+export const kolConvergenceService = new KolConvergenceService();
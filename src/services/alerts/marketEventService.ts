@@ -0,0 +1,79 @@
+import { questdbService } from '../questDbService';
+import { logger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { AlertWindow, MarketEvent, TokenMetricsSnapshot } from '../../models/alert.types';
+
+const esc = (s: string) => s.replace(/'/g, "''");
+
+// Dexscreener windows checked for pumps and dumps
+const PRICE_MOVE_WINDOWS: AlertWindow[] = ['5m', '1h'];
+
+export class MarketEventService {
+    /**
+     * Detects price pumps and dumps beyond the configured percentages.
+     * At most one event is returned per direction, preferring the shorter window.
+     */
+    detectPriceMoves(snapshot: TokenMetricsSnapshot): MarketEvent[] {
+        const events: MarketEvent[] = [];
+        for (const window of PRICE_MOVE_WINDOWS) {
+            const change = snapshot.priceChange[window];
+            if (change >= config.alerts.pumpPercent && !events.some(e => e.kind === 'pricePump')) {
+                events.push({ kind: 'pricePump', window, value: change });
+            } else if (change <= -config.alerts.dumpPercent && !events.some(e => e.kind === 'priceDump')) {
+                events.push({ kind: 'priceDump', window, value: change });
+            }
+        }
+        return events;
+    }
+
+    private async getReachedMilestones(twitterId: string, contract: string): Promise<Set<number>> {
+        const result = await questdbService.query(
+            `SELECT DISTINCT milestone FROM alert_milestones
+             WHERE twitter_id = '${esc(twitterId)}' AND contract = '${esc(contract.toLowerCase())}';`
+        );
+        return new Set(result.rows.map(row => Number(row[0])));
+    }
+
+    /**
+     * Returns the highest milestone crossed by the current market cap that has not been
+     * announced for this plan yet. Lower milestones crossed in the same jump are skipped
+     * and recorded together with it by markMilestoneReached().
+     */
+    async detectMilestone(twitterId: string, snapshot: TokenMetricsSnapshot): Promise<MarketEvent | null> {
+        const crossed = config.alerts.marketCapMilestones.filter(m => snapshot.marketCap >= m);
+        if (crossed.length === 0) return null;
+        try {
+            const reached = await this.getReachedMilestones(twitterId, snapshot.contract);
+            const pending = crossed.filter(m => !reached.has(m));
+            if (pending.length === 0) return null;
+            const milestone = pending[pending.length - 1];
+            return { kind: 'marketCapMilestone', window: '24h', value: milestone, milestone };
+        } catch (error) {
+            logger.error(`[Milestones] Failed to load milestones for ${twitterId}/${snapshot.contract}`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Records a milestone and every lower one as announced for the plan.
+     */
+    async markMilestoneReached(twitterId: string, contract: string, milestone: number, marketCap: number): Promise<void> {
+        const nowIso = new Date().toISOString();
+        const milestones = config.alerts.marketCapMilestones.filter(m => m <= milestone);
+        try {
+            const reached = await this.getReachedMilestones(twitterId, contract);
+            for (const m of milestones) {
+                if (reached.has(m)) continue;
+                await questdbService.pgClient.query(
+                    `INSERT INTO alert_milestones (timestamp, twitter_id, contract, milestone, market_cap, reached_at)
+                     VALUES ($1, $2, $3, $4, $5, $6);`,
+                    [nowIso, twitterId, contract.toLowerCase(), m, marketCap, nowIso]
+                );
+            }
+        } catch (error) {
+            logger.error(`[Milestones] Failed to record milestone ${milestone} for ${twitterId}/${contract}`, error);
+        }
+    }
+}
+
+export const marketEventService = new MarketEventService();
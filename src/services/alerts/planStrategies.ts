@@ -0,0 +1,61 @@
+import { alertRuleService } from './alertRuleService';
+import { config } from '../../utils/config';
+import { AlertKind, AlertRule } from '../../models/alert.types';
+
+/**
+ * Describes how the poller treats one family of plans: how often they are evaluated,
+ * which alert types they may post and any quota on top of total_posts_allowed.
+ */
+export interface PlanStrategy {
+    name: string;
+    // Evaluated on minutes divisible by this value (UTC)
+    intervalMinutes: number;
+    allowedAlertTypes: AlertKind[];
+    // Hard cap on posts regardless of the plan's total_posts_allowed
+    maxPosts?: number;
+    appliesTo(serviceType: string): boolean;
+    getRules(twitterId: string, token: string): Promise<AlertRule[]>;
+}
+
+// The scheduler runs a strategy on minutes divisible by its interval; anything that doesn't divide 60 falls back to hourly
+const PAID_INTERVAL_MINUTES = config.alerts.paidIntervalMinutes > 0 && 60 % config.alerts.paidIntervalMinutes === 0
+    ? config.alerts.paidIntervalMinutes
+    : 60;
+
+const freeTrialStrategy: PlanStrategy = {
+    name: 'freeTrial',
+    intervalMinutes: 5,
+    allowedAlertTypes: ['volume'],
+    maxPosts: 10,
+    appliesTo: serviceType => serviceType === 'freeTrial',
+    // Free trials get a fixed 5-minute volume alert and cannot configure rules
+    getRules: async (twitterId, token) => [{
+        ruleId: 'free-volume-5m',
+        twitterId,
+        token: token.toLowerCase(),
+        metric: 'volume',
+        operator: '>',
+        threshold: 0,
+        window: '5m',
+        cooldownMinutes: 5,
+        enabled: true,
+    }],
+};
+
+const paidStrategy: PlanStrategy = {
+    name: 'paid',
+    // Hourly unless ALERTS_PAID_INTERVAL_MINUTES says otherwise; shorter rule windows are evaluated at that cadence
+    intervalMinutes: PAID_INTERVAL_MINUTES,
+    allowedAlertTypes: ['volume', 'priceChange', 'buyers', 'marketCap', 'pricePump', 'priceDump', 'marketCapMilestone', 'kolConvergence'],
+    appliesTo: serviceType => serviceType !== 'freeTrial',
+    getRules: async (twitterId, token) => {
+        const rules = await alertRuleService.getRulesForPlan(twitterId, token);
+        return rules.filter(rule => paidStrategy.allowedAlertTypes.includes(rule.metric));
+    },
+};
+
+// Order matters: the first strategy whose appliesTo() matches a plan wins
+export const PLAN_STRATEGIES: PlanStrategy[] = [freeTrialStrategy, paidStrategy];
+
+export const getStrategyForServiceType = (serviceType: string): PlanStrategy =>
+    PLAN_STRATEGIES.find(strategy => strategy.appliesTo(serviceType)) || paidStrategy;
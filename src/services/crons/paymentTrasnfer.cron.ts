@@ -5,10 +5,12 @@ import { logger } from '../../utils/logger';
 import { QueryResult } from '../../models/db.types';
 import { config } from '../../utils/config';
 import { CronJob } from 'cron';
+import { leaderElectionService } from '../leaderElectionService';
 
 const RECIPIENT_WALLET_ADDRESS = '2msCrwxzu4ba5Zi7qFy8iEJYAqCmWbCMoykRHiLC1CCf';
 const BATCH_SIZE = 20;
 const BATCH_DELAY_MS = 1000;
+export const PAYMENT_TRANSFER_LEASE = 'payment-transfer';
 const RECIPIENT_PRIVATE_KEY_B58 = process.env.RECIPIENT_PRIVATE_KEY || '';
 const SOLANA_RPC_URL = config.SOLANA_RPC_URL;
 let RECIPIENT_KEYPAIR: Keypair;
@@ -30,7 +32,10 @@ export class paymentTransferService {
         this.connection = new Connection(SOLANA_RPC_URL, 'confirmed');
         this.recipientKeypair = RECIPIENT_KEYPAIR;
     }
-    async runTransferCron(): Promise<void> {
+    /**
+     * @param fencingToken Lease token the run was started under; batches are skipped once it is no longer current
+     */
+    async runTransferCron(fencingToken?: number): Promise<void> {
         try {
             await questdbService.init();
             logger.info('🚀 Starting SOL transfer cron job');
@@ -52,7 +57,7 @@ export class paymentTransferService {
             const batchPromises = [];
             for (let i = 0; i < payments.length; i += BATCH_SIZE) {
                 const batch = payments.slice(i, i + BATCH_SIZE);
-                batchPromises.push(this.processBatch(batch));
+                batchPromises.push(this.processBatch(batch, fencingToken));
             }
             // Run batches rate limits
             for (const promise of batchPromises) {
@@ -65,7 +70,7 @@ export class paymentTransferService {
             throw error;
         }
     }
-    private async processBatch(batch: Array<Record<string, any>>): Promise<void> {
+    private async processBatch(batch: Array<Record<string, any>>, fencingToken?: number): Promise<void> {
         if (batch.length === 0) return;
         const pubkeys: PublicKey[] = batch.map(payment => new PublicKey(payment.address));
         const accounts = await this.connection.getMultipleAccountsInfo(pubkeys, 'confirmed');
@@ -119,6 +124,10 @@ export class paymentTransferService {
             logger.info(`No valid payments with sufficient balance in this batch`);
             return;
         }
+        if (fencingToken !== undefined && !(await leaderElectionService.isFenceValid(PAYMENT_TRANSFER_LEASE, fencingToken))) {
+            logger.warn(`Transfer lease lost - skipping batch of ${validPayments.length} addresses`);
+            return;
+        }
         try {
             const recipientPubkey = this.recipientKeypair.publicKey;
             const { blockhash } = await this.connection.getLatestBlockhash('confirmed');
@@ -166,7 +175,7 @@ export const paymentTransferCron = new paymentTransferService();
 // Schedule the cron job to run every 10 minutes
 const job = new CronJob('*/10 * * * *', async () => {
     try {
-        await paymentTransferCron.runTransferCron();
+        await leaderElectionService.runIfLeader(PAYMENT_TRANSFER_LEASE, fencingToken => paymentTransferCron.runTransferCron(fencingToken));
     } catch (error) {
         logger.error('Cron job execution failed', error);
     }
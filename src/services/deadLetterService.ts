@@ -0,0 +1,134 @@
+import { randomUUID } from 'crypto';
+import { questdbService } from './questDbService';
+import { logger } from '../utils/logger';
+import {
+    DeadLetter,
+    DeadLetterCount,
+    DeadLetterQuery,
+    DeadLetterReason,
+    DeadLetterStatus,
+    KafkaMessageMeta,
+    MessageRejection,
+} from '../models/deadLetter.types';
+
+const esc = (s: string) => s.replace(/'/g, "''");
+
+const DEAD_LETTER_COLUMNS = `dead_letter_id, topic, kafka_partition, kafka_offset, reason, error, payload,
+    status, replay_count, timestamp, replayed_at, message_timestamp`;
+
+/**
+ * Kafka messages (or single trades of a batch) the consumer could not store, kept with the
+ * reason and their topic/partition/offset so they can be inspected and replayed after a fix.
+ */
+export class DeadLetterService {
+    private toDeadLetter(row: any[]): DeadLetter {
+        return {
+            id: String(row[0]),
+            topic: String(row[1]),
+            partition: Number(row[2] ?? -1),
+            offset: String(row[3] ?? ''),
+            reason: row[4],
+            error: String(row[5] || ''),
+            payload: String(row[6] || ''),
+            status: row[7],
+            replayCount: Number(row[8] || 0),
+            createdAt: new Date(row[9]).toISOString(),
+            replayedAt: row[10] ? new Date(row[10]).toISOString() : null,
+            messageTimestamp: row[11] ? new Date(row[11]).toISOString() : null,
+        };
+    }
+
+    /**
+     * @param messageTimestamp when the message was produced (ms since epoch), if known
+     */
+    async record(meta: KafkaMessageMeta, rejection: MessageRejection, messageTimestamp?: number): Promise<void> {
+        try {
+            await questdbService.pgClient.query(
+                `INSERT INTO kafka_dead_letters (
+                    timestamp, dead_letter_id, topic, kafka_partition, kafka_offset, reason, error, payload, status, replay_count,
+                    message_timestamp
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11);`,
+                [
+                    new Date().toISOString(), randomUUID(), meta.topic, meta.partition, meta.offset,
+                    rejection.reason, rejection.error, rejection.payload, 'pending', 0,
+                    messageTimestamp === undefined ? null : new Date(messageTimestamp).toISOString()
+                ]
+            );
+        } catch (error) {
+            logger.error(`[DeadLetter] Failed to store ${rejection.reason} message from ${meta.topic}/${meta.partition}@${meta.offset}`, error);
+        }
+    }
+
+    /**
+     * Newest first. Returns the requested page and the total number of matching rows.
+     */
+    async list(query: DeadLetterQuery): Promise<{ items: DeadLetter[]; total: number }> {
+        const conditions: string[] = [];
+        if (query.reason) conditions.push(`reason = '${esc(query.reason)}'`);
+        if (query.status) conditions.push(`status = '${esc(query.status)}'`);
+        if (query.topic) conditions.push(`topic = '${esc(query.topic)}'`);
+        if (query.from) conditions.push(`timestamp >= '${new Date(query.from).toISOString()}'`);
+        if (query.to) conditions.push(`timestamp <= '${new Date(query.to).toISOString()}'`);
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const countResult = await questdbService.query(`SELECT count() FROM kafka_dead_letters ${where};`);
+        const total = Number(countResult.rows[0]?.[0] || 0);
+
+        const lo = (query.page - 1) * query.limit;
+        const result = await questdbService.query(
+            `SELECT ${DEAD_LETTER_COLUMNS}
+             FROM kafka_dead_letters
+             ${where}
+             ORDER BY timestamp DESC
+             LIMIT ${lo}, ${lo + query.limit};`
+        );
+        return { items: result.rows.map(row => this.toDeadLetter(row)), total };
+    }
+
+    /**
+     * Number of dead letters per reason and status, to see how much data is being lost.
+     */
+    async countByReason(): Promise<DeadLetterCount[]> {
+        const result = await questdbService.query(
+            `SELECT reason, status, count() FROM kafka_dead_letters ORDER BY reason, status;`
+        );
+        return result.rows.map(row => ({ reason: row[0], status: row[1], count: Number(row[2] || 0) }));
+    }
+
+    /**
+     * Dead letters to replay, oldest first. Explicit ids are returned whatever their status.
+     */
+    async fetchForReplay(options: { ids?: string[]; reason?: DeadLetterReason; statuses: DeadLetterStatus[]; limit: number }): Promise<DeadLetter[]> {
+        const conditions: string[] = [];
+        if (options.ids && options.ids.length > 0) {
+            conditions.push(`dead_letter_id IN (${options.ids.map(id => `'${esc(id)}'`).join(', ')})`);
+        } else {
+            conditions.push(`status IN (${options.statuses.map(s => `'${esc(s)}'`).join(', ')})`);
+            if (options.reason) conditions.push(`reason = '${esc(options.reason)}'`);
+        }
+        const result = await questdbService.query(
+            `SELECT ${DEAD_LETTER_COLUMNS}
+             FROM kafka_dead_letters
+             WHERE ${conditions.join(' AND ')}
+             ORDER BY timestamp ASC
+             LIMIT ${Math.max(1, Math.floor(options.limit))};`
+        );
+        return result.rows.map(row => this.toDeadLetter(row));
+    }
+
+    async markReplayed(deadLetter: DeadLetter): Promise<void> {
+        await questdbService.query(
+            `UPDATE kafka_dead_letters SET status = 'replayed', replay_count = ${deadLetter.replayCount + 1}, replayed_at = now()
+             WHERE dead_letter_id = '${esc(deadLetter.id)}';`
+        );
+    }
+
+    async markFailed(deadLetter: DeadLetter, error: string): Promise<void> {
+        await questdbService.query(
+            `UPDATE kafka_dead_letters SET status = 'failed', replay_count = ${deadLetter.replayCount + 1}, replayed_at = now(), error = '${esc(error)}'
+             WHERE dead_letter_id = '${esc(deadLetter.id)}';`
+        );
+    }
+}
+
+export const deadLetterService = new DeadLetterService();
@@ -0,0 +1,154 @@
+import axios, { AxiosInstance } from 'axios';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+import { redis } from '../utils/redisHelper';
+import { normalizeChain } from '../utils/chains';
+import { DexPair, DexTokensResponse, PairSelectionOptions } from '../models/dexscreener.types';
+
+const CACHE_PREFIX = 'dexscreener:pairs:';
+const RATE_PREFIX = 'dexscreener:rate:';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Single entry point for Dexscreener token lookups. Splits requests into 30-address
+ * batches, keeps all instances under a shared per-minute budget, and caches pairs per
+ * token address in Redis for a few seconds so the poller and user traffic share results.
+ */
+class DexscreenerClient {
+  private client: AxiosInstance;
+  // Used when Redis is unreachable: per-process budget for the current minute
+  private localMinute = 0;
+  private localCount = 0;
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: config.baseUrls.dexscreener,
+      headers: { Accept: 'application/json' },
+      timeout: config.dexscreener.timeoutMs
+    });
+  }
+
+  /**
+   * All pairs for each address (as base or quote token), keyed by lowercased address.
+   * Addresses are sent in their original case, which Solana requires.
+   */
+  async getPairsByTokens(addresses: string[]): Promise<Map<string, DexPair[]>> {
+    const unique = Array.from(new Map(addresses.filter(Boolean).map(a => [a.toLowerCase(), a])).values());
+    const result: Map<string, DexPair[]> = new Map();
+    const misses: string[] = [];
+    for (const address of unique) {
+      const cached = await this.readCache(address);
+      if (cached) result.set(address.toLowerCase(), cached);
+      else misses.push(address);
+    }
+    for (let i = 0; i < misses.length; i += config.dexscreener.batchSize) {
+      const batch = misses.slice(i, i + config.dexscreener.batchSize);
+      const pairs = await this.fetchBatch(batch);
+      for (const address of batch) {
+        const key = address.toLowerCase();
+        const matching = pairs.filter(p =>
+          p.baseToken?.address?.toLowerCase() === key || p.quoteToken?.address?.toLowerCase() === key
+        );
+        result.set(key, matching);
+        await this.writeCache(address, matching);
+      }
+    }
+    return result;
+  }
+
+  async getPairsByToken(address: string): Promise<DexPair[]> {
+    const pairs = await this.getPairsByTokens([address]);
+    return pairs.get(address.toLowerCase()) || [];
+  }
+
+  /**
+   * Pairs with the given base token and chain, highest liquidity first.
+   */
+  filterPairs(pairs: DexPair[], options: PairSelectionOptions = {}): DexPair[] {
+    const base = options.baseToken?.toLowerCase();
+    const chain = options.chain ? normalizeChain(options.chain) : null;
+    return pairs
+      .filter(p => !base || p.baseToken?.address?.toLowerCase() === base)
+      .filter(p => !chain || normalizeChain(p.chainId) === chain)
+      .sort((a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0));
+  }
+
+  /**
+   * The pinned pair when it is among the candidates, otherwise the highest-liquidity one.
+   */
+  selectPair(pairs: DexPair[], options: PairSelectionOptions = {}): DexPair | null {
+    const candidates = this.filterPairs(pairs, options);
+    if (options.pinnedPairAddress) {
+      const pinned = candidates.find(p => p.pairAddress?.toLowerCase() === options.pinnedPairAddress!.toLowerCase());
+      if (pinned) return pinned;
+    }
+    return candidates[0] || null;
+  }
+
+  async getBestPair(address: string, options: Omit<PairSelectionOptions, 'baseToken'> = {}): Promise<DexPair | null> {
+    return this.selectPair(await this.getPairsByToken(address), { ...options, baseToken: address });
+  }
+
+  private async fetchBatch(addresses: string[], retried = false): Promise<DexPair[]> {
+    await this.acquireSlot();
+    try {
+      const response = await this.client.get<DexTokensResponse>(addresses.join(','));
+      logger.debug(`[Dexscreener] Fetched ${addresses.length} tokens: ${response.data.pairs?.length || 0} pairs`);
+      return response.data.pairs || [];
+    } catch (error: any) {
+      if (error?.response?.status === 429 && !retried) {
+        const waitMs = 60000 - (Date.now() % 60000);
+        logger.warn(`[Dexscreener] Rate limited, retrying in ${Math.ceil(waitMs / 1000)}s`);
+        await sleep(waitMs);
+        return this.fetchBatch(addresses, true);
+      }
+      logger.error(`[Dexscreener] Request for ${addresses.length} tokens failed: ${error?.message || error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Waits until a request fits in the current minute's budget.
+   */
+  private async acquireSlot(): Promise<void> {
+    for (;;) {
+      const minute = Math.floor(Date.now() / 60000);
+      let count: number;
+      try {
+        const key = `${RATE_PREFIX}${minute}`;
+        count = await redis.incr(key);
+        if (count === 1) await redis.expire(key, 120);
+      } catch {
+        if (this.localMinute !== minute) {
+          this.localMinute = minute;
+          this.localCount = 0;
+        }
+        count = ++this.localCount;
+      }
+      if (count <= config.dexscreener.requestsPerMinute) return;
+      const waitMs = (minute + 1) * 60000 - Date.now() + Math.floor(Math.random() * 500);
+      logger.warn(`[Dexscreener] Request budget for this minute used up, waiting ${Math.ceil(waitMs / 1000)}s`);
+      await sleep(waitMs);
+    }
+  }
+
+  private async readCache(address: string): Promise<DexPair[] | null> {
+    try {
+      const cached = await redis.get(CACHE_PREFIX + address.toLowerCase());
+      return cached ? JSON.parse(cached) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeCache(address: string, pairs: DexPair[]): Promise<void> {
+    try {
+      await redis.set(CACHE_PREFIX + address.toLowerCase(), JSON.stringify(pairs), 'EX', config.dexscreener.cacheTtlSeconds);
+    } catch (error: any) {
+      logger.debug(`[Dexscreener] Failed to cache pairs for ${address}: ${error?.message || error}`);
+    }
+  }
+}
+
+export const dexscreenerClient = new DexscreenerClient();
@@ -0,0 +1,93 @@
+import { createWriteStream, WriteStream } from 'fs';
+import { Kafka, Consumer, EachMessagePayload } from 'kafkajs';
+import { logger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { CapturedMessage, IngestedMessageHandler, TradeIngestionSource } from '../../models/ingestion.types';
+
+export interface KafkaTradeSourceOptions {
+    brokers: string[];
+    username: string;
+    password: string;
+    groupId: string;
+    topic: string;
+    // Appends every consumed message to this JSONL file (see FileTradeSource)
+    captureFile?: string;
+}
+
+/**
+ * ChainInsight KOL trade feed.
+ */
+export class KafkaTradeSource implements TradeIngestionSource {
+    readonly name: string;
+    private consumer: Consumer | null = null;
+    private capture: WriteStream | null = null;
+    private stopped: (() => void) | null = null;
+
+    constructor(private options: KafkaTradeSourceOptions = {
+        brokers: config.kafka.brokers,
+        username: config.kafka.username,
+        password: config.kafka.password,
+        groupId: config.kafka.groupId,
+        topic: config.kafka.topic,
+        captureFile: config.kafka.captureFile,
+    }) {
+        this.name = `kafka:${options.topic}`;
+    }
+
+    async run(handler: IngestedMessageHandler): Promise<void> {
+        if (this.options.brokers.length === 0) {
+            throw new Error('KAFKA_BROKER_URL is not set');
+        }
+        const kafka = new Kafka({
+            clientId: 'chaininsight-consumer',
+            brokers: this.options.brokers,
+            ssl: false, // SASL_PLAINTEXT
+            ...(this.options.username ? {
+                sasl: {
+                    mechanism: 'scram-sha-256' as const,
+                    username: this.options.username,
+                    password: this.options.password,
+                },
+            } : {}),
+        });
+        this.consumer = kafka.consumer({ groupId: this.options.groupId });
+        if (this.options.captureFile) {
+            this.capture = createWriteStream(this.options.captureFile, { flags: 'a' });
+            logger.info(`Capturing Kafka messages to ${this.options.captureFile}`);
+        }
+
+        const done = new Promise<void>(resolve => { this.stopped = resolve; });
+        await this.consumer.connect();
+        await this.consumer.subscribe({
+            topic: this.options.topic,
+            fromBeginning: true // Updated to 'earliest' equivalent
+        });
+        logger.info(`Kafka consumer connected to ChainInsight (${this.options.brokers.join(',')})`);
+
+        await this.consumer.run({
+            eachMessage: async ({ topic, partition, message }: EachMessagePayload) => {
+                const value = message.value?.toString();
+                const timestamp = Number(message.timestamp) || Date.now();
+                if (this.capture) {
+                    const line: CapturedMessage = { timestamp, topic, partition, offset: message.offset, value: value ?? null };
+                    this.capture.write(JSON.stringify(line) + '\n');
+                }
+                await handler({ value, meta: { topic, partition, offset: message.offset }, timestamp });
+            }
+        });
+        await done;
+    }
+
+    async stop(): Promise<void> {
+        if (this.consumer) {
+            await this.consumer.disconnect();
+            this.consumer = null;
+            logger.info('Kafka consumer disconnected');
+        }
+        if (this.capture) {
+            this.capture.end();
+            this.capture = null;
+        }
+        this.stopped?.();
+    }
+}
@@ -0,0 +1,281 @@
+import { logger } from '../utils/logger';
+import { redis } from '../utils/redisHelper';
+import { TradeChain } from '../utils/chains';
+import { kolTradeService } from '../api/services/kolsActivity.service';
+import type { KolInfo, LeaderboardPeriod } from '../models/kols.types';
+import type {
+    KolCluster,
+    KolCorrelation,
+    KolCorrelationResult,
+    KolOverlapAnalysis,
+    KolOverlapMember,
+    KolOverlapQuery,
+    KolPairOverlap,
+} from '../models/overlap.types';
+
+const OVERLAP_CACHE_PREFIX = 'kol_overlap:';
+const OVERLAP_CACHE_TTL_SECONDS = 120;
+// Most pairs returned by an overlap analysis, by similarity
+const MAX_PAIRS = 200;
+
+// One KOL's first buy of each token in the period, keyed by chain:contract
+interface KolBuys {
+    kol: KolInfo;
+    lastTradeAt: string;
+    buys: Map<string, number>;
+}
+
+/**
+ * Which KOLs buy the same tokens and in what order, from the first buy of each KOL and token in
+ * kol_trades. Similarity is the Jaccard index of the tokens two KOLs bought; lags compare their
+ * first buys of each shared token.
+ */
+export class KolOverlapService {
+    /**
+     * Co-occurrence matrix, leader/follower pairs and clusters of KOLs linked by similar buys
+     */
+    async getOverlap(query: KolOverlapQuery): Promise<KolOverlapAnalysis> {
+        const cacheKey = `${OVERLAP_CACHE_PREFIX}${query.period}:${query.chain || 'all'}:${query.minShared}:${query.minSimilarity}:${query.maxKols}`;
+        return this.cached(cacheKey, async () => {
+            const kols = await this.loadBuys(query.period, query.chain);
+            const lagsByPair = this.collectPairLags(kols);
+
+            const pairs: KolPairOverlap[] = [];
+            for (const [pairKey, lags] of lagsByPair) {
+                if (lags.length < query.minShared) continue;
+                const [a, b] = pairKey.split('|');
+                pairs.push(this.toPairOverlap(kols.get(a)!, kols.get(b)!, lags));
+            }
+            pairs.sort((x, y) => y.similarity - x.similarity || y.sharedTokens - x.sharedTokens);
+
+            const clusters = this.buildClusters(kols, lagsByPair, pairs.filter(p => p.similarity >= query.minSimilarity));
+            const clusterOf: Map<string, number> = new Map();
+            for (const cluster of clusters) {
+                for (const kol of cluster.kols) clusterOf.set(kol.id, cluster.id);
+            }
+
+            const members: KolOverlapMember[] = Array.from(kols.values())
+                .sort((x, y) => y.buys.size - x.buys.size || x.kol.id.localeCompare(y.kol.id))
+                .slice(0, query.maxKols)
+                .map(k => ({ kol: k.kol, tokensBought: k.buys.size, clusterId: clusterOf.get(k.kol.id) ?? null }));
+            const matrix = members.map(row => members.map(col => row.kol.id === col.kol.id
+                ? row.tokensBought
+                : lagsByPair.get(this.pairKey(row.kol.id, col.kol.id))?.length ?? 0));
+
+            logger.info(`[KolOverlap] ${query.period}${query.chain ? ` ${query.chain}` : ''}: ${kols.size} KOLs, ${pairs.length} pairs, ${clusters.length} clusters`);
+            return {
+                period: query.period,
+                chain: query.chain ?? null,
+                kols: members,
+                matrix,
+                pairs: pairs.slice(0, MAX_PAIRS),
+                clusters,
+            };
+        });
+    }
+
+    /**
+     * KOLs whose buys overlap most with one KOL's, most similar first
+     * @returns null when the KOL bought nothing in the period
+     */
+    async getCorrelatedKols(
+        kolId: string,
+        options: { period: LeaderboardPeriod; chain?: string; minShared: number; limit: number }
+    ): Promise<KolCorrelationResult | null> {
+        const cacheKey = `${OVERLAP_CACHE_PREFIX}kol:${kolId}:${options.period}:${options.chain || 'all'}:${options.minShared}:${options.limit}`;
+        return this.cached(cacheKey, async () => {
+            const kols = await this.loadBuys(options.period, options.chain);
+            const target = kols.get(kolId);
+            if (!target) return null;
+
+            const lagsByKol: Map<string, number[]> = new Map();
+            for (const other of kols.values()) {
+                if (other.kol.id === kolId) continue;
+                for (const [token, boughtAt] of target.buys) {
+                    const otherAt = other.buys.get(token);
+                    if (otherAt === undefined) continue;
+                    const lags = lagsByKol.get(other.kol.id) || [];
+                    lags.push(otherAt - boughtAt);
+                    lagsByKol.set(other.kol.id, lags);
+                }
+            }
+
+            const correlated: KolCorrelation[] = Array.from(lagsByKol.entries())
+                .filter(([, lags]) => lags.length >= options.minShared)
+                .map(([otherId, lags]) => {
+                    const other = kols.get(otherId)!;
+                    return {
+                        kol: other.kol,
+                        sharedTokens: lags.length,
+                        similarity: this.similarity(target, other, lags.length),
+                        leadCount: lags.filter(lag => lag > 0).length,
+                        followCount: lags.filter(lag => lag < 0).length,
+                        medianLagMinutes: this.median(lags) / 60000,
+                    };
+                })
+                .sort((x, y) => y.similarity - x.similarity || y.sharedTokens - x.sharedTokens)
+                .slice(0, options.limit);
+
+            return {
+                kol: target.kol,
+                period: options.period,
+                chain: options.chain ?? null,
+                tokensBought: target.buys.size,
+                correlated,
+            };
+        });
+    }
+
+    private async cached<T>(cacheKey: string, build: () => Promise<T>): Promise<T> {
+        try {
+            const cached = await redis.get(cacheKey);
+            if (cached) return JSON.parse(cached);
+        } catch {
+            // Cache is optional
+        }
+        const value = await build();
+        try {
+            await redis.set(cacheKey, JSON.stringify(value), 'EX', OVERLAP_CACHE_TTL_SECONDS);
+        } catch (error: any) {
+            logger.debug(`Failed to cache KOL overlap ${cacheKey}: ${error?.message || error}`);
+        }
+        return value;
+    }
+
+    /**
+     * First buy of each token per KOL; rows split by name or avatar changes are merged, keeping the latest profile
+     */
+    private async loadBuys(period: LeaderboardPeriod, chain?: string): Promise<Map<string, KolBuys>> {
+        await kolTradeService.init();
+        const aggregates = await kolTradeService.getKolTokenAggregates(period, chain as TradeChain | undefined);
+        const kols: Map<string, KolBuys> = new Map();
+        for (const a of aggregates) {
+            if (!a.firstBuyAt) continue;
+            let entry = kols.get(a.kolId);
+            if (!entry) {
+                entry = { kol: { id: a.kolId, name: a.kolName, avatar: a.kolAvatar, twitterId: a.kolTwitterId }, lastTradeAt: a.lastTradeAt, buys: new Map() };
+                kols.set(a.kolId, entry);
+            }
+            if (a.lastTradeAt > entry.lastTradeAt) {
+                entry.kol = { id: a.kolId, name: a.kolName, avatar: a.kolAvatar, twitterId: a.kolTwitterId };
+                entry.lastTradeAt = a.lastTradeAt;
+            }
+            const token = `${a.chain}:${a.contract.toLowerCase()}`;
+            const boughtAt = new Date(a.firstBuyAt).getTime();
+            entry.buys.set(token, Math.min(entry.buys.get(token) ?? boughtAt, boughtAt));
+        }
+        return kols;
+    }
+
+    /**
+     * For every pair of KOLs with a token in common: per shared token, the second KOL's first buy
+     * minus the first KOL's (ms). Keyed by pairKey.
+     */
+    private collectPairLags(kols: Map<string, KolBuys>): Map<string, number[]> {
+        const buyersByToken: Map<string, Array<{ kolId: string; boughtAt: number }>> = new Map();
+        for (const { kol, buys } of kols.values()) {
+            for (const [token, boughtAt] of buys) {
+                const buyers = buyersByToken.get(token) || [];
+                buyers.push({ kolId: kol.id, boughtAt });
+                buyersByToken.set(token, buyers);
+            }
+        }
+        const lagsByPair: Map<string, number[]> = new Map();
+        for (const buyers of buyersByToken.values()) {
+            for (let i = 0; i < buyers.length; i++) {
+                for (let j = i + 1; j < buyers.length; j++) {
+                    const [a, b] = buyers[i].kolId < buyers[j].kolId ? [buyers[i], buyers[j]] : [buyers[j], buyers[i]];
+                    const key = this.pairKey(a.kolId, b.kolId);
+                    const lags = lagsByPair.get(key) || [];
+                    lags.push(b.boughtAt - a.boughtAt);
+                    lagsByPair.set(key, lags);
+                }
+            }
+        }
+        return lagsByPair;
+    }
+
+    private pairKey(kolA: string, kolB: string): string {
+        return kolA < kolB ? `${kolA}|${kolB}` : `${kolB}|${kolA}`;
+    }
+
+    // Lags are b minus a; the pair is reported from the side of whoever bought first more often
+    private toPairOverlap(a: KolBuys, b: KolBuys, lags: number[]): KolPairOverlap {
+        const aFirst = lags.filter(lag => lag > 0).length;
+        const bFirst = lags.filter(lag => lag < 0).length;
+        const aLeads = aFirst >= bFirst;
+        return {
+            leader: aLeads ? a.kol : b.kol,
+            follower: aLeads ? b.kol : a.kol,
+            sharedTokens: lags.length,
+            similarity: this.similarity(a, b, lags.length),
+            leaderFirstCount: aLeads ? aFirst : bFirst,
+            followerFirstCount: aLeads ? bFirst : aFirst,
+            medianLagMinutes: (aLeads ? this.median(lags) : -this.median(lags)) / 60000,
+        };
+    }
+
+    /**
+     * Connected groups of KOLs over the given links, largest first
+     */
+    private buildClusters(kols: Map<string, KolBuys>, lagsByPair: Map<string, number[]>, links: KolPairOverlap[]): KolCluster[] {
+        const parent: Map<string, string> = new Map();
+        const find = (id: string): string => {
+            const p = parent.get(id) ?? id;
+            if (p === id) return id;
+            const root = find(p);
+            parent.set(id, root);
+            return root;
+        };
+        for (const link of links) {
+            const a = find(link.leader.id);
+            const b = find(link.follower.id);
+            if (a !== b) parent.set(a, b);
+        }
+
+        const groups: Map<string, string[]> = new Map();
+        for (const link of links) {
+            for (const id of [link.leader.id, link.follower.id]) {
+                const root = find(id);
+                const group = groups.get(root) || [];
+                if (!group.includes(id)) group.push(id);
+                groups.set(root, group);
+            }
+        }
+
+        return Array.from(groups.values())
+            .map(ids => {
+                const similarities: number[] = [];
+                const lags: number[] = [];
+                for (let i = 0; i < ids.length; i++) {
+                    for (let j = i + 1; j < ids.length; j++) {
+                        const pairLags = lagsByPair.get(this.pairKey(ids[i], ids[j])) || [];
+                        similarities.push(this.similarity(kols.get(ids[i])!, kols.get(ids[j])!, pairLags.length));
+                        lags.push(...pairLags.map(Math.abs));
+                    }
+                }
+                return {
+                    id: 0,
+                    kols: ids.map(id => kols.get(id)!.kol),
+                    avgSimilarity: similarities.reduce((sum, s) => sum + s, 0) / similarities.length,
+                    medianLagMinutes: this.median(lags) / 60000,
+                };
+            })
+            .sort((x, y) => y.kols.length - x.kols.length || y.avgSimilarity - x.avgSimilarity)
+            .map((cluster, i) => ({ ...cluster, id: i + 1 }));
+    }
+
+    private similarity(a: KolBuys, b: KolBuys, shared: number): number {
+        const union = a.buys.size + b.buys.size - shared;
+        return union > 0 ? shared / union : 0;
+    }
+
+    private median(values: number[]): number {
+        if (values.length === 0) return 0;
+        const sorted = [...values].sort((x, y) => x - y);
+        const mid = Math.floor(sorted.length / 2);
+        return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+}
+
+export const kolOverlapService = new KolOverlapService();
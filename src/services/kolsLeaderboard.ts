@@ -1,13 +1,72 @@
 import { logger } from '../utils/logger';
-import type { KolLeaderboardResponse } from '../models/kols.types';
+import type {
+    GlobalLeaderboardEntry,
+    GlobalLeaderboardQuery,
+    KolLeaderboardResponse,
+    KolTokenAggregate,
+    KolTradeStat,
+    LeaderboardPeriod,
+    LeaderboardSort,
+} from '../models/kols.types';
 import { config } from '../utils/config';
+import { redis } from '../utils/redisHelper';
+import { TradeChain } from '../utils/chains';
+import { DUST_RATIO, kolTradeService } from '../api/services/kolsActivity.service';
+import { tokenMetricsHistoryService } from './tokenMetricsHistoryService';
+
+const GLOBAL_CACHE_PREFIX = 'leaderboard:global:';
+const GLOBAL_CACHE_TTL_SECONDS = 60;
+
+type LeaderboardRow = Omit<GlobalLeaderboardEntry, 'rank'>;
 
 export class KolService {
+    /**
+     * KOLs trading a token, computed from our own kol_trades. With enrich (and CABALSPY_API_KEY set),
+     * KOLs only CabalSpy knows about are appended; a CabalSpy failure never fails the request.
+     * Entry amounts are USD traded.
+     */
+    async getLeaderboards(contractAddress: string, chain?: TradeChain, enrich: boolean = false): Promise<KolLeaderboardResponse> {
+        await kolTradeService.init();
+        const aggregates = this.mergeAggregates(await kolTradeService.getKolTokenAggregates('all', chain, contractAddress));
+        const tradeStatList: KolTradeStat[] = aggregates
+            .map(a => ({
+                kolName: a.kolName,
+                action: this.classify(a),
+                amount: a.buyUsd + a.sellUsd,
+            }))
+            .sort((a, b) => b.amount - a.amount);
+        const response: KolLeaderboardResponse = {
+            buyerCount: aggregates.filter(a => a.boughtAmount > 0).length,
+            sellerCount: aggregates.filter(a => a.soldAmount > 0).length,
+            clearCount: tradeStatList.filter(s => s.action === 'full_sell').length,
+            tradeStatList,
+            sources: ['native'],
+        };
+
+        if (enrich && config.cabalSpyApiKey && chain !== 'ETH') {
+            try {
+                // CabalSpy covers Solana, the default before chains could be passed, and BSC
+                const external = await this.getCabalSpyLeaderboards(contractAddress, chain === 'BSC' ? 'BSC' : 'Solana');
+                const known = new Set(tradeStatList.map(s => s.kolName.toLowerCase()));
+                const added = (external.tradeStatList || []).filter(s => s.kolName && !known.has(s.kolName.toLowerCase()));
+                response.tradeStatList.push(...added);
+                response.buyerCount += added.filter(s => s.action === 'buy' || s.action === 'add').length;
+                response.sellerCount += added.filter(s => s.action !== 'buy' && s.action !== 'add').length;
+                response.clearCount = (response.clearCount || 0) + added.filter(s => s.action === 'full_sell').length;
+                response.sources!.push('cabalspy');
+            } catch (error) {
+                logger.warn(`CabalSpy enrichment failed for ${contractAddress}, returning native leaderboard`, error);
+            }
+        }
+        logger.info(`Built KOL leaderboard for ${contractAddress}${chain ? ` (${chain})` : ''}: ${response.tradeStatList.length} KOLs`);
+        return response;
+    }
+
     /**
      * Fetches the KOL leaderboards for a specific contract address directly
      * via the CabalSpy test-endpoint API.
      */
-    async getLeaderboards(contractAddress: string, chain: 'Solana' | 'BSC' = 'Solana'): Promise<KolLeaderboardResponse> {
+    private async getCabalSpyLeaderboards(contractAddress: string, chain: 'Solana' | 'BSC' = 'Solana'): Promise<KolLeaderboardResponse> {
         const endpointUrl = `${config.baseUrls.cabalSpy}/api/Token/KOL_Leaderboard_bnb?mint=${contractAddress}&api_key=${config.cabalSpyApiKey}`;
 
         const res = await fetch("https://apidashboard.cabalspy.xyz/test-endpoint", {
@@ -20,14 +79,145 @@ export class KolService {
         });
 
         const data = await res.json() as KolLeaderboardResponse;
-        logger.info(`Fetched KOL leaderboard for ${contractAddress} (${chain})`);
+        logger.info(`Fetched CabalSpy KOL leaderboard for ${contractAddress} (${chain})`);
         return data;
     }
 
     /**
-     * Disabled since QuestDB dependency is removed.
+     * KOLs ranked over a period by PnL, win rate, volume or early entry, from our own kol_trades.
+     * PnL replays each KOL's trades in the period in order with average cost, as the KOL profile does;
+     * open holdings are valued at the latest token_metrics price.
      */
-    async getGlobalLeaderboards(chain: string, limit: number = 50): Promise<KolLeaderboardResponse[]> {
-        throw new Error("getGlobalLeaderboards is disabled (QuestDB removed).");
+    async getGlobalLeaderboards(query: GlobalLeaderboardQuery): Promise<{ items: GlobalLeaderboardEntry[]; total: number }> {
+        const rows = await this.getGlobalRows(query.period, query.chain as TradeChain | undefined);
+        const ranked = this.sortRows(rows, query.sortBy).map((row, i) => ({ rank: i + 1, ...row }));
+        const lo = (query.page - 1) * query.limit;
+        return { items: ranked.slice(lo, lo + query.limit), total: ranked.length };
+    }
+
+    private async getGlobalRows(period: LeaderboardPeriod, chain?: TradeChain): Promise<LeaderboardRow[]> {
+        const cacheKey = `${GLOBAL_CACHE_PREFIX}${period}:${chain || 'all'}`;
+        try {
+            const cached = await redis.get(cacheKey);
+            if (cached) return JSON.parse(cached);
+        } catch {
+            // Cache is optional
+        }
+
+        await kolTradeService.init();
+        const aggregates = this.mergeAggregates(await kolTradeService.getKolTokenAggregates(period, chain));
+        const tradesByKol = await kolTradeService.getTradesByKol(period, chain);
+        const held = Array.from(tradesByKol.values())
+            .flatMap(trades => kolTradeService.buildPositions(trades, new Map()))
+            .filter(p => p.holdingAmount > 0)
+            .map(p => p.contract);
+        const prices = await tokenMetricsHistoryService.getLatestPrices(held);
+        const earlyScores = this.getEarlyEntryScores(aggregates);
+
+        const byKol: Map<string, { row: LeaderboardRow; earlyScores: number[] }> = new Map();
+        for (const a of aggregates) {
+            let entry = byKol.get(a.kolId);
+            if (!entry) {
+                entry = {
+                    row: {
+                        kol: { id: a.kolId, name: a.kolName, avatar: a.kolAvatar, twitterId: a.kolTwitterId },
+                        pnlUsd: 0, realisedPnlUsd: 0, unrealisedPnlUsd: 0, winRate: null, wins: 0, losses: 0,
+                        volumeUsd: 0, trades: 0, tokensTraded: 0, earlyEntryScore: null, lastTradeAt: a.lastTradeAt,
+                    },
+                    earlyScores: [],
+                };
+                byKol.set(a.kolId, entry);
+            }
+            const { row } = entry;
+            if (a.lastTradeAt >= row.lastTradeAt) {
+                row.kol = { id: a.kolId, name: a.kolName, avatar: a.kolAvatar, twitterId: a.kolTwitterId };
+                row.lastTradeAt = a.lastTradeAt;
+            }
+            row.volumeUsd += a.buyUsd + a.sellUsd;
+            row.trades += a.trades;
+            row.tokensTraded++;
+            const score = earlyScores.get(`${a.chain}:${a.contract}:${a.kolId}`);
+            if (score !== undefined) entry.earlyScores.push(score);
+        }
+
+        const rows = Array.from(byKol.values()).map(({ row, earlyScores: scores }) => {
+            const positions = kolTradeService.buildPositions(tradesByKol.get(row.kol.id) || [], prices);
+            const pnl = kolTradeService.summarisePositions(positions);
+            return {
+                ...row,
+                ...pnl,
+                pnlUsd: pnl.realisedPnlUsd + pnl.unrealisedPnlUsd,
+                earlyEntryScore: scores.length > 0 ? (scores.reduce((sum, s) => sum + s, 0) / scores.length) * 100 : null,
+            };
+        });
+        try {
+            await redis.set(cacheKey, JSON.stringify(rows), 'EX', GLOBAL_CACHE_TTL_SECONDS);
+        } catch (error: any) {
+            logger.debug(`Failed to cache global leaderboard ${cacheKey}: ${error?.message || error}`);
+        }
+        return rows;
+    }
+
+    /**
+     * Per token bought by at least two KOLs: 1 for the first buyer down to 0 for the last,
+     * keyed by chain:contract:kolId.
+     */
+    private getEarlyEntryScores(aggregates: KolTokenAggregate[]): Map<string, number> {
+        const buyersByToken: Map<string, KolTokenAggregate[]> = new Map();
+        for (const a of aggregates) {
+            if (!a.firstBuyAt) continue;
+            const key = `${a.chain}:${a.contract}`;
+            buyersByToken.set(key, [...(buyersByToken.get(key) || []), a]);
+        }
+        const scores: Map<string, number> = new Map();
+        for (const [token, buyers] of buyersByToken) {
+            if (buyers.length < 2) continue;
+            buyers.sort((x, y) => x.firstBuyAt!.localeCompare(y.firstBuyAt!));
+            buyers.forEach((b, i) => scores.set(`${token}:${b.kolId}`, 1 - i / (buyers.length - 1)));
+        }
+        return scores;
+    }
+
+    private sortRows(rows: LeaderboardRow[], sortBy: LeaderboardSort): LeaderboardRow[] {
+        const nullsLast = (a: number | null, b: number | null) => (b ?? -Infinity) - (a ?? -Infinity);
+        const comparators: Record<LeaderboardSort, (a: LeaderboardRow, b: LeaderboardRow) => number> = {
+            pnl: (a, b) => b.pnlUsd - a.pnlUsd,
+            winRate: (a, b) => nullsLast(a.winRate, b.winRate) || (b.wins + b.losses) - (a.wins + a.losses),
+            volume: (a, b) => b.volumeUsd - a.volumeUsd,
+            earlyEntry: (a, b) => nullsLast(a.earlyEntryScore, b.earlyEntryScore) || b.tokensTraded - a.tokensTraded,
+        };
+        return [...rows].sort((a, b) => comparators[sortBy](a, b) || b.pnlUsd - a.pnlUsd);
+    }
+
+    /**
+     * Collapses rows of the same KOL and token (split by name/avatar changes), keeping the latest profile.
+     */
+    private mergeAggregates(aggregates: KolTokenAggregate[]): KolTokenAggregate[] {
+        const merged: Map<string, KolTokenAggregate> = new Map();
+        for (const a of aggregates) {
+            const key = `${a.kolId}:${a.chain}:${a.contract}`;
+            const existing = merged.get(key);
+            if (!existing) {
+                merged.set(key, { ...a });
+                continue;
+            }
+            const latest = a.lastTradeAt > existing.lastTradeAt ? a : existing;
+            merged.set(key, {
+                ...latest,
+                buyUsd: existing.buyUsd + a.buyUsd,
+                sellUsd: existing.sellUsd + a.sellUsd,
+                boughtAmount: existing.boughtAmount + a.boughtAmount,
+                soldAmount: existing.soldAmount + a.soldAmount,
+                trades: existing.trades + a.trades,
+                firstBuyAt: [existing.firstBuyAt, a.firstBuyAt].filter((t): t is string => !!t).sort()[0] || null,
+            });
+        }
+        return Array.from(merged.values());
+    }
+
+    private classify(a: KolTokenAggregate): KolTradeStat['action'] {
+        if (a.soldAmount > 0 && a.soldAmount >= a.boughtAmount * (1 - DUST_RATIO)) return 'full_sell';
+        if (a.soldAmount > 0) return 'partial_sell';
+        return 'buy';
     }
 }
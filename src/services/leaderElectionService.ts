@@ -0,0 +1,177 @@
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { redis } from '../utils/redisHelper';
+import { logger } from '../utils/logger';
+import { config } from '../utils/config';
+import { LeaseStatus } from '../models/leader.types';
+
+const LEASE_PREFIX = 'leader:lease:';
+const FENCE_PREFIX = 'leader:fence:';
+
+// Takes the lease when free (issuing a new fencing token) or extends it when already ours.
+// KEYS: lease, fence counter. ARGV: instance id, ttl ms. Returns the fencing token or nil.
+const ACQUIRE_SCRIPT = `
+local holder = redis.call('HGET', KEYS[1], 'holder')
+if not holder then
+  local token = redis.call('INCR', KEYS[2])
+  redis.call('HSET', KEYS[1], 'holder', ARGV[1], 'token', token)
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return token
+end
+if holder == ARGV[1] then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return tonumber(redis.call('HGET', KEYS[1], 'token'))
+end
+return nil`;
+
+// Extends the lease only if we still hold it with the same token. KEYS: lease. ARGV: instance id, token, ttl ms.
+const RENEW_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'holder') == ARGV[1] and redis.call('HGET', KEYS[1], 'token') == ARGV[2] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[3])
+end
+return 0`;
+
+// KEYS: lease. ARGV: instance id.
+const RELEASE_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'holder') == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+/**
+ * Redis leases that make sure only one instance runs each scheduled job.
+ * A lease is kept while the holder renews it; if the holder dies, another instance
+ * takes over after the TTL with a higher fencing token, so late writes from the old
+ * holder can be detected with isFenceValid().
+ */
+export class LeaderElectionService {
+    readonly instanceId = config.leader.instanceId || `${hostname()}:${process.pid}:${randomBytes(3).toString('hex')}`;
+    // Leases held by this instance -> fencing token
+    private held: Map<string, number> = new Map();
+    // Every lease name a job has asked for, so status can report on all of them
+    private known: Set<string> = new Set();
+    private renewTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * Acquires or extends a lease. Returns the fencing token, or null when another instance
+     * holds it or Redis is unreachable (jobs must not run without the lease).
+     */
+    async acquire(name: string): Promise<number | null> {
+        this.known.add(name);
+        try {
+            const token = await redis.eval(ACQUIRE_SCRIPT, 2, LEASE_PREFIX + name, FENCE_PREFIX + name, this.instanceId, config.leader.leaseTtlMs);
+            if (token === null || token === undefined) {
+                if (this.held.delete(name)) {
+                    logger.warn(`[Leader] Lost lease ${name}`);
+                }
+                return null;
+            }
+            const fencingToken = Number(token);
+            if (this.held.get(name) !== fencingToken) {
+                logger.info(`[Leader] ${this.instanceId} acquired lease ${name} (fencing token ${fencingToken})`);
+            }
+            this.held.set(name, fencingToken);
+            this.ensureRenewal();
+            return fencingToken;
+        } catch (error: any) {
+            logger.error(`[Leader] Failed to acquire lease ${name}: ${error?.message || error}`);
+            this.held.delete(name);
+            return null;
+        }
+    }
+
+    /**
+     * Runs the job only if this instance holds (or can take) the lease.
+     * @returns true if the job ran.
+     */
+    async runIfLeader(name: string, job: (fencingToken: number) => Promise<void>): Promise<boolean> {
+        const token = await this.acquire(name);
+        if (token === null) {
+            logger.debug(`[Leader] Skipping ${name}: lease held by another instance`);
+            return false;
+        }
+        await job(token);
+        return true;
+    }
+
+    /**
+     * Whether the token is still the current one for the lease and held by this instance.
+     * Check it right before side effects that must not be repeated by two instances.
+     */
+    async isFenceValid(name: string, fencingToken: number): Promise<boolean> {
+        try {
+            const [holder, token] = await redis.hmget(LEASE_PREFIX + name, 'holder', 'token');
+            return holder === this.instanceId && Number(token) === fencingToken;
+        } catch (error: any) {
+            logger.error(`[Leader] Failed to check fencing token for ${name}: ${error?.message || error}`);
+            return false;
+        }
+    }
+
+    private ensureRenewal() {
+        if (this.renewTimer) return;
+        this.renewTimer = setInterval(() => {
+            this.renewAll().catch(err => logger.error('[Leader] Lease renewal failed', err));
+        }, config.leader.renewIntervalMs);
+        this.renewTimer.unref();
+    }
+
+    private async renewAll(): Promise<void> {
+        for (const [name, token] of Array.from(this.held.entries())) {
+            try {
+                const renewed = await redis.eval(RENEW_SCRIPT, 1, LEASE_PREFIX + name, this.instanceId, String(token), config.leader.leaseTtlMs);
+                if (Number(renewed) !== 1) {
+                    this.held.delete(name);
+                    logger.warn(`[Leader] Lease ${name} (fencing token ${token}) expired or was taken over`);
+                }
+            } catch (error: any) {
+                logger.error(`[Leader] Failed to renew lease ${name}: ${error?.message || error}`);
+            }
+        }
+    }
+
+    /**
+     * Gives up every lease held by this instance so another one can take over immediately.
+     */
+    async releaseAll(): Promise<void> {
+        if (this.renewTimer) {
+            clearInterval(this.renewTimer);
+            this.renewTimer = null;
+        }
+        for (const name of Array.from(this.held.keys())) {
+            try {
+                await redis.eval(RELEASE_SCRIPT, 1, LEASE_PREFIX + name, this.instanceId);
+                logger.info(`[Leader] Released lease ${name}`);
+            } catch (error: any) {
+                logger.error(`[Leader] Failed to release lease ${name}: ${error?.message || error}`);
+            }
+        }
+        this.held.clear();
+    }
+
+    async getStatus(): Promise<LeaseStatus[]> {
+        const statuses: LeaseStatus[] = [];
+        for (const name of Array.from(this.known).sort()) {
+            try {
+                const [[, fields], [, ttl]] = (await redis.multi()
+                    .hmget(LEASE_PREFIX + name, 'holder', 'token')
+                    .pttl(LEASE_PREFIX + name)
+                    .exec()) as [[Error | null, (string | null)[]], [Error | null, number]];
+                const [holder, token] = fields;
+                statuses.push({
+                    name,
+                    holder: holder || null,
+                    fencingToken: token ? Number(token) : null,
+                    expiresInMs: ttl > 0 ? ttl : null,
+                    isLeader: holder === this.instanceId,
+                });
+            } catch (error: any) {
+                logger.error(`[Leader] Failed to read lease ${name}: ${error?.message || error}`);
+                statuses.push({ name, holder: null, fencingToken: null, expiresInMs: null, isLeader: this.held.has(name) });
+            }
+        }
+        return statuses;
+    }
+}
+
+export const leaderElectionService = new LeaderElectionService();
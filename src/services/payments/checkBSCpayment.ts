@@ -3,6 +3,7 @@ import { ethers } from 'ethers';
 import { logger } from '../../utils/logger';
 import { questdbService } from '../questDbService';
 import { config } from '../../utils/config';
+import { leaderElectionService } from '../leaderElectionService';
 import type { QueryResult } from '../../models/db.types';
 
 const BATCH_SIZE = 50;
@@ -18,11 +19,14 @@ export class BscPaymentCheckerService {
     }
 
     startCron(): void {
-        this.runCheck().catch((error) => logger.error('❌ Initial run failed', error));
+        leaderElectionService.runIfLeader('bsc-payment-check', () => this.runCheck()).catch((error) => logger.error('❌ Initial run failed', error));
         this.cronJob = new CronJob('*/1 * * * *', async () => {
             try {
-                logger.info('🕐 Running BSC payment check cron...');
-                await this.runCheck();
+                // Only the lease holder checks payments so replicas don't confirm the same one twice
+                await leaderElectionService.runIfLeader('bsc-payment-check', async () => {
+                    logger.info('🕐 Running BSC payment check cron...');
+                    await this.runCheck();
+                });
             } catch (error) {
                 logger.error('❌ Cron execution failed', error);
             }
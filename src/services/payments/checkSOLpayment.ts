@@ -3,6 +3,7 @@ import { Connection, PublicKey, LAMPORTS_PER_SOL, AccountInfo } from '@solana/we
 import { logger } from '../../utils/logger';
 import { questdbService } from '../questDbService';
 import { config } from '../../utils/config';
+import { leaderElectionService } from '../leaderElectionService';
 import type { QueryResult } from '../../models/db.types';
 
 const BATCH_SIZE = 50;
@@ -18,12 +19,15 @@ export class SolanaPaymentCheckerService {
     }
 
     startCron(): void {
-        this.runCheck().catch((error) => logger.error('❌ Initial run failed', error));
+        leaderElectionService.runIfLeader('sol-payment-check', () => this.runCheck()).catch((error) => logger.error('❌ Initial run failed', error));
 
         this.cronJob = new CronJob('*/1 * * * *', async () => {
             try {
-                logger.info('🕐 Running Solana payment check cron...');
-                await this.runCheck();
+                // Only the lease holder checks payments so replicas don't confirm the same one twice
+                await leaderElectionService.runIfLeader('sol-payment-check', async () => {
+                    logger.info('🕐 Running Solana payment check cron...');
+                    await this.runCheck();
+                });
             } catch (error) {
                 logger.error('❌ Cron execution failed', error);
             }
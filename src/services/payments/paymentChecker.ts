@@ -4,6 +4,7 @@ import { logger } from '../../utils/logger';
 import { questdbService } from '../questDbService';
 import { config } from '../../utils/config';  // Assuming config has RPC URLs
 import type { QueryResult } from '../../models/db.types';
+import { DEFAULT_PLAN_CHAIN, normalizeChain } from '../../utils/chains';
 
 type Chain = 'BSC' | 'SOL';
 
@@ -70,7 +71,7 @@ export class PaymentChecker {  // Renamed from SynchronousPaymentChecker
             const statusRes: QueryResult = await questdbService.query(checkStatusSql);
             if (statusRes.rows.length > 0 && statusRes.rows[0][0] === true) {
                 logger.info(`[Check] Payment already confirmed in DB for ${twitterId} (${address})`);
-                await this.handlePurchaseCreation(twitterId, amount, serviceType, address, token, twitter_community);
+                await this.handlePurchaseCreation(chain, twitterId, amount, serviceType, address, token, twitter_community);
                 return true;
             }
 
@@ -107,7 +108,7 @@ export class PaymentChecker {  // Renamed from SynchronousPaymentChecker
                 }
 
                 // Handle purchase creation
-                await this.handlePurchaseCreation(twitterId, amount, serviceType, address, token, twitter_community);
+                await this.handlePurchaseCreation(chain, twitterId, amount, serviceType, address, token, twitter_community);
                 return true;
             }
 
@@ -120,6 +121,7 @@ export class PaymentChecker {  // Renamed from SynchronousPaymentChecker
     }
 
     private async handlePurchaseCreation(
+        chain: Chain,
         twitterId: string,
         amount: number,
         serviceType: string,
@@ -141,13 +143,15 @@ export class PaymentChecker {  // Renamed from SynchronousPaymentChecker
         if (!exists) {
             // Get email from payment_history
             const emailQuery = `
-            SELECT email FROM payment_history 
+            SELECT email, token_chain FROM payment_history 
             WHERE twitterId = '${twitterId.replace(/'/g, "''")}'
             AND address = '${address.replace(/'/g, "''")}'
             LIMIT 1;
         `;
             const emailResult = await questdbService.query(emailQuery);
             const email = emailResult.rows[0]?.[0] || '';
+            // Payments made before token_chain existed alerted tokens on the payment chain
+            const planChain = normalizeChain(emailResult.rows[0]?.[1]) || normalizeChain(chain) || DEFAULT_PLAN_CHAIN;
 
             const now = new Date();
             const nowIso = now.toISOString();
@@ -191,6 +195,7 @@ export class PaymentChecker {  // Renamed from SynchronousPaymentChecker
                 total_posts_allowed: totalPostsAllowed,
                 total_posts_count: 0,
                 token,
+                chain: planChain,
                 twitter_community,
                 email  // Added email from payment_history
             };
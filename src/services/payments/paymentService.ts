@@ -2,6 +2,7 @@ import { Keypair } from '@solana/web3.js';
 import { Wallet } from 'ethers';
 import { logger } from '../../utils/logger';
 import { questdbService } from '../questDbService';
+import { PlanChain } from '../../utils/chains';
 
 type Chain = 'BSC' | 'SOL';
 
@@ -15,6 +16,7 @@ export class WalletService {
         token: string,
         twitter_community: string,
         email: string,
+        tokenChain: PlanChain,
     ): Promise<{
         chain: Chain;
         twitterId: string;
@@ -25,6 +27,7 @@ export class WalletService {
         publicKey: string;
         address: string;
         token: string;
+        tokenChain: PlanChain;
         twitter_community: string;
     }> {
         let publicKey: string;
@@ -58,6 +61,7 @@ export class WalletService {
             publicKey,  // Add this line
             wallet,
             token,
+            token_chain: tokenChain,  // Chain of the alerted token, may differ from the payment chain
             twitter_community,
             privateKey,  // Store securely; consider hashing or encryption
             paymentStatus: false,
@@ -82,6 +86,7 @@ export class WalletService {
             serviceType,
             address,
             token,
+            tokenChain,
             twitter_community,
             privateKey: privateKey.substring(0, 10) + '...',
         });
@@ -96,6 +101,7 @@ export class WalletService {
             publicKey,
             address,
             token,
+            tokenChain,
             twitter_community,
         };
     }
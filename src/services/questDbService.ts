@@ -2,10 +2,22 @@ import { Sender } from '@questdb/nodejs-client';
 import { Client } from 'pg';
 import { config } from '../utils/config';
 import { logger } from '../utils/logger';
+import { DEFAULT_PLAN_CHAIN } from '../utils/chains';
+import { parseDecimal } from '../utils/numbers';
 import type { QueryResult, TableRow } from '../models/db.types';
 import { TokenInfoResponse } from '../models/token.types';
+import type { DexPair } from '../models/dexscreener.types';
 // Supported chains
 type Chain = 'BSC' | 'ETH' | 'SOL';
+// kol_trades keeps the feed's raw strings ("1.5K", "0.0₄5643"); each has a DOUBLE twin parsed at ingest
+export const KOL_TRADE_NUMERIC_COLUMNS: Record<string, string> = {
+  amount: 'amountNum',
+  usdtPrice: 'usdtPriceNum',
+  initialPrice: 'initialPriceNum',
+  fromTokenCount: 'fromTokenCountNum',
+  toTokenCount: 'toTokenCountNum',
+  toTokenRemainCount: 'toTokenRemainCountNum',
+};
 export class QuestDBService {
   private sender?: Sender;
   public pgClient: Client;
@@ -80,7 +92,8 @@ export class QuestDBService {
   }
   private async createTables(): Promise<void> {
     const wal = config.questdb.enableWal ? ' WAL' : '';
-    // kol_trades (no unique index in QuestDB; enforce at app level)
+    // kol_trades (no unique index in QuestDB; a trade is unique on (txHash, kolId, chain), enforced at app level
+    // and by DEDUP on the message time, which redeliveries share)
     const kolTradesCreateSql = `CREATE TABLE IF NOT EXISTS kol_trades (
         timestamp TIMESTAMP,
         kolId LONG,
@@ -103,9 +116,20 @@ export class QuestDBService {
         walletType INT,
         recentBuyerKols STRING,
         recentSellerKols STRING,
-        chain SYMBOL
+        chain SYMBOL,
+        amountNum DOUBLE,
+        usdtPriceNum DOUBLE,
+        initialPriceNum DOUBLE,
+        fromTokenCountNum DOUBLE,
+        toTokenCountNum DOUBLE,
+        toTokenRemainCountNum DOUBLE
       ) TIMESTAMP(timestamp) PARTITION BY DAY${wal};`;
     await this.pgClient.query(kolTradesCreateSql);
+    // Rows written before these columns existed are filled by the backfill-kol-trade-numbers job
+    for (const column of Object.values(KOL_TRADE_NUMERIC_COLUMNS)) {
+      await this.addColumnIfNotExists('kol_trades', column, 'DOUBLE');
+    }
+    await this.enableKolTradesDedup();
     logger.debug(`✅ Table created: kol_trades`);
     // google_users table (DISABLE WAL to avoid suspension on upserts/ALTERs)
     const usersCreateSql = `CREATE TABLE IF NOT EXISTS google_users (
@@ -203,8 +227,9 @@ export class QuestDBService {
           narrative_data STRING,
           title STRING,
           updated_at TIMESTAMP,
-          CTO STRING
-        ) TIMESTAMP(timestamp) PARTITION BY DAY;`  // No WAL for upserts
+          CTO STRING,
+          source SYMBOL
+        ) TIMESTAMP(timestamp) PARTITION BY DAY;`  // Append-only time series: one row per poll ('poller') or token lookup ('lookup')
       },
       {
         name: 'payment_history',
@@ -254,8 +279,196 @@ export class QuestDBService {
           total_posts_allowed INT,
           total_posts_count INT,
           twitter_community STRING,
-          token STRING
+          token STRING,
+          chain SYMBOL
         ) TIMESTAMP(timestamp) PARTITION BY DAY;`  // No WAL for upserts
+      },
+      {
+        name: 'alert_rules',
+        create: `CREATE TABLE IF NOT EXISTS alert_rules (
+          timestamp TIMESTAMP,
+          rule_id SYMBOL,
+          twitter_id STRING,
+          token STRING,
+          metric SYMBOL,
+          operator SYMBOL,
+          threshold DOUBLE,
+          time_window SYMBOL,
+          cooldown_minutes INT,
+          enabled BOOLEAN,
+          created_at TIMESTAMP,
+          updated_at TIMESTAMP
+        ) TIMESTAMP(timestamp) PARTITION BY MONTH;`  // No WAL for updates (soft delete)
+      },
+      {
+        name: 'alert_templates',
+        create: `CREATE TABLE IF NOT EXISTS alert_templates (
+          timestamp TIMESTAMP,
+          template_id SYMBOL,
+          twitter_id STRING,
+          token STRING,
+          alert_kind SYMBOL,
+          body STRING,
+          enabled BOOLEAN,
+          created_at TIMESTAMP,
+          updated_at TIMESTAMP
+        ) TIMESTAMP(timestamp) PARTITION BY MONTH;`  // No WAL for updates (override replacement)
+      },
+      {
+        name: 'alerts_sent',
+        create: `CREATE TABLE IF NOT EXISTS alerts_sent (
+          timestamp TIMESTAMP,
+          twitter_id SYMBOL,
+          contract SYMBOL,
+          alert_type SYMBOL,
+          time_window SYMBOL,
+          metric_value DOUBLE,
+          message STRING,
+          sent_at TIMESTAMP
+        ) TIMESTAMP(timestamp) PARTITION BY MONTH${wal};`
+      },
+      {
+        name: 'alert_milestones',
+        create: `CREATE TABLE IF NOT EXISTS alert_milestones (
+          timestamp TIMESTAMP,
+          twitter_id SYMBOL,
+          contract SYMBOL,
+          milestone DOUBLE,
+          market_cap DOUBLE,
+          reached_at TIMESTAMP
+        ) TIMESTAMP(timestamp) PARTITION BY MONTH${wal};`
+      },
+      {
+        name: 'alert_channels',
+        create: `CREATE TABLE IF NOT EXISTS alert_channels (
+          timestamp TIMESTAMP,
+          channel_id SYMBOL,
+          twitter_id STRING,
+          token STRING,
+          channel_type SYMBOL,
+          target STRING,
+          secret STRING,
+          enabled BOOLEAN,
+          created_at TIMESTAMP,
+          updated_at TIMESTAMP
+        ) TIMESTAMP(timestamp) PARTITION BY MONTH;`  // No WAL for updates (soft delete)
+      },
+      {
+        name: 'alert_deliveries',
+        create: `CREATE TABLE IF NOT EXISTS alert_deliveries (
+          timestamp TIMESTAMP,
+          channel_id SYMBOL,
+          channel_type SYMBOL,
+          twitter_id SYMBOL,
+          contract SYMBOL,
+          alert_type SYMBOL,
+          success BOOLEAN,
+          status_code INT,
+          external_id STRING,
+          error STRING,
+          duration_ms LONG
+        ) TIMESTAMP(timestamp) PARTITION BY DAY${wal};`
+      },
+      {
+        name: 'alert_outbox',
+        create: `CREATE TABLE IF NOT EXISTS alert_outbox (
+          timestamp TIMESTAMP,
+          outbox_id SYMBOL,
+          alert_id SYMBOL,
+          twitter_id SYMBOL,
+          contract SYMBOL,
+          service_type SYMBOL,
+          channel_id SYMBOL,
+          channel_type SYMBOL,
+          target STRING,
+          payload STRING,
+          status SYMBOL,
+          attempts INT,
+          next_attempt_at TIMESTAMP,
+          last_error STRING,
+          last_status_code INT,
+          external_id STRING,
+          created_at TIMESTAMP,
+          updated_at TIMESTAMP,
+          delivered_at TIMESTAMP
+        ) TIMESTAMP(timestamp) PARTITION BY MONTH;`  // No WAL for updates (delivery status)
+      },
+      {
+        name: 'kafka_dead_letters',
+        create: `CREATE TABLE IF NOT EXISTS kafka_dead_letters (
+          timestamp TIMESTAMP,
+          dead_letter_id SYMBOL,
+          topic SYMBOL,
+          kafka_partition INT,
+          kafka_offset STRING,
+          reason SYMBOL,
+          error STRING,
+          payload STRING,
+          status SYMBOL,
+          replay_count INT,
+          replayed_at TIMESTAMP,
+          message_timestamp TIMESTAMP
+        ) TIMESTAMP(timestamp) PARTITION BY MONTH;`  // No WAL for updates (replay status)
+      },
+      {
+        name: 'alert_controls',
+        create: `CREATE TABLE IF NOT EXISTS alert_controls (
+          timestamp TIMESTAMP,
+          control_key SYMBOL,
+          scope SYMBOL,
+          twitter_id SYMBOL,
+          token SYMBOL,
+          paused BOOLEAN,
+          reason STRING,
+          updated_by STRING
+        ) TIMESTAMP(timestamp) PARTITION BY MONTH${wal};`
+      },
+      {
+        name: 'alert_history',
+        create: `CREATE TABLE IF NOT EXISTS alert_history (
+          timestamp TIMESTAMP,
+          alert_id SYMBOL,
+          twitter_id SYMBOL,
+          contract SYMBOL,
+          chain SYMBOL,
+          service_type SYMBOL,
+          alert_type SYMBOL,
+          time_window SYMBOL,
+          channel_id SYMBOL,
+          channel_type SYMBOL,
+          external_id STRING,
+          message STRING,
+          snapshot STRING
+        ) TIMESTAMP(timestamp) PARTITION BY MONTH${wal};`
+      },
+      {
+        name: 'kol_convergence_settings',
+        create: `CREATE TABLE IF NOT EXISTS kol_convergence_settings (
+          timestamp TIMESTAMP,
+          twitter_id SYMBOL,
+          enabled BOOLEAN,
+          min_kols INT,
+          window_minutes INT,
+          cooldown_minutes INT,
+          updated_by STRING
+        ) TIMESTAMP(timestamp) PARTITION BY MONTH${wal};`
+      },
+      {
+        name: 'kol_convergence_signals',
+        create: `CREATE TABLE IF NOT EXISTS kol_convergence_signals (
+          timestamp TIMESTAMP,
+          signal_id SYMBOL,
+          chain SYMBOL,
+          contract SYMBOL,
+          symbol STRING,
+          min_kols INT,
+          window_minutes INT,
+          kol_count INT,
+          buyers STRING,
+          first_buy_at TIMESTAMP,
+          last_buy_at TIMESTAMP,
+          alerts_queued INT
+        ) TIMESTAMP(timestamp) PARTITION BY MONTH${wal};`
       }
     ];
     try {
@@ -269,7 +482,11 @@ export class QuestDBService {
       await this.addColumnIfNotExists('userPurchase', 'token', 'STRING');
       await this.addColumnIfNotExists('payment_history', 'twitter_community', 'STRING');
       await this.addColumnIfNotExists('userPurchase', 'twitter_community', 'STRING');
+      await this.addColumnIfNotExists('user_posts_plans', 'chain', 'SYMBOL');
+      await this.addColumnIfNotExists('payment_history', 'token_chain', 'SYMBOL');
       await this.addColumnIfNotExists('token_metrics', 'volume_1h', 'DOUBLE');
+      await this.addColumnIfNotExists('token_metrics', 'source', 'SYMBOL');
+      await this.addColumnIfNotExists('kafka_dead_letters', 'message_timestamp', 'TIMESTAMP');
       for (const table of tables) {
         try {
           logger.debug(`Creating table: ${table.name}`);
@@ -301,14 +518,42 @@ export class QuestDBService {
       throw error;
     }
   }
+  /**
+   * Turns on DEDUP UPSERT KEYS for kol_trades (WAL tables only). Rows carry the time of their Kafka message,
+   * which every redelivery of that message shares, so concurrent redeliveries that both pass the
+   * (txHash, kolId, chain) check in insertBatch still collapse into one row.
+   */
+  async enableKolTradesDedup(table: string = 'kol_trades'): Promise<void> {
+    try {
+      await this.pgClient.query(`ALTER TABLE ${table} DEDUP ENABLE UPSERT KEYS(timestamp, txHash, kolId, chain);`);
+    } catch (error: any) {
+      logger.warn(`[QuestDB] Could not enable DEDUP on ${table}: ${error?.message || error}`);
+    }
+  }
+  /**
+   * True when kol_trades already holds the trade. One row per (txHash, kolId, chain): a single
+   * transaction can be a trade for several KOLs.
+   */
+  async hasKolTrade(txHash: string, kolId: string | number, chain: string): Promise<boolean> {
+    const id = typeof kolId === 'string' ? parseInt(kolId, 10) : kolId;
+    const result = await this.pgClient.query(
+      `SELECT count(*) as c FROM kol_trades WHERE txHash = $1 AND kolId = $2 AND chain = $3;`,
+      [txHash, id, chain]
+    );
+    return result.rows[0]?.c > 0;
+  }
   private ensureInit(): void {
     if (!this.initialized) {
       throw new Error('QuestDBService not initialized — call await questdbService.init() before using it.');
     }
   }
-  async insertBatch(table: string, rows: Array<Record<string, any>>): Promise<void> {
+  /**
+   * @returns how many rows were written; kol_trades rows already stored are skipped and not counted
+   */
+  async insertBatch(table: string, rows: Array<Record<string, any>>): Promise<number> {
     this.ensureInit();
-    if (rows.length === 0) return;
+    if (rows.length === 0) return 0;
+    let written = 0;
     try {
       for (const row of rows) {
         // Special handling for google_users table (upsert on email)
@@ -337,9 +582,10 @@ export class QuestDBService {
             const insertSql = `INSERT INTO google_users (created_at, username, email, verified, updated_at, twitter_addresses) VALUES ($1, $2, $3, $4, $5, $6);`;
             await this.pgClient.query(insertSql, [createdAt, username, email, verified, updatedAt, twitterAddresses]);
           }
+          written++;
           continue;
         }
-        // Special upsert for token_metrics (parameterized UPDATE)
+        // token_metrics is a time series: every save appends a row
         if (table === 'token_metrics') {
           const nowIso = new Date().toISOString();
           const ts = String(row.timestamp ?? nowIso);
@@ -351,105 +597,24 @@ export class QuestDBService {
           const volume5m = row.volume_5m != null ? Number(row.volume_5m) : null;
           const volume1h = row.volume_1h != null ? Number(row.volume_1h) : null;
           const volume24h = row.volume_24h != null ? Number(row.volume_24h) : null;
-          const title = row.title != null ? String(row.title) : '';
-          const CTOStr = row.CTO != null ? String(row.CTO) : '';
-          const callCount = Number(row.call_count || 0);
-          const kolCallsCount = Number(row.kol_calls_count || 0);
-          const mentionUserCount = Number(row.mention_user_count || 0);
-          const callsData = JSON.stringify(row.calls_data || {});
-          const communityData = JSON.stringify(row.community_data || {});
-          const narrativeData = JSON.stringify(row.narrative_data || {});
-          const checkSql = `SELECT count(*) as c FROM token_metrics WHERE contract = $1 AND chain = $2;`;
-          const checkRes = await this.pgClient.query(checkSql, [contract, chain]);
-          const exists = checkRes.rows[0]?.c > 0;
-          if (exists) {
-            // Build parameterized UPDATE
-            let setClause = 'updated_at = $1';
-            const params: any[] = [nowIso];
-            let paramIndex = 2;
-            if (row.price_usd != null) {
-              setClause += `, price_usd = $${paramIndex}`;
-              params.push(priceUsd);
-              paramIndex++;
-            }
-            if (row.market_cap != null) {
-              setClause += `, market_cap = $${paramIndex}`;
-              params.push(marketCap);
-              paramIndex++;
-            }
-            if (row.fdv != null) {
-              setClause += `, fdv = $${paramIndex}`;
-              params.push(fdv);
-              paramIndex++;
-            }
-            if (row.volume_5m != null) {
-              setClause += `, volume_5m = $${paramIndex}`;
-              params.push(volume5m);
-              paramIndex++;
-            }
-            if (row.volume_1h != null) {
-              setClause += `, volume_1h = $${paramIndex}`;
-              params.push(volume1h);
-              paramIndex++;
-            }
-            if (row.volume_24h != null) {
-              setClause += `, volume_24h = $${paramIndex}`;
-              params.push(volume24h);
-              paramIndex++;
-            }
-            if (row.title != null) {
-              setClause += `, title = $${paramIndex}`;
-              params.push(title);
-              paramIndex++;
-            }
-            if (row.CTO != null) {
-              setClause += `, CTO = $${paramIndex}`;
-              params.push(CTOStr);
-              paramIndex++;
-            }
-            if (row.call_count != null) {
-              setClause += `, call_count = $${paramIndex}`;
-              params.push(callCount);
-              paramIndex++;
-            }
-            if (row.kol_calls_count != null) {
-              setClause += `, kol_calls_count = $${paramIndex}`;
-              params.push(kolCallsCount);
-              paramIndex++;
-            }
-            if (row.mention_user_count != null) {
-              setClause += `, mention_user_count = $${paramIndex}`;
-              params.push(mentionUserCount);
-              paramIndex++;
-            }
-            if (row.calls_data != null) {
-              setClause += `, calls_data = $${paramIndex}`;
-              params.push(callsData);
-              paramIndex++;
-            }
-            if (row.community_data != null) {
-              setClause += `, community_data = $${paramIndex}`;
-              params.push(communityData);
-              paramIndex++;
-            }
-            if (row.narrative_data != null) {
-              setClause += `, narrative_data = $${paramIndex}`;
-              params.push(narrativeData);
-              paramIndex++;
-            }
-            const updateSql = `UPDATE token_metrics SET ${setClause} WHERE contract = $${paramIndex} AND chain = $${paramIndex + 1};`;
-            params.push(contract, chain);
-            await this.pgClient.query(updateSql, params);
-          } else {
-            const insertSql = `INSERT INTO token_metrics (
-              timestamp, contract, chain, price_usd, market_cap, fdv, volume_5m, volume_1h, volume_24h,
-              call_count, kol_calls_count, mention_user_count, calls_data, community_data, narrative_data, title, updated_at, CTO
-            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19);`;
-            await this.pgClient.query(insertSql, [
-              ts, contract, chain, priceUsd, marketCap, fdv, volume5m, volume1h, volume24h,
-              callCount, kolCallsCount, mentionUserCount, callsData, communityData, narrativeData, title, nowIso, CTOStr
-            ]);
-          }
+          const title = row.title != null ? String(row.title) : null;
+          const CTOStr = row.CTO != null ? String(row.CTO) : null;
+          const callCount = row.call_count != null ? Number(row.call_count) : null;
+          const kolCallsCount = row.kol_calls_count != null ? Number(row.kol_calls_count) : null;
+          const mentionUserCount = row.mention_user_count != null ? Number(row.mention_user_count) : null;
+          const callsData = row.calls_data != null ? JSON.stringify(row.calls_data) : null;
+          const communityData = row.community_data != null ? JSON.stringify(row.community_data) : null;
+          const narrativeData = row.narrative_data != null ? JSON.stringify(row.narrative_data) : null;
+          const source = row.source != null ? String(row.source) : null;
+          const insertSql = `INSERT INTO token_metrics (
+            timestamp, contract, chain, price_usd, market_cap, fdv, volume_5m, volume_1h, volume_24h,
+            call_count, kol_calls_count, mention_user_count, calls_data, community_data, narrative_data, title, updated_at, CTO, source
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19);`;
+          await this.pgClient.query(insertSql, [
+            ts, contract, chain, priceUsd, marketCap, fdv, volume5m, volume1h, volume24h,
+            callCount, kolCallsCount, mentionUserCount, callsData, communityData, narrativeData, title, nowIso, CTOStr, source
+          ]);
+          written++;
           continue;
         }
         // Special insert for payment_history and userPurchase
@@ -469,9 +634,9 @@ export class QuestDBService {
           let sql: string;
           let values: any[];
           if (table === 'payment_history') {
-            sql = `INSERT INTO payment_history (timestamp, twitterId, email, amount, serviceType, chain, wallet, address, publicKey, privateKey, paymentStatus, status, twitter_community, token)
-                   VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14);`;
-            values = [ts, twitterId, email, amount, serviceType, chain, wallet, address, publicKey, privateKey, false, status, row.twitter_community || '', row.token || ''];
+            sql = `INSERT INTO payment_history (timestamp, twitterId, email, amount, serviceType, chain, wallet, address, publicKey, privateKey, paymentStatus, status, twitter_community, token, token_chain)
+                   VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15);`;
+            values = [ts, twitterId, email, amount, serviceType, chain, wallet, address, publicKey, privateKey, false, status, row.twitter_community || '', row.token || '', row.token_chain || null];
           } else {
             const createdAt = new Date(nowIso);
             const expireAt = new Date(createdAt.getTime() + (30 * 24 * 60 * 60 * 1000));
@@ -483,6 +648,7 @@ export class QuestDBService {
             values = [nextId, twitterId, email, amount, address, nowIso, expireAtIso, serviceType, row.twitter_community || '', row.token || ''];
           }
           await this.pgClient.query(sql, values);
+          written++;
           continue;
         }
         // Handle user_posts_plans table
@@ -497,6 +663,7 @@ export class QuestDBService {
           const expireAt = String(row.expire_at || new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString());
           const totalPostsAllowed = Number(row.total_posts_allowed || 336);
           const totalPostsCount = Number(row.total_posts_count || 0);
+          const planChain = String(row.chain || DEFAULT_PLAN_CHAIN);
           // Check if a plan already exists for this user and service type
           const checkSql = `SELECT count(*) as c FROM user_posts_plans WHERE twitter_id = $1 AND service_type = $2;`;
           const checkRes = await this.pgClient.query(checkSql, [twitterId, serviceType]);
@@ -504,12 +671,12 @@ export class QuestDBService {
             // Update existing plan (parameterized)
             const updateSql = `
               UPDATE user_posts_plans
-              SET email = $1, expire_at = $2, total_posts_allowed = $3, total_posts_count = $4, twitter_community = $5, token = $6
-              WHERE twitter_id = $7 AND service_type = $8;
+              SET email = $1, expire_at = $2, total_posts_allowed = $3, total_posts_count = $4, twitter_community = $5, token = $6, chain = $7
+              WHERE twitter_id = $8 AND service_type = $9;
             `;
             await this.pgClient.query(updateSql, [
               email, expireAt, totalPostsAllowed, totalPostsCount,
-              row.twitter_community || '', row.token || '', twitterId, serviceType
+              row.twitter_community || '', row.token || '', planChain, twitterId, serviceType
             ]);
           } else {
             // Insert new plan
@@ -517,15 +684,16 @@ export class QuestDBService {
               INSERT INTO user_posts_plans (
                 timestamp, twitter_id, username, email, service_type,
                 created_at, expire_at, total_posts_allowed, total_posts_count,
-                twitter_community, token
-              ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11);
+                twitter_community, token, chain
+              ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12);
             `;
             await this.pgClient.query(insertSql, [
               ts, twitterId, username, email, serviceType,
               createdAt, expireAt, totalPostsAllowed, totalPostsCount,
-              row.twitter_community || '', row.token || ''
+              row.twitter_community || '', row.token || '', planChain
             ]);
           }
+          written++;
           continue;
         }
         // Generic inserts
@@ -537,25 +705,25 @@ export class QuestDBService {
             const kolId = typeof row.kolId === 'string' ? parseInt(row.kolId, 10) : Number(row.kolId);
             const contract = String(row.contract || '');
             const txHash = String(row.txHash || '');
-            // Check uniqueness using txHash only (app-level, with index for performance)
-            const checkSql = `SELECT count(*) as c FROM kol_trades WHERE txHash = $1;`;
-            const checkRes = await this.pgClient.query(checkSql, [txHash]);
-            if (checkRes.rows[0]?.c > 0) {
-              if (config.questdb.diagnosticsVerbose) logger.debug(`Skipping duplicate kol_trade: txHash=${txHash}`);
+            const tradeChain = String(row.chain || 'BSC');
+            if (await this.hasKolTrade(txHash, kolId, tradeChain)) {
+              if (config.questdb.diagnosticsVerbose) logger.debug(`Skipping duplicate kol_trade: txHash=${txHash} kolId=${kolId} chain=${tradeChain}`);
               continue;
             }
             sql = `INSERT INTO kol_trades (
               timestamp, kolId, kolName, kolAvatar, kolTwitterId, contract, action, amount, usdtPrice, initialPrice, txHash,
               fromToken, fromTokenAddress, fromTokenCount, toToken, toTokenAddress, toTokenCount, toTokenRemainCount,
-              walletType, recentBuyerKols, recentSellerKols, chain
-            ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20,$21,$22);`;
+              walletType, recentBuyerKols, recentSellerKols, chain,
+              amountNum, usdtPriceNum, initialPriceNum, fromTokenCountNum, toTokenCountNum, toTokenRemainCountNum
+            ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20,$21,$22,$23,$24,$25,$26,$27,$28);`;
             values = [
               timestampIso, kolId, String(row.kolName || ''), String(row.kolAvatar || ''), String(row.kolTwitterId || ''),
               contract, String(row.action || 'unknown'), String(row.amount || ''), String(row.usdtPrice || ''), String(row.initialPrice || ''),
               txHash, String(row.fromToken || ''), String(row.fromTokenAddress || ''), String(row.fromTokenCount || ''),
               String(row.toToken || ''), String(row.toTokenAddress || ''), String(row.toTokenCount || ''), String(row.toTokenRemainCount || ''),
               Number(row.walletType || 0), JSON.stringify(row.recentBuyerKols || []), JSON.stringify(row.recentSellerKols || []),
-              String(row.chain || 'BSC')
+              tradeChain,
+              ...Object.keys(KOL_TRADE_NUMERIC_COLUMNS).map(column => parseDecimal(row[column]))
             ];
             break;
           case 'prices':
@@ -577,10 +745,12 @@ export class QuestDBService {
           logger.debug(`[QuestDB] inserting into ${table} => ${JSON.stringify(row, null, 2)}`);
         }
         await this.pgClient.query(sql, values);
+        written++;
       }
       if (config.questdb.diagnosticsVerbose) {
-        logger.debug(`✅ Inserted ${rows.length} rows into ${table}`);
+        logger.debug(`✅ Inserted ${written} rows into ${table}`);
       }
+      return written;
     } catch (error) {
       logger.error(`❌ PG insert failed for ${table}`, error);
       throw error;
@@ -589,7 +759,7 @@ export class QuestDBService {
   /**
    * Transforms and saves aggregated token info into the token_metrics table.
    */
-  async saveTokenMetrics(contractAddress: string, chain: Chain, data: TokenInfoResponse, dexscreenerPayload?: any): Promise<void> {
+  async saveTokenMetrics(contractAddress: string, chain: Chain, data: TokenInfoResponse, dexPair?: DexPair | null): Promise<void> {
     if (!this.initialized) {
       await this.init();
     }
@@ -605,8 +775,8 @@ export class QuestDBService {
     let volume_1h: number | null = null;
     let volume_24h: number | null = null;
     let cto: string | null = null;
-    if (dexscreenerPayload) {
-      const pair = dexscreenerPayload?.pairs?.[0] || null;
+    if (dexPair) {
+      const pair = dexPair;
       price_usd = pair?.priceUsd != null ? Number(pair.priceUsd) : null;
       market_cap = pair?.marketCap != null ? Number(pair.marketCap) : null;
       fdv = pair?.fdv != null ? Number(pair.fdv) : null;
@@ -621,9 +791,10 @@ export class QuestDBService {
       contract: normContract,
       chain: normChain,
       updated_at: now,
+      source: 'lookup',
     };
     // Add dexscreener fields if provided
-    if (dexscreenerPayload) {
+    if (dexPair) {
       row.price_usd = price_usd;
       row.market_cap = market_cap;
       row.fdv = fdv;
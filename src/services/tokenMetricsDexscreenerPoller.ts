@@ -3,13 +3,65 @@ import { logger } from '../utils/logger';
 import { config } from '../utils/config';
 import { CronJob } from 'cron';
 import { TokenInfoResponse } from '../models/token.types';
-import { TwitterApi } from 'twitter-api-v2';
+import { alertRuleService } from './alerts/alertRuleService';
+import { alertTemplateService } from './alerts/alertTemplateService';
+import { alertsSentService } from './alerts/alertsSentService';
+import { marketEventService } from './alerts/marketEventService';
+import { alertDeliveryService } from './alerts/alertDeliveryService';
+import { alertOutboxService } from './alerts/alertOutboxService';
+import { leaderElectionService } from './leaderElectionService';
+import { dexscreenerClient } from './dexscreenerClient';
+import { PLAN_STRATEGIES, PlanStrategy, getStrategyForServiceType } from './alerts/planStrategies';
+import { alertControlService } from './alerts/alertControlService';
+import { AlertControl, AlertEvaluation, AlertSendKey, ManualTriggerResult, PollerStatus, StrategyStatus, TokenMetricsSnapshot } from '../models/alert.types';
+import { AlertDeliveryMessage } from '../models/delivery.types';
+import { DEFAULT_PLAN_CHAIN, PlanChain, getDexLink, normalizeChain } from '../utils/chains';
+
+export const ALERT_POLLER_LEASE = 'alert-poller';
+
+// An active plan as seen by the poller
+interface PlanItem {
+  twitterId: string;
+  // Lower-cased for matching; the original address is kept for links since Solana addresses are case-sensitive
+  contract: string;
+  address: string;
+  chain: PlanChain;
+  serviceType: string;
+  strategy: PlanStrategy;
+}
+
+interface EvaluationContext {
+  // Evaluate and render only; nothing is queued
+  dryRun: boolean;
+  // Lease token for scheduled cycles; null for manual triggers, which are not tied to the lease
+  fencingToken: number | null;
+  pause: AlertControl | null;
+}
+
+export interface QueueOutcome {
+  eligible: boolean;
+  queued: boolean;
+  reason?: string;
+}
+
+export interface QueuedAlert {
+  key: AlertSendKey;
+  value: number;
+  cooldownMinutes: number;
+  maxPosts?: number;
+  // False for event alerts, which may repeat the previous value
+  requireChange?: boolean;
+}
 
 class TokenMetricsDexscreenerPoller {
-  private fiveMinJob: CronJob | null = null;
-  private oneHourJob: CronJob | null = null;
-  private oneHourBuyerJob: CronJob | null = null;
+  private alertJob: CronJob | null = null;
   private running = false;
+  private cycleInProgress = false;
+  private lastCycleAt: string | null = null;
+  private strategyStatus: Map<string, StrategyStatus> = new Map();
+  // Fencing token of the lease the current cycle runs under
+  private fencingToken: number | null = null;
+  private globalPause: AlertControl | null = null;
 
   private chunk<T>(arr: T[], size: number): T[][] {
     const out: T[][] = [];
@@ -21,610 +73,416 @@ class TokenMetricsDexscreenerPoller {
     if (this.running) return;
     await questdbService.init();
     this.running = true;
-    // 5-minute alert job (runs every 6 minutes at :00, :06, :12, etc.)
-    // this.fiveMinJob = new CronJob(
-    //   '0 */6 * * * *',  // Every 6 minutes at :00 seconds
-    //   async () => {
-    //     logger.info('[Scheduler] Starting 5-minute alert cycle');
-    //     await this.fetchTokenDexInfo('5min');
-    //   },
-    //   null,
-    //   true,
-    //   'UTC'
-    // );
-    // 1-hour volume alert job (runs at :00 every hour)
-    this.oneHourJob = new CronJob(
-      '0 0 * * * *',  // At :00 of every hour
-      async () => {
-        logger.info('[Scheduler] Starting 1-hour volume alert cycle');
-        await this.fetchTokenDexInfo('1h');
-      },
-      null,
-      true,
-      'UTC'
-    );
-    // 1-hour buyer alert job (runs at :00 every hour)
-    this.oneHourBuyerJob = new CronJob(
-      '0 0 * * * *',  // At the start of every hour
+    for (const strategy of PLAN_STRATEGIES) {
+      this.strategyStatus.set(strategy.name, {
+        name: strategy.name,
+        intervalMinutes: strategy.intervalMinutes,
+        allowedAlertTypes: strategy.allowedAlertTypes,
+        activePlans: 0,
+        lastRunAt: null,
+        lastAlertsPosted: 0,
+        lastError: null
+      });
+    }
+    // Ticks every minute; each strategy runs on minutes divisible by its interval.
+    // Strategies due on the same tick share one Dexscreener fetch.
+    this.alertJob = new CronJob(
+      '0 * * * * *',
       async () => {
-        logger.info('[Scheduler] Starting 1-hour buyer alert cycle');
-        await this.fetchTokenDexInfo('1h_buyer');
+        const minute = new Date().getUTCMinutes();
+        const due = PLAN_STRATEGIES.filter(s => minute % s.intervalMinutes === 0);
+        if (due.length === 0) return;
+        if (this.cycleInProgress) {
+          logger.warn('[Scheduler] Previous alert cycle still running - skipping this tick');
+          return;
+        }
+        this.cycleInProgress = true;
+        try {
+          // Only the instance holding the lease runs the cycle, so replicas don't double-post
+          await leaderElectionService.runIfLeader(ALERT_POLLER_LEASE, async fencingToken => {
+            this.fencingToken = fencingToken;
+            logger.info(`[Scheduler] Starting alert cycle for strategies: ${due.map(s => s.name).join(', ')}`);
+            await this.fetchTokenDexInfo(due);
+          });
+        } finally {
+          this.fencingToken = null;
+          this.cycleInProgress = false;
+        }
       },
       null,
       true,
       'UTC'
     );
-    logger.info('TokenMetricsDexscreenerPoller started with separate cron jobs for each alert type');
+    logger.info(`TokenMetricsDexscreenerPoller started with strategies: ${PLAN_STRATEGIES.map(s => `${s.name} (${s.intervalMinutes}m)`).join(', ')}`);
   }
 
   stop() {
-    if (this.fiveMinJob) {
-      this.fiveMinJob.stop();
-      this.fiveMinJob = null;
-    }
-    if (this.oneHourJob) {
-      this.oneHourJob.stop();
-      this.oneHourJob = null;
-    }
-    if (this.oneHourBuyerJob) {
-      this.oneHourBuyerJob.stop();
-      this.oneHourBuyerJob = null;
+    if (this.alertJob) {
+      this.alertJob.stop();
+      this.alertJob = null;
     }
     this.running = false;
     logger.info('TokenMetricsDexscreenerPoller and all jobs stopped');
   }
 
-  private async getTwitterClient(username?: string): Promise<TwitterApi | null> {
-    try {
-      let targetUsername: string;
-      let query: string;
-      if (username) {
-        targetUsername = username;
-        query = `
-          SELECT
-            access_token,
-            refresh_token,
-            expires_at,
-            username,
-            id
-          FROM twitter_auth
-          WHERE username = '${username.replace(/'/g, "''")}'
-          AND access_token IS NOT NULL
-          ORDER BY updated_at DESC
-          LIMIT 1`;
-      } else {
-        logger.debug('getTwitterClient: Attempting to fetch valid Twitter access token from database');
-        // First, get the username from user_posts_plans table
-        const userQuery = `
-          SELECT DISTINCT twitter_id
-          FROM user_posts_plans
-          WHERE twitter_id IS NOT NULL
-          LIMIT 1`;
-        logger.debug('getTwitterClient: Fetching username from user_posts_plans');
-        const userResult = await questdbService.query(userQuery);
-        if (userResult.rows.length === 0) {
-          logger.error('No username found in user_posts_plans table');
-          return null;
-        }
-        targetUsername = userResult.rows[0][0]?.trim();
-        if (!targetUsername) {
-          logger.error('Found empty username in user_posts_plans table');
-          return null;
-        }
-        logger.debug('getTwitterClient: Found username in user_posts_plans:', { username: targetUsername });
-        query = `
-          SELECT
-            access_token,
-            refresh_token,
-            expires_at,
-            username,
-            id
-          FROM twitter_auth
-          WHERE username = '${targetUsername.replace(/'/g, "''")}'
-          AND access_token IS NOT NULL
-          ORDER BY updated_at DESC
-          LIMIT 1`;
-      }
-      logger.debug('getTwitterClient: Executing query:', { query });
-      const result = await questdbService.query(query);
-      logger.debug('getTwitterClient: Query result:', {
-        rowsReturned: result.rows.length,
-        columns: result.columns,
-        firstRow: result.rows[0] ? '***REDACTED***' : 'No rows returned'
-      });
-      if (result.rows.length === 0) {
-        logger.error('No valid Twitter access token found in database - no rows returned');
-        return null;
-      }
-      const accessToken = result.rows[0][0]; // access_token is the first column in the SELECT
-      const refreshToken = result.rows[0][1]; // refresh_token
-      const usernameFromDb = result.rows[0][3] || 'unknown';
-      const userId = result.rows[0][4] || 'unknown';
-      const expiresAt = result.rows[0][2];
-      logger.debug('getTwitterClient: Found access token', {
-        username: usernameFromDb,
-        userId,
-        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : 'unknown',
-        tokenPrefix: accessToken ? `${accessToken.substring(0, 10)}...` : 'empty'
-      });
-      if (!accessToken) {
-        logger.error('Found row but access token is empty or undefined');
-        return null;
-      }
-      let currentAccessToken = accessToken;
-      let currentRefreshToken = refreshToken;
-      let currentExpiresAt = expiresAt;
-      // Refresh token if it's expired or about to expire (within 5 minutes)
-      const now = new Date();
-      const tokenExpiry = expiresAt ? (typeof expiresAt === 'string' ? new Date(expiresAt) : expiresAt) : null;
-      const shouldRefresh = !tokenExpiry || tokenExpiry < new Date(now.getTime() + 5 * 60 * 1000);
-      if (shouldRefresh) {
-        logger.info('getTwitterClient: Access token nearing expiry - attempting auto-refresh');
-        if (!refreshToken) {
-          logger.error('getTwitterClient: No refresh token available for auto-refresh');
-          return null;
-        }
-        try {
-          // Create app client for refresh (requires client_id and client_secret in config)
-          const appClient = new TwitterApi({
-            clientId: config.twitter.clientId,
-            clientSecret: config.twitter.clientSecret,
-          });
-          const refreshed = await appClient.refreshOAuth2Token(refreshToken);
-          currentAccessToken = refreshed.accessToken;
-          currentRefreshToken = refreshed.refreshToken;
-          currentExpiresAt = new Date(Date.now() + (refreshed.expiresIn || 7200) * 1000).toISOString();
-          // Update DB with new tokens using parameterized query
-          const updateQuery = `
-            UPDATE twitter_auth
-            SET
-              access_token = '${currentAccessToken.replace(/'/g, "''")}',
-              refresh_token = '${currentRefreshToken.replace(/'/g, "''")}',
-              expires_at = to_timestamp('${currentExpiresAt}', 'yyyy-MM-ddTHH:mm:ss.SSSZ'),
-              updated_at = now()
-            WHERE id = '${userId.replace(/'/g, "''")}';
-          `;
-          await questdbService.query(updateQuery);
-          logger.info('getTwitterClient: Successfully refreshed tokens and updated DB', {
-            username: usernameFromDb,
-            newExpiresAt: currentExpiresAt,
-            newTokenPrefix: `${currentAccessToken.substring(0, 10)}...`
-          });
-        } catch (refreshError: any) {
-          logger.error('getTwitterClient: Auto-refresh failed', {
-            error: refreshError.message,
-            code: refreshError.code,
-            status: refreshError.status
-          });
-          // Fall back to original token (might fail verification next)
-        }
-      }
-      // Create a new Twitter client with the (potentially refreshed) access token
-      logger.debug('getTwitterClient: Creating Twitter client with access token');
-      const client = new TwitterApi(currentAccessToken);
-      // Verify the token is valid by making a simple API call
-      try {
-        logger.debug('getTwitterClient: Verifying token with Twitter API');
-        const user = await client.v2.me();
-        logger.debug('getTwitterClient: Successfully verified token for user:', {
-          username: user.data.username,
-          id: user.data.id
-        });
-      } catch (error: any) {
-        const verifyError = error as {
-          message: string;
-          code?: string | number;
-          status?: number;
-        };
-        logger.error('getTwitterClient: Failed to verify token with Twitter API:', {
-          error: verifyError.message,
-          code: verifyError.code,
-          status: verifyError.status
-        });
-        return null;
-      }
-      return client;
-    } catch (error: any) {
-      const err = error as {
-        message: string;
-        stack?: string;
-        code?: string | number;
-        status?: number;
-      };
-      logger.error('Error in getTwitterClient:', {
-        error: err.message,
-        stack: err.stack,
-        code: err.code,
-        status: err.status
-      });
-      return null;
-    }
+  getStatus(): PollerStatus {
+    return {
+      running: this.running,
+      cycleInProgress: this.cycleInProgress,
+      lastCycleAt: this.lastCycleAt,
+      globalPause: this.globalPause,
+      strategies: Array.from(this.strategyStatus.values())
+    };
   }
 
-  private extractCommunityId(communityLink: string): string | null {
+  private async postAlert(
+    message: AlertDeliveryMessage,
+    serviceType: string,
+    alert: QueuedAlert,
+    context: EvaluationContext
+  ): Promise<QueueOutcome> {
+    const { contract, chain, twitterId } = message;
     try {
-      // Handle different community link formats
-      // Format 1: https://twitter.com/i/communities/1234567890123456789
-      // Format 2: https://x.com/i/communities/1234567890123456789
-      // Format 3: https://twitter.com/i/communities/1234567890123456789/settings
-      const match = communityLink.match(/[\/](?:communities|i\/communities)[\/](\d+)/);
-      if (match && match[1]) {
-        return match[1];
+      // Skip alerts still cooling down, too close to another alert, or repeating the last numbers
+      const sendCheck = await alertsSentService.checkSend(alert.key, alert.value, alert.cooldownMinutes, Date.now(), alert.requireChange ?? true);
+      if (!sendCheck.allowed) {
+        logger.info(`[Alert ${alert.key.alertType}:${alert.key.window}] Suppressed for ${twitterId}/${contract}: ${sendCheck.reason}`);
+        return { eligible: false, queued: false, reason: sendCheck.reason };
       }
-      // If the link is just a community ID
-      if (/^\d+$/.test(communityLink)) {
-        return communityLink;
-      }
-      logger.warn('Could not extract community ID from link:', communityLink);
-      return null;
-    } catch (error) {
-      logger.error('Error extracting community ID:', error);
-      return null;
-    }
-  }
-
-  async postToCommunity(tweetText: string, communityLinkOrId: string, username?: string): Promise<boolean> {
-    const client = await this.getTwitterClient(username);
-    if (!client) {
-      logger.error('Failed to get Twitter client');
-      return false;
-    }
-    // Extract community ID from the provided link or ID
-    const communityId = this.extractCommunityId(communityLinkOrId);
-    if (!communityId) {
-      logger.error('Invalid community link or ID:', communityLinkOrId);
-      return false;
-    }
-    try {
-      // Truncate if necessary
-      const truncatedText = tweetText.length > 280 ? tweetText.substring(0, 277) + '...' : tweetText;
-      // Post the tweet directly to the community
-      const tweet = await client.v2.tweet({
-        text: truncatedText,
-        community_id: communityId
-      });
-      logger.info('Successfully posted to community', {
-        tweetId: tweet.data.id,
-        communityId
-      });
-      return true;
-    } catch (error: any) {
-      logger.error('Failed to post to community:', {
-        error: error.message,
-        code: error.code,
-        status: error.status,
-        communityId
-      });
-      return false;
-    }
-  }
-
-
-  private async postAlert(message: string, contract: string, chain: string): Promise<boolean> {
-    try {
-      // First, check if we've reached the post limit for this contract and get twitter_community
+      // First, check if we've reached the post limit for this plan and get twitter_community
       const checkQuery = `
         SELECT twitter_id, total_posts_count, total_posts_allowed, twitter_community
         FROM user_posts_plans
         WHERE LOWER(token) = LOWER('${contract.replace(/'/g, "''")}')
+        AND twitter_id = '${twitterId.replace(/'/g, "''")}'
+        AND service_type = '${serviceType.replace(/'/g, "''")}'
         AND expire_at > now()
         ORDER BY created_at DESC
         LIMIT 1`;
       const result = await questdbService.query(checkQuery);
       if (result.rows.length === 0) {
-        logger.info(`No active plan found for ${contract} (${chain}) - skipping post`);
-        return false;
+        logger.info(`No active plan found for ${twitterId}/${contract} (${chain}) - skipping post`);
+        return { eligible: false, queued: false, reason: 'No active plan' };
       }
       const [twitter_id, currentCount, allowedCount, community_link_raw] = result.rows[0];
       const community_link = String(community_link_raw || '');
       const username = twitter_id; // twitter_id is the username
-      if (Number(currentCount) >= Number(allowedCount)) {
-        logger.info(`Post limit reached for ${contract} (${currentCount}/${allowedCount} posts)`);
-        return false;
+      const postLimit = alert.maxPosts !== undefined ? Math.min(Number(allowedCount), alert.maxPosts) : Number(allowedCount);
+      // Alerts still in the outbox will use quota once delivered, so count them against the limit
+      const queued = await alertOutboxService.countUndelivered(twitterId, contract);
+      if (Number(currentCount) + queued >= postLimit) {
+        logger.info(`Post limit reached for ${contract} (${currentCount} posted + ${queued} queued / ${postLimit} posts)`);
+        return { eligible: false, queued: false, reason: `Post limit reached (${currentCount} posted + ${queued} queued / ${postLimit})` };
+      }
+      if (context.pause) {
+        return { eligible: true, queued: false, reason: `Alerts paused (${context.pause.scope})` };
+      }
+      if (context.dryRun) {
+        return { eligible: true, queued: false, reason: 'Dry run' };
       }
-      // Get Twitter client for this username
-      const client = await this.getTwitterClient(username);
-      if (!client) {
-        logger.error('Could not create Twitter client - no valid access token found for username:', username);
-        return false;
+      // Queue for the plan's X account and every configured channel; the outbox dispatcher
+      // delivers, retries and charges the quota on the first confirmed delivery
+      if (context.fencingToken !== null && !(await leaderElectionService.isFenceValid(ALERT_POLLER_LEASE, context.fencingToken))) {
+        logger.warn(`Alert poller lease lost - not queueing alert for ${twitterId}/${contract}`);
+        return { eligible: true, queued: false, reason: 'Poller lease lost' };
       }
-      // Truncate message
-      const truncatedMessage = message.length > 280 ? message.substring(0, 277) + '...' : message;
-      let postSuccess = false;
-      if (community_link.trim()) {
-        postSuccess = await this.postToCommunity(truncatedMessage, community_link, username);
+      const channels = await alertDeliveryService.getChannelsForPlan(username, contract, community_link);
+      await alertOutboxService.enqueue(message, serviceType, channels);
+      await alertsSentService.recordSent(alert.key, alert.value, message.text);
+      return { eligible: true, queued: true };
+    } catch (error: any) {
+      logger.error('Error queueing alert:', error);
+      return { eligible: false, queued: false, reason: error?.message || String(error) };
+    }
+  }
+
+  /**
+   * Queues an alert raised outside the polling cycle (KOL convergence signals from trade ingestion).
+   * Cooldown, quota and pauses apply as for scheduled alerts; signals are deduplicated by the caller,
+   * so no poller lease is required.
+   */
+  async queueEventAlert(message: AlertDeliveryMessage, serviceType: string, alert: QueuedAlert): Promise<QueueOutcome> {
+    let pause: AlertControl | null;
+    try {
+      pause = alertControlService.findPause(await alertControlService.loadState(), message.twitterId, message.contract);
+    } catch (error: any) {
+      logger.error(`[Alerts] Failed to read pause state for ${message.twitterId}/${message.contract}: ${error?.message || error}`);
+      return { eligible: false, queued: false, reason: 'Control state unavailable' };
+    }
+    return this.postAlert(message, serviceType, alert, { dryRun: false, fencingToken: null, pause });
+  }
+
+  /**
+   * Runs a plan's rules and built-in market events against a snapshot and queues what passes
+   * the cooldown, dedup and quota checks (unless paused or a dry run).
+   */
+  private async evaluatePlan(
+    item: PlanItem,
+    snapshot: TokenMetricsSnapshot,
+    context: EvaluationContext
+  ): Promise<{ rulesEvaluated: number; results: AlertEvaluation[] }> {
+    const results: AlertEvaluation[] = [];
+    const baseTokenSymbol = snapshot.symbol;
+    const dexLink = getDexLink(item.chain, item.address);
+    // Evaluate this plan's rules against the snapshot
+    const rules = await item.strategy.getRules(item.twitterId, item.contract);
+    const matches = alertRuleService.evaluate(rules, snapshot);
+    logger.debug(`[Alerts][${item.strategy.name}] ${item.twitterId}/${baseTokenSymbol}: ${matches.length}/${rules.length} rules matched`);
+    for (const match of matches) {
+      const label = `${match.rule.metric}:${match.rule.window}`;
+      const tweetText = await alertTemplateService.renderAlert(
+        match.rule.metric,
+        snapshot,
+        { window: match.rule.window, value: match.value, dexLink },
+        item.twitterId,
+        item.contract
+      );
+      logger.info(`[Alert ${label}] Attempting to post for ${baseTokenSymbol} (${item.twitterId}, rule ${match.rule.ruleId})`);
+      const message: AlertDeliveryMessage = {
+        twitterId: item.twitterId,
+        contract: item.contract,
+        chain: item.chain,
+        kind: match.rule.metric,
+        window: match.rule.window,
+        text: tweetText,
+        snapshot,
+        dexLink
+      };
+      const outcome = await this.postAlert(message, item.serviceType, {
+        key: { twitterId: item.twitterId, contract: item.contract, alertType: match.rule.metric, window: match.rule.window },
+        value: match.value,
+        cooldownMinutes: match.rule.cooldownMinutes,
+        maxPosts: item.strategy.maxPosts
+      }, context);
+      if (outcome.queued) {
+        logger.info(`[Alert ${label}] Queued for ${baseTokenSymbol}`);
       } else {
-        // Fallback to regular Twitter post
-        const tweet = await client.v2.tweet(truncatedMessage);
-        postSuccess = !!tweet;
-        if (postSuccess) {
-          logger.info(`Posted to Twitter (${contract}): ${truncatedMessage}`);
-        } else {
-          logger.error('Failed to post to Twitter: No response from API');
-        }
+        logger.warn(`[Alert ${label}] Not queued for ${baseTokenSymbol}: ${outcome.reason}`);
       }
-      if (postSuccess) {
-        // Update the post count in user_posts_plans
-        const updateQuery = `
-          UPDATE user_posts_plans
-          SET total_posts_count = COALESCE(total_posts_count, 0) + 1,
-              updated_at = now()
-          WHERE twitter_id = '${username.replace(/'/g, "''")}' 
-          AND LOWER(token) = LOWER('${contract.replace(/'/g, "''")}')`;
-        await questdbService.query(updateQuery).catch(err =>
-          logger.error(`Failed to update post count for ${contract}:`, err)
-        );
-        return true;
+      results.push({
+        kind: match.rule.metric,
+        window: match.rule.window,
+        value: match.value,
+        ruleId: match.rule.ruleId,
+        text: tweetText,
+        ...outcome
+      });
+    }
+    // Built-in price move and market-cap milestone alerts
+    const events = marketEventService.detectPriceMoves(snapshot);
+    const milestoneEvent = await marketEventService.detectMilestone(item.twitterId, snapshot);
+    if (milestoneEvent) events.push(milestoneEvent);
+    for (const event of events.filter(e => item.strategy.allowedAlertTypes.includes(e.kind))) {
+      const label = `${event.kind}:${event.window}`;
+      const tweetText = await alertTemplateService.renderAlert(
+        event.kind,
+        snapshot,
+        { window: event.window, value: event.value, milestone: event.milestone, dexLink },
+        item.twitterId,
+        item.contract
+      );
+      logger.info(`[Alert ${label}] Attempting to post for ${baseTokenSymbol} (${item.twitterId})`);
+      const message: AlertDeliveryMessage = {
+        twitterId: item.twitterId,
+        contract: item.contract,
+        chain: item.chain,
+        kind: event.kind,
+        window: event.window,
+        text: tweetText,
+        snapshot,
+        dexLink
+      };
+      const outcome = await this.postAlert(message, item.serviceType, {
+        key: { twitterId: item.twitterId, contract: item.contract, alertType: event.kind, window: event.window },
+        value: event.value,
+        // Milestones are deduplicated by alert_milestones, not by cooldown
+        cooldownMinutes: event.kind === 'marketCapMilestone' ? 0 : config.alerts.priceMoveCooldownMinutes,
+        maxPosts: item.strategy.maxPosts
+      }, context);
+      if (outcome.queued) {
+        if (event.milestone !== undefined) {
+          await marketEventService.markMilestoneReached(item.twitterId, item.contract, event.milestone, snapshot.marketCap);
+        }
+        logger.info(`[Alert ${label}] Queued for ${baseTokenSymbol}`);
       } else {
-        logger.error('Failed to post alert for ${contract}');
-        return false;
+        logger.warn(`[Alert ${label}] Not queued for ${baseTokenSymbol}: ${outcome.reason}`);
       }
-    } catch (error) {
-      logger.error('Error posting alert:', error);
-      return false;
+      results.push({ kind: event.kind, window: event.window, value: event.value, text: tweetText, ...outcome });
     }
+    return { rulesEvaluated: rules.length, results };
+  }
+
+  /**
+   * Evaluates one plan right away with fresh Dexscreener data. Cooldowns, quota and pauses
+   * apply as in a scheduled cycle; with dryRun nothing is queued.
+   */
+  async triggerPlan(twitterId: string, contract: string, dryRun: boolean): Promise<{ result?: ManualTriggerResult; error?: string }> {
+    const res = await questdbService.query(
+      `SELECT twitter_id, token, chain, service_type
+       FROM user_posts_plans
+       WHERE twitter_id = '${twitterId.replace(/'/g, "''")}'
+       AND LOWER(token) = LOWER('${contract.replace(/'/g, "''")}')
+       AND expire_at > now()
+       ORDER BY created_at DESC
+       LIMIT 1;`
+    );
+    if (res.rows.length === 0) return { error: 'No active plan found for this token' };
+    const [planTwitterId, token, chain, serviceType] = res.rows[0];
+    const address = String(token).trim();
+    const item: PlanItem = {
+      twitterId: String(planTwitterId),
+      contract: address.toLowerCase(),
+      address,
+      chain: normalizeChain(chain) || DEFAULT_PLAN_CHAIN,
+      serviceType: String(serviceType || ''),
+      strategy: getStrategyForServiceType(String(serviceType || ''))
+    };
+    const pairs = await dexscreenerClient.getPairsByToken(item.address);
+    const pair = dexscreenerClient.selectPair(pairs, { baseToken: item.contract, chain: item.chain });
+    if (!pair) return { error: `No trading pair found on ${item.chain}` };
+    const snapshot = alertRuleService.buildSnapshot(pair, item.address, item.chain);
+    const pause = alertControlService.findPause(await alertControlService.loadState(), item.twitterId, item.contract);
+    logger.info(`[Alerts] Manual ${dryRun ? 'dry run' : 'trigger'} for ${item.twitterId}/${item.contract}`);
+    const { rulesEvaluated, results } = await this.evaluatePlan(item, snapshot, { dryRun, fencingToken: null, pause });
+    return {
+      result: {
+        twitterId: item.twitterId,
+        contract: item.contract,
+        chain: item.chain,
+        serviceType: item.serviceType,
+        dryRun,
+        pausedBy: pause,
+        snapshot,
+        rulesEvaluated,
+        results
+      }
+    };
   }
 
-  private async fetchTokenDexInfo(alertType: '5min' | '1h' | '1h_buyer') {
+  private async fetchTokenDexInfo(strategies: PlanStrategy[]) {
     if (!this.running) return;
-    const run5MinAlert = alertType === '5min';
-    const run1HrAlert = alertType === '1h';
-    const run1HrBuyerAlert = alertType === '1h_buyer';
+    const cycleStartedAt = new Date().toISOString();
+    const postedByStrategy: Map<string, number> = new Map(strategies.map(s => [s.name, 0]));
     try {
-      // Fetch active user plans with non-empty token addresses
+      // Fetch active user plans with non-empty token addresses, then keep those whose strategy is due
       const res = await questdbService.query(
-        `SELECT DISTINCT token AS contract, 'SOLANA' as chain, created_at
+        `SELECT twitter_id, token AS contract, chain, service_type, created_at
          FROM user_posts_plans
          WHERE token IS NOT NULL AND token != ''
+         AND twitter_id IS NOT NULL
          AND expire_at > now()
          ORDER BY created_at DESC;`
       );
+      const twitterIdx = res.columns.indexOf('twitter_id');
       const contractIdx = res.columns.indexOf('contract');
       const chainIdx = res.columns.indexOf('chain');
-      const items = res.rows.map(r => ({
-        contract: String(r[contractIdx] || '').toLowerCase(),
-        chain: String(r[chainIdx] || '').toUpperCase()
-      })).filter(x => x.contract);
+      const serviceTypeIdx = res.columns.indexOf('service_type');
+      const dueNames = new Set(strategies.map(s => s.name));
+      const allPlans: PlanItem[] = res.rows.map(r => {
+        const serviceType = String(r[serviceTypeIdx] || '');
+        const address = String(r[contractIdx] || '').trim();
+        return {
+          twitterId: String(r[twitterIdx] || ''),
+          // Lower-cased for matching; the original address is kept for links since Solana addresses are case-sensitive
+          contract: address.toLowerCase(),
+          address,
+          chain: normalizeChain(r[chainIdx]) || DEFAULT_PLAN_CHAIN,
+          serviceType,
+          strategy: getStrategyForServiceType(serviceType)
+        };
+      }).filter(x => x.contract && x.twitterId);
+      for (const strategy of strategies) {
+        const status = this.strategyStatus.get(strategy.name);
+        if (status) status.activePlans = allPlans.filter(p => p.strategy.name === strategy.name).length;
+      }
+      const items = allPlans.filter(p => dueNames.has(p.strategy.name));
+      // Pauses are read once per cycle. Paused plans (or all plans, under the kill switch)
+      // are not evaluated, but their metrics are still recorded
+      const controls = await alertControlService.loadState();
+      this.globalPause = controls.get('global') || null;
+      if (this.globalPause) {
+        logger.warn(`[Alerts] Alerts paused globally by ${this.globalPause.updatedBy} - recording metrics only`);
+      }
       if (items.length === 0) {
         logger.info('No active user plans with valid token addresses found - skipping this cycle');
+        this.recordCycle(strategies, cycleStartedAt, postedByStrategy, null);
         return;
       }
-      logger.info(`[${alertType}] Fetching data for ${items.length} unique tokens`);
-      const uniqueContracts = Array.from(new Set(items.map(i => i.contract)));
-      const batches = this.chunk(uniqueContracts, 30);
+      const addressByContract: Map<string, string> = new Map(items.map(i => [i.contract, i.address]));
+      const uniqueContracts = Array.from(addressByContract.keys());
+      logger.info(`[Alerts] Evaluating rules for ${items.length} plans across ${uniqueContracts.length} unique tokens`);
+      const batches = this.chunk(uniqueContracts, config.dexscreener.batchSize);
       let alertsPosted = 0;
       for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
         const batch = batches[batchIndex];
-        const batchUrl = `${config.baseUrls.dexscreener}${batch.join(',')}`;
         try {
-          logger.info(`[Dexscreener][batch:${batchIndex + 1}/${batches.length}] Fetching ${batch.length} contracts -> ${batchUrl}`);
-          const resp = await fetch(batchUrl);
-          if (!resp.ok) throw new Error(`HTTP ${resp.status}: Failed to fetch batch from Dexscreener`);
-          const json = await resp.json();
-          // Process the response: group pairs by (contract, chain) and detect changes
-          const pairsByContractChain: Map<string, any[]> = new Map();
-          for (const pair of (json as any).pairs || []) {
-            const baseContract = (pair.baseToken?.address || '').toLowerCase();
-            const pairChain = (pair.chainId || '').toUpperCase();
-            const key = `${baseContract}:${pairChain}`;
-            if (!pairsByContractChain.has(key)) {
-              pairsByContractChain.set(key, []);
-            }
-            pairsByContractChain.get(key)!.push(pair);
-          }
-          let batchChangesDetected = 0;
-          let batchAbsoluteChange = 0;
+          logger.info(`[Dexscreener][batch:${batchIndex + 1}/${batches.length}] Fetching ${batch.length} contracts`);
+          const pairsByContract = await dexscreenerClient.getPairsByTokens(batch.map(c => addressByContract.get(c) || c));
+          // Metrics are stored once per token, even when several plans track it
+          const metricsSaved = new Set<string>();
           for (const item of items) {
             if (batch.includes(item.contract)) {
-              const key = `${item.contract}:${item.chain}`;
-              const relevantPairs = pairsByContractChain.get(key) || [];
-              logger.debug(`[Dexscreener] Processing token ${item.contract} on chain ${item.chain} - Found ${relevantPairs.length} trading pairs`);
-              if (relevantPairs.length === 0) {
+              const allPairs = pairsByContract.get(item.contract) || [];
+              // Highest-liquidity pair of this token on the plan's chain
+              const selectedPair = dexscreenerClient.selectPair(allPairs, { baseToken: item.contract, chain: item.chain });
+              if (!selectedPair) {
                 logger.warn(`[Dexscreener] No trading pairs found for contract ${item.contract} on chain ${item.chain} - skipping update`);
-                // Log the actual API response for debugging
-                const allPairs = Array.from(pairsByContractChain.entries())
-                  .filter(([k]) => k.startsWith(`${item.contract}:`));
                 logger.debug(`[Dexscreener] Available pairs for token ${item.contract} across all chains:`,
-                  allPairs.map(([k, v]) => ({ chain: k.split(':')[1], pairs: v.length })));
+                  allPairs.map(p => ({ chain: p.chainId, pair: p.pairAddress })));
                 continue;
               }
-              // Select the pair with the highest liquidity
-              const selectedPair = relevantPairs.reduce((prev, curr) => {
-                const prevLiquidity = prev.liquidity?.usd || 0;
-                const currLiquidity = curr.liquidity?.usd || 0;
-                return currLiquidity > prevLiquidity ? curr : prev;
-              });
               logger.info(`[Dexscreener] Selected pair for ${item.contract}: ${selectedPair.baseToken?.symbol || 'unknown'} with $${selectedPair.liquidity?.usd || 0} liquidity`);
-              const baseTokenSymbol = selectedPair.baseToken?.symbol || 'UNKNOWN';
-              const priceUsd = selectedPair.priceUsd != null ? Number(selectedPair.priceUsd) : 0;
-              const volume5m = selectedPair.volume?.m5 != null ? Number(selectedPair.volume.m5) : 0;
-              const volume1h = selectedPair.volume?.h1 != null ? Number(selectedPair.volume.h1) : 0;
-              const volume24h = selectedPair.volume?.h24 != null ? Number(selectedPair.volume.h24) : 0;
-              const priceChange5m = selectedPair.priceChange?.m5 != null ? Number(selectedPair.priceChange.m5) : 0;
-              const priceChange1h = selectedPair.priceChange?.h1 != null ? Number(selectedPair.priceChange.h1) : 0;
-              const fdv = selectedPair.fdv != null ? Number(selectedPair.fdv) : 0;
-              const marketCap = selectedPair.marketCap != null ? Number(selectedPair.marketCap) : 0;
-              // Prepare alert messages based on alert types
-              const dexLink = `https://dexscreener.com/solana/${item.contract}`;
-              // 5-minute volume alert
-              if (run5MinAlert && volume5m > 0) {
-                const formattedVolume = volume5m >= 1000000
-                  ? `$${(volume5m / 1000000).toFixed(1)}M`
-                  : `$${(volume5m / 1000).toFixed(0)}k`;
-                const openingLines = [
-                  '🎉 5-MIN VOLUME ALERT! 🚀',
-                  '⚡️ FRESH 5-MIN SPIKE!',
-                  '🔥 5-MIN BUYING DETECTED!',
-                  '🚨 JUST HIT 5-MIN VOLUME!'
-                ];
-                const volumeLines = [
-                  `💸 5-min buy VOL: ${formattedVolume} on $${baseTokenSymbol} 🔥`,
-                  `💰 ${formattedVolume} bought in last 5-min → $${baseTokenSymbol}`,
-                  `🟢 ${formattedVolume} volume in 5-min on $${baseTokenSymbol}`,
-                  `🟢 5-min buys: ${formattedVolume} → $${baseTokenSymbol}`
-                ];
-                const chartLines = [
-                  `📈 DexScreener → ${dexLink}`,
-                  `📊 Live Chart → ${dexLink}`
-                ];
-                const footerLines = [
-                  'Auto-posted by @DEXAlerts_io | NFA | DYOR | Community-run',
-                  'Powered by @DEXAlerts_io | NFA | DYOR | Community-run',
-                  'Auto-sent by @DEXAlerts_io | NFA | DYOR | Community-run'
-                ];
-                const openingLine = openingLines[Math.floor(Math.random() * openingLines.length)];
-                const volumeLine = volumeLines[Math.floor(Math.random() * volumeLines.length)];
-                const chartLine = chartLines[Math.floor(Math.random() * chartLines.length)];
-                const footerLine = footerLines[Math.floor(Math.random() * footerLines.length)];
-                const caLine = `🔗 CA: ${item.contract}`;
-                const tweetText = `${openingLine}\n${volumeLine}\n${caLine}\n${chartLine}\n${footerLine}`;
-                logger.info(`[5min Alert] Attempting to post for ${baseTokenSymbol}`);
-                const posted = await this.postAlert(tweetText, item.contract, item.chain);
-                if (posted) {
-                  logger.info(`[5min Alert] Successfully posted for ${baseTokenSymbol}`);
-                  alertsPosted++;
-                } else {
-                  logger.warn(`[5min Alert] Failed to post for ${baseTokenSymbol}`);
-                }
-              }
-              // 1-hour volume alert
-              if (run1HrAlert && volume1h > 0) {
-                const formattedVolume = volume1h >= 1000000
-                  ? `$${(volume1h / 1000000).toFixed(1)}M`
-                  : `$${(volume1h / 1000).toFixed(0)}k`;
-                const openingLines = [
-                  '🕐 1-HOUR VOLUME ALERT!',
-                  '📊 1H TOTAL VOLUME JUST IN!',
-                  '🔥 1-HOUR VOLUME REPORT!',
-                  '🚀 1H VOLUME UPDATE!'
-                ];
-                const volumeLines = [
-                  `💰 1h volume: ${formattedVolume} on $${baseTokenSymbol}`,
-                  `📈 ${formattedVolume} traded in last hour → $${baseTokenSymbol}`,
-                  `🟢 1-hour total volume: ${formattedVolume} for $${baseTokenSymbol}`,
-                  `🟢 1h buys + sells: ${formattedVolume} → $${baseTokenSymbol}`
-                ];
-                const chartLines = [
-                  `📈 DexScreener → ${dexLink}`,
-                  `📊 Live Chart → ${dexLink}`
-                ];
-                const footerLines = [
-                  'Auto-posted by @DEXAlerts_io | NFA | DYOR | Community-run',
-                  'Powered by @DEXAlerts_io | NFA | DYOR | Community-run',
-                  'Auto-sent by @DEXAlerts_io | NFA | DYOR | Community-run'
-                ];
-                const openingLine = openingLines[Math.floor(Math.random() * openingLines.length)];
-                const volumeLine = volumeLines[Math.floor(Math.random() * volumeLines.length)];
-                const chartLine = chartLines[Math.floor(Math.random() * chartLines.length)];
-                const footerLine = footerLines[Math.floor(Math.random() * footerLines.length)];
-                const caLine = `🔗 CA: ${item.contract}`;
-                const tweetText = `${openingLine}\n${volumeLine}\n${caLine}\n${chartLine}\n${footerLine}`;
-                logger.info(`[1h Alert] Attempting to post for ${baseTokenSymbol}`);
-                const posted = await this.postAlert(tweetText, item.contract, item.chain);
-                if (posted) {
-                  logger.info(`[1h Alert] Successfully posted for ${baseTokenSymbol}`);
-                  alertsPosted++;
-                } else {
-                  logger.warn(`[1h Alert] Failed to post for ${baseTokenSymbol}`);
-                }
-              }
-              // 1-hour buyer alert
-              if (run1HrBuyerAlert) {
-                // Extract transaction data with null checks
-                const txns = selectedPair.txns || {};
-                const h1 = (txns as any)?.h1 || {};
-                const m5 = (txns as any)?.m5 || {};
-                const buyerCount = h1.buys || 0;
-                const sellerCount = h1.sells || 0;
-                logger.info(`[${baseTokenSymbol}] Transaction data - 1h: ${JSON.stringify(h1)}, 5m: ${JSON.stringify(m5)}`);
-                // Minimum number of buyers required to trigger an alert
-                const minBuyersThreshold = 1;
-                if (buyerCount >= minBuyersThreshold) {
-                  const priceChangeText = priceChange1h > 0 ? `+${priceChange1h.toFixed(2)}% 📈` :
-                    priceChange1h < 0 ? `${priceChange1h.toFixed(2)}% 📉` : '0% ➖';
-                  logger.info(`[${baseTokenSymbol}] Buyers: ${buyerCount}, Sellers: ${sellerCount} in the last hour`);
-                  const tweetText = `🎉 HOURLY BUYER ALERT! 🚀
-💸 1H: ${buyerCount} Unique Buyers Bought $${baseTokenSymbol} 🔥
-🔗 CA: ${item.contract}
-📊 [Live Chart](${dexLink})
-Auto-posted by @DEXAlerts_io | NFA | DYOR | Community-run`;
-                  logger.info(`[1h Buyer Alert] Attempting to post for ${baseTokenSymbol}`);
-                  const posted = await this.postAlert(tweetText, item.contract, item.chain);
-                  if (posted) {
-                    logger.info(`[1h Buyer Alert] Successfully posted for ${baseTokenSymbol}`);
-                    alertsPosted++;
-                  } else {
-                    logger.warn(`[1h Buyer Alert] Failed to post for ${baseTokenSymbol}`);
-                  }
-                }
+              const snapshot = alertRuleService.buildSnapshot(selectedPair, item.address, item.chain);
+              const baseTokenSymbol = snapshot.symbol;
+              const priceUsd = snapshot.priceUsd;
+              const volume5m = snapshot.volume['5m'];
+              const volume1h = snapshot.volume['1h'];
+              const volume24h = snapshot.volume['24h'];
+              const priceChange5m = snapshot.priceChange['5m'];
+              const priceChange1h = snapshot.priceChange['1h'];
+              const fdv = snapshot.fdv;
+              const marketCap = snapshot.marketCap;
+              const pause = alertControlService.findPause(controls, item.twitterId, item.contract);
+              if (pause) {
+                logger.info(`[Alerts] ${item.twitterId}/${baseTokenSymbol} paused (${pause.scope}) - skipping evaluation`);
+              } else {
+                const { results } = await this.evaluatePlan(item, snapshot, { dryRun: false, fencingToken: this.fencingToken, pause: null });
+                const queued = results.filter(r => r.queued).length;
+                postedByStrategy.set(item.strategy.name, (postedByStrategy.get(item.strategy.name) || 0) + queued);
+                alertsPosted += queued;
               }
+              const key = `${item.contract}:${item.chain}`;
+              if (metricsSaved.has(key)) continue;
+              metricsSaved.add(key);
               // Log the data for this token
               logger.info(`[${baseTokenSymbol}] Price: $${priceUsd.toFixed(6)} | ` +
                 `5m Vol: $${volume5m.toLocaleString()} (${priceChange5m > 0 ? '+' : ''}${priceChange5m.toFixed(2)}%) | ` +
                 `1h Vol: $${volume1h.toLocaleString()} (${priceChange1h > 0 ? '+' : ''}${priceChange1h.toFixed(2)}%)`);
-              // Update token_metrics with the latest data
+              // Append this cycle's values to the token_metrics time series
               try {
-                // Ensure baseTokenSymbol is a string and properly escaped
-                const safeSymbol = String(baseTokenSymbol || 'UNKNOWN').replace(/'/g, "''");
-                const safeContract = String(item.contract).replace(/'/g, "''");
-                const safeChain = String(item.chain).replace(/'/g, "''");
-                // First, attempt to update existing record (without updating timestamp)
-                const updateQuery = `
-  UPDATE token_metrics
-  SET
-    chain = '${safeChain}',
-    price_usd = ${priceUsd || 0},
-    volume_5m = ${volume5m || 0},
-    volume_1h = ${volume1h || 0},
-    volume_24h = ${volume24h || 0},
-    fdv = ${fdv || 0},
-    market_cap = ${marketCap || 0}
-  WHERE contract = '${safeContract}';`;
-                // Then, insert if no rows were updated
-                const insertQuery = `
-  INSERT INTO token_metrics
-  (contract, chain, price_usd, volume_5m, volume_1h, volume_24h, fdv, market_cap, timestamp)
-  VALUES (
-    '${safeContract}',
-    '${safeChain}',
-    ${priceUsd || 0},
-    ${volume5m || 0},
-    ${volume1h || 0},
-    ${volume24h || 0},
-    ${fdv || 0},
-    ${marketCap || 0},
-    now()
-  );`;
-                // First, check if record exists
-                const checkQuery = `SELECT 1 FROM token_metrics WHERE contract = '${safeContract}' AND chain = '${safeChain}' LIMIT 1;`;
-                try {
-                  // Check if record exists
-                  const exists = (await questdbService.query(checkQuery)).rows.length > 0;
-                  if (exists) {
-                    // Update existing record
-                    await questdbService.query(updateQuery);
-                    logger.debug(`[DB] Updated record for ${item.contract} (${item.chain})`);
-                  } else {
-                    // Insert new record
-                    await questdbService.query(insertQuery);
-                    logger.debug(`[DB] Inserted new record for ${item.contract} (${item.chain})`);
-                  }
-                } catch (error: any) {
-                  // Fallback to insert if update fails
-                  await questdbService.query(insertQuery).catch(err =>
-                    logger.error(`[DB] Failed to insert record for ${item.contract}:`, err)
-                  );
-                  logger.debug(`[DB] Inserted new record after error for ${item.contract}`);
-                }
+                await questdbService.insertBatch('token_metrics', [{
+                  timestamp: new Date().toISOString(),
+                  contract: item.contract,
+                  chain: item.chain,
+                  title: baseTokenSymbol,
+                  price_usd: priceUsd,
+                  market_cap: marketCap,
+                  fdv,
+                  volume_5m: volume5m,
+                  volume_1h: volume1h,
+                  volume_24h: volume24h,
+                  source: 'poller',
+                }]);
+                logger.debug(`[DB] Appended metrics for ${item.contract} (${item.chain})`);
               } catch (error) {
-                logger.error(`[DB] Failed to update token_metrics for ${item.contract} (${item.chain}):`, error);
+                logger.error(`[DB] Failed to append token_metrics for ${item.contract} (${item.chain}):`, error);
               }
             }
           }
           if (alertsPosted > 0) {
-            logger.info(`[${alertType}][batch:${batchIndex + 1}] Processed ${batch.length} contracts: Posted ${alertsPosted} alerts`);
+            logger.info(`[Alerts][batch:${batchIndex + 1}] Processed ${batch.length} contracts: Posted ${alertsPosted} alerts`);
           } else {
-            logger.debug(`[${alertType}][batch:${batchIndex + 1}] Processed ${batch.length} contracts: No alerts posted`);
+            logger.debug(`[Alerts][batch:${batchIndex + 1}] Processed ${batch.length} contracts: No alerts posted`);
           }
         } catch (err: any) {
           logger.error(`[Dexscreener][batch:${batchIndex + 1} failed] Error processing ${batch.length} contracts: ${err.message}`, { error: err });
@@ -632,12 +490,25 @@ Auto-posted by @DEXAlerts_io | NFA | DYOR | Community-run`;
       }
       // Overall cycle summary
       if (alertsPosted > 0) {
-        logger.info(`[${alertType}] Cycle complete: Posted ${alertsPosted} alerts for ${uniqueContracts.length} tokens`);
+        logger.info(`[Alerts] Cycle complete: Posted ${alertsPosted} alerts for ${uniqueContracts.length} tokens`);
       } else {
-        logger.info(`[${alertType}] Cycle complete: No alerts posted for ${uniqueContracts.length} tokens`);
+        logger.info(`[Alerts] Cycle complete: No alerts posted for ${uniqueContracts.length} tokens`);
       }
-    } catch (e) {
+      this.recordCycle(strategies, cycleStartedAt, postedByStrategy, null);
+    } catch (e: any) {
       logger.error('TokenMetricsDexscreenerPoller fetchTokenDexInfo failed - Full cycle error', { error: e });
+      this.recordCycle(strategies, cycleStartedAt, postedByStrategy, e?.message || String(e));
+    }
+  }
+
+  private recordCycle(strategies: PlanStrategy[], startedAt: string, posted: Map<string, number>, error: string | null) {
+    this.lastCycleAt = startedAt;
+    for (const strategy of strategies) {
+      const status = this.strategyStatus.get(strategy.name);
+      if (!status) continue;
+      status.lastRunAt = startedAt;
+      status.lastAlertsPosted = posted.get(strategy.name) || 0;
+      status.lastError = error;
     }
   }
 }
@@ -0,0 +1,140 @@
+import { questdbService } from './questDbService';
+import { MetricsInterval, TokenMetricsBucket, TokenMetricsSeries } from '../models/token.types';
+
+const esc = (s: string) => s.replace(/'/g, "''");
+
+const INTERVAL_MS: Record<MetricsInterval, number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+// Range used when `from` is omitted, and the widest range allowed, per interval
+const DEFAULT_RANGE_MS: Record<MetricsInterval, number> = {
+  '5m': 24 * INTERVAL_MS['1h'],
+  '1h': 7 * INTERVAL_MS['1d'],
+  '1d': 90 * INTERVAL_MS['1d'],
+};
+const MAX_BUCKETS = 2000;
+// Rolling windows of the poller's volume_5m, volume_1h and volume_24h readings, in column order
+const VOLUME_WINDOWS_MS = [5 * 60 * 1000, 60 * 60 * 1000, 24 * 60 * 60 * 1000];
+const CADENCE_TOLERANCE = 1.2;
+const PRICE_LOOKUP_CHUNK = 200;
+
+class TokenMetricsHistoryService {
+  /**
+   * Resolves the requested range, filling defaults and rejecting ranges that are too wide.
+   */
+  resolveRange(interval: MetricsInterval, from?: string, to?: string): { from: Date; to: Date } | { error: string } {
+    const toDate = to ? new Date(to) : new Date();
+    const fromDate = from ? new Date(from) : new Date(toDate.getTime() - DEFAULT_RANGE_MS[interval]);
+    if (isNaN(toDate.getTime()) || isNaN(fromDate.getTime())) return { error: 'from and to must be ISO dates' };
+    if (fromDate >= toDate) return { error: 'from must be before to' };
+    if ((toDate.getTime() - fromDate.getTime()) / INTERVAL_MS[interval] > MAX_BUCKETS) {
+      return { error: `Range too wide for interval ${interval} (max ${MAX_BUCKETS} buckets)` };
+    }
+    return { from: fromDate, to: toDate };
+  }
+
+  /**
+   * OHLC price and volume per bucket, gap-filled over the whole range.
+   * The poller's cadence depends on the plan (every 5 minutes for free tokens, hourly for paid ones by
+   * default), so volume is not a sum of readings: each poller reading covers the time since the previous
+   * one, using the shortest of its rolling 5m/1h/24h volumes that spans that gap, and that volume is
+   * spread over the buckets the gap overlaps. Ad-hoc lookup rows only contribute to prices.
+   */
+  async getSeries(contract: string, interval: MetricsInterval, from: Date, to: Date, chain?: string): Promise<TokenMetricsSeries> {
+    const fromIso = from.toISOString();
+    const toIso = to.toISOString();
+    const contractFilter = `contract = '${esc(contract.toLowerCase())}' ${chain ? `AND chain = '${esc(chain)}'` : ''}`;
+    const result = await questdbService.query(
+      `SELECT timestamp,
+              first(price_usd) AS open,
+              max(price_usd) AS high,
+              min(price_usd) AS low,
+              last(price_usd) AS close,
+              last(market_cap) AS market_cap,
+              count() AS samples
+       FROM token_metrics
+       WHERE ${contractFilter}
+       AND price_usd > 0
+       AND timestamp >= '${fromIso}' AND timestamp < '${toIso}'
+       SAMPLE BY ${interval} FROM '${fromIso}' TO '${toIso}'
+       FILL(PREV, PREV, PREV, PREV, PREV, 0);`
+    );
+    const num = (v: any) => (v != null && !isNaN(Number(v)) ? Number(v) : null);
+    const buckets: TokenMetricsBucket[] = result.rows.map(row => ({
+      timestamp: new Date(row[0]).toISOString(),
+      open: num(row[1]),
+      high: num(row[2]),
+      low: num(row[3]),
+      close: num(row[4]),
+      marketCap: num(row[5]),
+      volume: 0,
+      samples: Number(row[6] || 0),
+    }));
+    await this.addPollerVolume(buckets, contractFilter, interval, from, to);
+    return { contract: contract.toLowerCase(), chain: chain || null, interval, from: fromIso, to: toIso, buckets };
+  }
+
+  /**
+   * Adds gap-weighted poller volume to buckets aligned on `from`. Readings up to a day before the
+   * range are loaded so the first gap in the range is known.
+   */
+  private async addPollerVolume(buckets: TokenMetricsBucket[], contractFilter: string, interval: MetricsInterval, from: Date, to: Date): Promise<void> {
+    const bucketMs = INTERVAL_MS[interval];
+    const readings = await questdbService.query(
+      `SELECT timestamp, volume_5m, volume_1h, volume_24h
+       FROM token_metrics
+       WHERE ${contractFilter}
+       AND source = 'poller'
+       AND timestamp >= '${new Date(from.getTime() - VOLUME_WINDOWS_MS[VOLUME_WINDOWS_MS.length - 1]).toISOString()}'
+       AND timestamp < '${to.toISOString()}'
+       ORDER BY timestamp;`
+    );
+    let previous: number | null = null;
+    for (const row of readings.rows) {
+      const at = new Date(row[0]).getTime();
+      const gap = previous === null ? VOLUME_WINDOWS_MS[0] : Math.max(at - previous, 1);
+      previous = at;
+      // Poller cycles finish a little late; a 5m cadence should still read volume_5m
+      const window = VOLUME_WINDOWS_MS.findIndex(ms => gap <= ms * CADENCE_TOLERANCE);
+      const windowIndex = window === -1 ? VOLUME_WINDOWS_MS.length - 1 : window;
+      const windowMs = VOLUME_WINDOWS_MS[windowIndex];
+      const volume = Number(row[1 + windowIndex]);
+      if (!(volume > 0)) continue;
+      // After an outage longer than a day, the reading only covers its last 24 hours
+      const start = at - Math.min(gap, windowMs);
+      const perMs = volume / windowMs;
+      const first = Math.max(0, Math.floor((start - from.getTime()) / bucketMs));
+      const last = Math.min(buckets.length - 1, Math.floor((at - from.getTime()) / bucketMs));
+      for (let i = first; i <= last; i++) {
+        const bucketStart = from.getTime() + i * bucketMs;
+        const overlap = Math.min(at, bucketStart + bucketMs) - Math.max(start, bucketStart);
+        if (overlap > 0) buckets[i].volume += overlap * perMs;
+      }
+    }
+  }
+
+  /**
+   * Most recent USD price per contract, keyed by lowercased contract. Contracts without metrics are absent.
+   */
+  async getLatestPrices(contracts: string[]): Promise<Map<string, number>> {
+    const unique = Array.from(new Set(contracts.filter(Boolean).map(c => c.toLowerCase())));
+    const prices: Map<string, number> = new Map();
+    for (let i = 0; i < unique.length; i += PRICE_LOOKUP_CHUNK) {
+      const list = unique.slice(i, i + PRICE_LOOKUP_CHUNK).map(c => `'${esc(c)}'`).join(', ');
+      const result = await questdbService.query(
+        `SELECT contract, price_usd FROM token_metrics
+         WHERE contract IN (${list}) AND price_usd > 0
+         LATEST ON timestamp PARTITION BY contract;`
+      );
+      for (const row of result.rows) {
+        prices.set(String(row[0]), Number(row[1]));
+      }
+    }
+    return prices;
+  }
+}
+
+export const tokenMetricsHistoryService = new TokenMetricsHistoryService();
@@ -1,20 +1,17 @@
-import axios from 'axios';
-import { config } from '../utils/config';
 import { logger } from '../utils/logger';
+import { dexscreenerClient } from './dexscreenerClient';
 import type { PriceResponse } from '../models/token.types';
 
 export class PriceService {
     async getRealTimePrice(contractAddress: string): Promise<PriceResponse> {
         try {
-            const response = await axios.get(`${config.baseUrls.dexscreener}${contractAddress}`);
-            const pair = response.data.pairs?.[0];
+            const pair = await dexscreenerClient.getBestPair(contractAddress);
             if (!pair) throw new Error('No pair data');
-            console.log(pair, "pair");
 
             const priceData: PriceResponse = {
                 priceUsd: pair.priceUsd || '0',
-                volume: parseFloat(pair.volume?.h24 || '0'),
-                marketCap: parseFloat(pair.marketCap || '0'),
+                volume: Number(pair.volume?.h24 || 0),
+                marketCap: Number(pair.marketCap || 0),
 
             };
             logger.info(`DexScreener price for ${contractAddress}: ${priceData.priceUsd}`);
@@ -25,4 +22,4 @@ export class PriceService {
         }
     }
 
-}
\ No newline at end of file
+}
@@ -2,6 +2,7 @@ import { TokenInfoResponse } from '../models/token.types';
 import { config } from '../utils/config';
 import { chainInsightService } from './chainInsightService';
 import { questdbService } from './questDbService';
+import { dexscreenerClient } from './dexscreenerClient';
 
 type Chain = 'BSC'
 type ChainId = 56
@@ -108,14 +109,7 @@ export class TokenService {
             return { code: 0, message: 'Error', result: {} }; // Graceful fallback: empty result on failure
         });
 
-        const dexscreenerPromise = fetch(`${config.baseUrls.dexscreener}${contractAddress}`, {
-            method: 'GET'
-        }).then(async (res) => {
-            if (!res.ok) throw new Error(`Dexscreener error: ${res.status}`);
-            const json = await res.json();
-
-            return json;
-        }).catch((err) => {
+        const dexscreenerPromise = dexscreenerClient.getBestPair(contractAddress, { chain }).catch((err) => {
             logger.warn(`Dexscreener fetch failed for ${contractAddress}:`, err);
             return null;
         });
@@ -140,7 +134,7 @@ export class TokenService {
             narrativeResponse,
             pairsData,
             goplusResponse,
-            dexscreenerResponse
+            dexscreenerPair
         ] = await Promise.all(apiCalls);
 
         logger.info('All API calls resolved.');
@@ -218,7 +212,7 @@ export class TokenService {
 
         // 7. SAVE AGGREGATED DATA TO QUESTDB
         try {
-            await questdbService.saveTokenMetrics(contractAddress, chain, fullData, dexscreenerResponse);
+            await questdbService.saveTokenMetrics(contractAddress, chain, fullData, dexscreenerPair);
             logger.info(`Token metrics successfully saved to QuestDB for ${contractAddress}`);
         } catch (dbError) {
             logger.warn(`Failed to save token metrics to QuestDB for ${contractAddress}:`, dbError);
@@ -0,0 +1,45 @@
+import { redis } from '../utils/redisHelper';
+import { logger } from '../utils/logger';
+import { config } from '../utils/config';
+
+const SEEN_PREFIX = 'kol_trades:seen:';
+
+/**
+ * Redis claims that make kol_trades ingestion idempotent across restarts and consumer-group
+ * rebalances. A trade is identified by (txHash, kolId, chain); the first consumer to claim it
+ * inserts it. Claims expire after KAFKA_DEDUP_TTL_SECONDS, Redis may be unreachable and a claimant may
+ * die before inserting, so QuestDB's own (txHash, kolId, chain) check decides whether a trade is stored,
+ * published and counted: later deliveries of a claimed trade are checked against it, not dropped.
+ */
+export class TradeDedupService {
+    private key(txHash: string, kolId: string, chain: string): string {
+        return `${SEEN_PREFIX}${chain}:${kolId}:${txHash}`;
+    }
+
+    /**
+     * @returns false when the trade was already claimed. When Redis is unreachable the claim is
+     * granted and deduplication falls back to QuestDB.
+     */
+    async claim(txHash: string, kolId: string, chain: string): Promise<boolean> {
+        try {
+            const result = await redis.set(this.key(txHash, kolId, chain), Date.now().toString(), 'EX', config.kafka.dedupTtlSeconds, 'NX');
+            return result === 'OK';
+        } catch (error: any) {
+            logger.warn(`[TradeDedup] Redis claim failed for ${txHash}, relying on QuestDB check: ${error?.message || error}`);
+            return true;
+        }
+    }
+
+    /**
+     * Drops a claim whose insert failed so the next delivery can retry it.
+     */
+    async release(txHash: string, kolId: string, chain: string): Promise<void> {
+        try {
+            await redis.del(this.key(txHash, kolId, chain));
+        } catch (error: any) {
+            logger.warn(`[TradeDedup] Failed to release claim for ${txHash}: ${error?.message || error}`);
+        }
+    }
+}
+
+export const tradeDedupService = new TradeDedupService();
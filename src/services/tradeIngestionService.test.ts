@@ -0,0 +1,113 @@
+import { questdbService } from './questDbService';
+import { tradeIngestionService } from './tradeIngestionService';
+import { tradeStreamService } from './tradeStreamService';
+import { kolConvergenceService } from './alerts/kolConvergenceService';
+import { redis } from '../utils/redisHelper';
+
+jest.mock('../utils/logger', () => ({
+    logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../utils/redisHelper', () => ({
+    redis: { set: jest.fn(), del: jest.fn() },
+}));
+jest.mock('./tradeStreamService', () => ({
+    tradeStreamService: { publish: jest.fn() },
+}));
+jest.mock('./alerts/kolConvergenceService', () => ({
+    kolConvergenceService: { recordBuy: jest.fn() },
+}));
+
+const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const MESSAGE_TIME = Date.parse('2026-01-02T03:04:05.000Z');
+const meta = { topic: 'prod-tob-kol-transaction-update', partition: 0, offset: '42' };
+
+const message = JSON.stringify({
+    data: [{
+        transactionHash: '0xfeed',
+        chainName: 'BSC',
+        actionType: 1,
+        kol: { id: 7, name: 'kol', avatar: '', twitterId: 'kol_x' },
+        fromToken: 'WBNB',
+        fromTokenAddress: WBNB,
+        fromTokenCount: '1.5',
+        toToken: 'TKN',
+        toTokenAddress: TOKEN,
+        toTokenCount: '1.2K',
+        usdtPrice: '900',
+    }],
+});
+
+// Stand-in for kol_trades, keyed like QuestDB's (txHash, kolId, chain) check
+let storedRows: Array<Record<string, any>>;
+const tradeKey = (txHash: string, kolId: string | number, chain: string) => `${chain}:${kolId}:${txHash}`;
+const isStored = (txHash: string, kolId: string | number, chain: string) =>
+    storedRows.some(row => tradeKey(row.txHash, row.kolId, row.chain) === tradeKey(txHash, kolId, chain));
+
+let hasKolTrade: jest.SpyInstance;
+
+beforeEach(() => {
+    storedRows = [];
+    jest.clearAllMocks();
+    hasKolTrade = jest.spyOn(questdbService, 'hasKolTrade').mockImplementation(async (txHash, kolId, chain) => isStored(txHash, kolId, chain));
+    jest.spyOn(questdbService, 'insertBatch').mockImplementation(async (_table, rows) => {
+        const fresh = rows.filter(row => !isStored(row.txHash, row.kolId, row.chain));
+        storedRows.push(...fresh);
+        return fresh.length;
+    });
+});
+
+describe('TradeIngestionService.processMessage', () => {
+    it('stores, publishes and counts a redelivered message once when the Redis claim is unavailable', async () => {
+        (redis.set as jest.Mock).mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+        await tradeIngestionService.processMessage(message, meta, { timestamp: MESSAGE_TIME });
+        const rejections = await tradeIngestionService.processMessage(message, meta, { timestamp: MESSAGE_TIME });
+
+        expect(rejections).toEqual([]);
+        expect(storedRows).toHaveLength(1);
+        expect(tradeStreamService.publish).toHaveBeenCalledTimes(1);
+        expect(kolConvergenceService.recordBuy).toHaveBeenCalledTimes(1);
+    });
+
+    it('skips a redelivered message that is already claimed and stored', async () => {
+        (redis.set as jest.Mock).mockResolvedValueOnce('OK').mockResolvedValueOnce(null);
+
+        await tradeIngestionService.processMessage(message, meta, { timestamp: MESSAGE_TIME });
+        await tradeIngestionService.processMessage(message, meta, { timestamp: MESSAGE_TIME });
+
+        expect(hasKolTrade).toHaveBeenCalledTimes(1);
+        expect(storedRows).toHaveLength(1);
+        expect(tradeStreamService.publish).toHaveBeenCalledTimes(1);
+        expect(kolConvergenceService.recordBuy).toHaveBeenCalledTimes(1);
+    });
+
+    it('stores a claimed trade whose claimant died before inserting it', async () => {
+        (redis.set as jest.Mock).mockResolvedValue(null);
+
+        await tradeIngestionService.processMessage(message, meta, { timestamp: MESSAGE_TIME });
+
+        expect(storedRows).toHaveLength(1);
+        expect(tradeStreamService.publish).toHaveBeenCalledTimes(1);
+        expect(kolConvergenceService.recordBuy).toHaveBeenCalledTimes(1);
+    });
+
+    it('stores the trade at the message time', async () => {
+        (redis.set as jest.Mock).mockResolvedValue('OK');
+
+        await tradeIngestionService.processMessage(message, meta, { timestamp: MESSAGE_TIME });
+
+        expect(storedRows[0].timestamp).toBe('2026-01-02T03:04:05.000Z');
+        expect(kolConvergenceService.recordBuy).toHaveBeenCalledWith(expect.objectContaining({ boughtAt: MESSAGE_TIME }));
+    });
+
+    it('does not publish or record buys for replayed messages', async () => {
+        (redis.set as jest.Mock).mockResolvedValue('OK');
+
+        await tradeIngestionService.processMessage(message, meta, { timestamp: MESSAGE_TIME, replay: true });
+
+        expect(storedRows).toHaveLength(1);
+        expect(tradeStreamService.publish).not.toHaveBeenCalled();
+        expect(kolConvergenceService.recordBuy).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,247 @@
+import { questdbService } from './questDbService';
+import { tradeDedupService } from './tradeDedupService';
+import { deadLetterService } from './deadLetterService';
+import { kolConvergenceService } from './alerts/kolConvergenceService';
+import { tradeStreamService } from './tradeStreamService';
+import { KafkaTradeSource } from './ingestion/kafkaTradeSource';
+import { FileTradeSource } from './ingestion/fileTradeSource';
+import { logger } from '../utils/logger';
+import { config } from '../utils/config';
+import { parseDecimal } from '../utils/numbers';
+import { TradeChain, classifyTradeSide, normalizeAddress, toTradeChain } from '../utils/chains';
+import { KafkaMessageMeta, MessageRejection } from '../models/deadLetter.types';
+import { IngestedMessage, IngestionSourceKind, ProcessMessageOptions, TradeIngestionSource } from '../models/ingestion.types';
+
+const ENABLED_CHAINS: Set<TradeChain> = new Set(
+    config.kafka.chains.map(toTradeChain).filter((c): c is TradeChain => c !== null)
+);
+
+// Define the mapping for actionType
+const ACTION_TYPE_MAP: { [key: string]: string } = {
+    '0': 'default',
+    '1': 'initial_position',
+    '2': 'add_position',
+    '3': 'partial_sell',
+    '4': 'full_sell'
+};
+
+/**
+ * Source selected by INGESTION_SOURCE (Kafka by default, or a JSONL replay).
+ */
+export const createIngestionSource = (kind: IngestionSourceKind = config.ingestion.source as IngestionSourceKind): TradeIngestionSource => {
+    switch (kind) {
+        case 'kafka':
+            return new KafkaTradeSource();
+        case 'file':
+            return new FileTradeSource();
+        default:
+            throw new Error(`Unsupported ingestion source: ${kind}`);
+    }
+};
+
+/**
+ * Turns KOL trade messages from any source into kol_trades rows; rejected messages go to the dead-letter table.
+ */
+export class TradeIngestionService {
+    private source: TradeIngestionSource | null = null;
+
+    /**
+     * Consumes the source in the background (server mode).
+     */
+    start(source: TradeIngestionSource): void {
+        this.run(source).catch(error => logger.error(`Trade ingestion from ${source.name} stopped:`, error));
+    }
+
+    /**
+     * Consumes the source until it is exhausted or stopped.
+     */
+    async run(source: TradeIngestionSource): Promise<void> {
+        this.source = source;
+        logger.info(`Ingesting KOL trades from ${source.name}`);
+        try {
+            await source.run(message => this.handleMessage(message));
+        } finally {
+            if (this.source === source) this.source = null;
+        }
+    }
+
+    async stop(): Promise<void> {
+        await this.source?.stop();
+        this.source = null;
+    }
+
+    private async handleMessage({ value, meta, timestamp, replay }: IngestedMessage): Promise<void> {
+        try {
+            const rejections = await this.processMessage(value, meta, { timestamp, replay });
+            for (const rejection of rejections) {
+                await deadLetterService.record(meta, rejection, timestamp);
+            }
+        } catch (error) {
+            logger.error(`Message processing failed (${meta.topic} offset ${meta.offset}):`, error);
+        }
+    }
+
+    /**
+     * Parses one feed message and inserts its trades. Shared by every source and the dead-letter replay job.
+     * @returns what was rejected (the whole message or single trades); the caller decides whether to dead-letter it
+     */
+    async processMessage(rawValue: string | undefined, meta: KafkaMessageMeta, options: ProcessMessageOptions = {}): Promise<MessageRejection[]> {
+        if (!rawValue) {
+            logger.warn(`Empty message (${meta.topic} offset ${meta.offset}) - skipping`);
+            return [{ reason: 'empty_message', error: 'Message has no value', payload: '' }];
+        }
+        let tradeData: any;
+        try {
+            tradeData = JSON.parse(rawValue);
+        } catch (parseError: any) {
+            logger.warn(`Invalid JSON in message (${meta.topic} offset ${meta.offset}): ${rawValue.slice(0, 100)}... - skipping`);
+            return [{ reason: 'invalid_json', error: parseError?.message || String(parseError), payload: rawValue }];
+        }
+        const rejections: MessageRejection[] = [];
+        // Process each item in data array (batches)
+        for (const trade of tradeData?.data || []) {
+            // Rejected trades are kept as single-trade messages so a replay only re-runs that trade
+            const payload = JSON.stringify({ ...tradeData, data: [trade] });
+            try {
+                const rejection = await this.processTrade(trade, options);
+                if (rejection) rejections.push({ ...rejection, payload });
+            } catch (error: any) {
+                logger.error(`Failed to store trade ${trade?.transactionHash} (offset ${meta.offset}):`, error);
+                rejections.push({ reason: 'processing_error', error: error?.message || String(error), payload });
+            }
+        }
+        return rejections;
+    }
+
+    /**
+     * @returns the rejection when the trade cannot be stored, null when it was stored or deliberately skipped
+     */
+    private async processTrade(trade: any, options: ProcessMessageOptions): Promise<Omit<MessageRejection, 'payload'> | null> {
+        const txHash = String(trade?.transactionHash || '');
+        // Check for required field: Transaction Hash is critical for deduplication
+        if (!txHash) {
+            logger.warn('Missing transactionHash in trade data - skipping');
+            return { reason: 'missing_tx_hash', error: 'transactionHash is missing' };
+        }
+        // Validate txHash: skip if censored (contains *) or truncated (e.g., ends with 4 hex digits without full format)
+        if (txHash.includes('*')) {
+            logger.warn(`Invalid txHash format (censored/truncated): ${txHash} - skipping`);
+            return { reason: 'censored_tx_hash', error: `transactionHash is censored: ${txHash}` };
+        }
+        // === Data Parsing and Assignment ===
+        // Trades are stored at the time of their message so replays reproduce the original timeline
+        const timestampMs = options.timestamp ?? Date.now();
+        const timestampIso = new Date(timestampMs).toISOString();
+        const kolId = String(trade.kol?.id || '');
+        const kolName = String(trade.kol?.name || '');
+        const kolAvatar = String(trade.kol?.avatar || '');
+        const kolTwitterId = String(trade.kol?.twitterId || '');
+        const actionTypeKey = String(trade.actionType || '0');
+        const action = ACTION_TYPE_MAP[actionTypeKey] || 'unknown';
+        const chain = toTradeChain(trade.chainName || 'BSC'); // BSC | ETH | SOL
+        // NEW: Price/Value Fields
+        const usdtPrice = String(trade.usdtPrice ?? '');
+        const initialPrice = String(trade.initialPrice ?? '');
+        const fromToken = String(trade.fromToken || '');
+        const fromTokenAddress = String(trade.fromTokenAddress || '');
+        const fromTokenCount = String(trade.fromTokenCount ?? '');
+        const toToken = String(trade.toToken || '');
+        const toTokenAddress = String(trade.toTokenAddress || '');
+        const toTokenRemainCount = String(trade.toTokenRemainCount ?? '');
+        const walletType = trade.walletType;
+        const recentBuyerKols = JSON.stringify(trade.recentBuyerKols || []);
+        const recentSellerKols = JSON.stringify(trade.recentSellerKols || []);
+        // === Filtering and Insertion Logic ===
+        if (!chain || !ENABLED_CHAINS.has(chain)) {
+            logger.debug(`⏩ Skipping trade from unsupported chain: ${trade.chainName}`);
+            return null;
+        }
+        // The traded token is the side that is not a quote token (WBNB/WSOL/WETH/stables)
+        const side = classifyTradeSide(chain, fromTokenAddress, toTokenAddress);
+        if (!side) {
+            logger.debug(`⏩ Skipping ${chain} swap ${fromToken} -> ${toToken} with no traded token: ${txHash}`);
+            return null;
+        }
+        const isSell = side === 'sell';
+        const contract = isSell ? fromTokenAddress : toTokenAddress;
+        // Amount is the count of the traded token
+        const amount = isSell ? fromTokenCount : String(trade.toTokenCount ?? '');
+        // Idempotent on (txHash, kolId, chain): restarts and rebalances redeliver messages. A claim can be
+        // held by a delivery that died before inserting, so a hit is confirmed against QuestDB.
+        if (!(await tradeDedupService.claim(txHash, kolId, chain)) && await questdbService.hasKolTrade(txHash, kolId, chain)) {
+            logger.debug(`⏩ Duplicate trade ${txHash} for KOL ${kolId} on ${chain} - skipping`);
+            return null;
+        }
+        logger.info(`✅ Processing ${chain} trade for QuestDB: ${kolName} ${action} ${amount} of ${contract} (${usdtPrice} USDT) at ${timestampIso}`);
+        let written: number;
+        try {
+            written = await questdbService.insertBatch('kol_trades', [{
+                timestamp: timestampIso,  // Now ISO string
+                kolId,
+                kolName,
+                kolAvatar,
+                kolTwitterId,
+                contract,
+                action,
+                amount,
+                usdtPrice,
+                initialPrice,
+                txHash,
+                fromToken,
+                fromTokenAddress,
+                fromTokenCount,
+                toToken,
+                toTokenAddress,
+                toTokenCount: String(trade.toTokenCount ?? ''),
+                toTokenRemainCount,
+                walletType,
+                recentBuyerKols,
+                recentSellerKols,
+                chain
+            }]);
+        } catch (insertError) {
+            await tradeDedupService.release(txHash, kolId, chain);
+            throw insertError;
+        }
+        // Already stored: the Redis claim expired or was unavailable. Publishing again would repeat the buy.
+        if (written === 0) {
+            logger.debug(`⏩ Trade ${txHash} for KOL ${kolId} on ${chain} already stored - skipping`);
+            return null;
+        }
+        // Replayed history is stored only; live subscribers and the convergence window expect current trades
+        if (options.replay) return null;
+        await tradeStreamService.publish({
+            timestamp: timestampIso,
+            txHash,
+            chain,
+            action,
+            fromToken,
+            fromTokenAddress,
+            fromTokenCount,
+            toToken,
+            toTokenAddress,
+            toTokenCount: String(trade.toTokenCount ?? ''),
+            usdtPrice,
+            kolId,
+            kolName,
+            kolAvatar,
+            kolTwitterId,
+            fromTokenCountNum: parseDecimal(fromTokenCount),
+            toTokenCountNum: parseDecimal(trade.toTokenCount),
+            usdtPriceNum: parseDecimal(usdtPrice),
+        });
+        // Buys feed the smart-money convergence detector
+        if (side === 'buy' && kolId && contract) {
+            await kolConvergenceService.recordBuy({
+                chain,
+                contract: normalizeAddress(chain, contract),
+                symbol: toToken,
+                kol: { id: kolId, name: kolName, avatar: kolAvatar, twitterId: kolTwitterId },
+                boughtAt: timestampMs,
+            });
+        }
+        return null;
+    }
+}
+
+export const tradeIngestionService = new TradeIngestionService();
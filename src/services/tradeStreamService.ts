@@ -0,0 +1,80 @@
+import Redis from 'ioredis';
+import { redis } from '../utils/redisHelper';
+import { logger } from '../utils/logger';
+import { kolTradeService } from '../api/services/kolsActivity.service';
+import { KolStreamTrade, KolTradeRecord } from '../models/kols.types';
+
+const LIVE_CHANNEL = 'kol_trades:live';
+
+type TradeListener = (trade: KolStreamTrade) => void;
+
+/**
+ * Fans out ingested trades to live-feed clients. Ingestion publishes every stored trade on a Redis
+ * channel, so clients of any API instance receive trades ingested by any process. Each instance
+ * holds one subscriber connection, opened with the first client and closed with the last.
+ */
+export class TradeStreamService {
+    private subscriber: Redis | null = null;
+    private listeners: Set<TradeListener> = new Set();
+
+    /**
+     * Called by ingestion after a trade is stored. Never throws: the live feed is best effort.
+     */
+    async publish(record: KolTradeRecord): Promise<void> {
+        try {
+            await redis.publish(LIVE_CHANNEL, JSON.stringify(record));
+        } catch (error: any) {
+            logger.debug(`[TradeStream] Failed to publish trade ${record.txHash}: ${error?.message || error}`);
+        }
+    }
+
+    /**
+     * @returns a function that removes the listener
+     */
+    subscribe(listener: TradeListener): () => void {
+        this.listeners.add(listener);
+        if (!this.subscriber) this.openSubscriber();
+        return () => {
+            this.listeners.delete(listener);
+            if (this.listeners.size === 0) this.closeSubscriber();
+        };
+    }
+
+    get clientCount(): number {
+        return this.listeners.size;
+    }
+
+    private openSubscriber(): void {
+        const subscriber = redis.duplicate();
+        subscriber.on('message', (_channel: string, message: string) => {
+            let trade: KolStreamTrade | null;
+            try {
+                trade = kolTradeService.toStreamTrade(JSON.parse(message));
+            } catch (error: any) {
+                logger.warn(`[TradeStream] Dropping malformed live trade: ${error?.message || error}`);
+                return;
+            }
+            // Swaps with no side are not ingested, but may still arrive from an older publisher
+            if (!trade) return;
+            for (const listener of this.listeners) {
+                try {
+                    listener(trade);
+                } catch (error) {
+                    logger.error('[TradeStream] Listener failed:', error);
+                }
+            }
+        });
+        subscriber.subscribe(LIVE_CHANNEL).catch(error => logger.error(`[TradeStream] Failed to subscribe to ${LIVE_CHANNEL}:`, error));
+        this.subscriber = subscriber;
+        logger.info('[TradeStream] Live trade subscription opened');
+    }
+
+    private closeSubscriber(): void {
+        const subscriber = this.subscriber;
+        this.subscriber = null;
+        subscriber?.quit().catch(() => subscriber.disconnect());
+        logger.info('[TradeStream] Live trade subscription closed');
+    }
+}
+
+export const tradeStreamService = new TradeStreamService();
@@ -610,6 +610,23 @@ export class UsersService {
             throw error;
         }
     }
+    /**
+     * Returns the Twitter usernames linked to a Google account through twitter_auth.
+     * These are the twitter_id values used by user_posts_plans.
+     * @param email The user's email.
+     * @returns A de-duplicated list of Twitter usernames.
+     */
+    async getLinkedTwitterUsernames(email: string): Promise<string[]> {
+        try {
+            const safeEmail = email.replace(/'/g, "''");
+            const sql = `SELECT DISTINCT username FROM twitter_auth WHERE email = '${safeEmail}' AND username IS NOT NULL;`;
+            const result = await questdbService.query(sql);
+            return (result.rows || []).map((row: any[]) => String(row[0])).filter(Boolean);
+        } catch (error) {
+            logger.error(`[ERROR] Error fetching linked Twitter usernames for ${email}:`, error);
+            throw error;
+        }
+    }
     /**
      * Lists users with optional filtering and pagination.
      * @param limit Maximum number of users to return.
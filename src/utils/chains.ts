@@ -0,0 +1,172 @@
+// Chains a plan's token can live on. Payment chains ('SOL' | 'BSC') map onto these.
+export type PlanChain = 'SOLANA' | 'BSC' | 'ETH';
+
+// Chain codes used by the ChainInsight trade feed and stored in kol_trades.chain
+export type TradeChain = 'BSC' | 'ETH' | 'SOL';
+
+export interface QuoteToken {
+    symbol: string;
+    address: string;
+}
+
+export interface ChainInfo {
+    chain: PlanChain;
+    name: string;
+    // Value of `chainId` in Dexscreener responses and the path segment of its links
+    dexscreenerChainId: string;
+    explorerTokenUrl: string;
+    currencySymbol: string;
+    // EVM addresses are case-insensitive; Solana base58 addresses are not
+    caseInsensitiveAddresses: boolean;
+    tradeChain: TradeChain;
+    // Tokens KOL trades are priced in: spending one is a buy, receiving one is a sell.
+    // Includes the native-coin placeholder addresses the feed uses for unwrapped swaps.
+    quoteTokens: QuoteToken[];
+}
+
+export const CHAINS: Record<PlanChain, ChainInfo> = {
+    SOLANA: {
+        chain: 'SOLANA',
+        name: 'Solana',
+        dexscreenerChainId: 'solana',
+        explorerTokenUrl: 'https://solscan.io/token/',
+        currencySymbol: 'SOL',
+        caseInsensitiveAddresses: false,
+        tradeChain: 'SOL',
+        quoteTokens: [
+            { symbol: 'WSOL', address: 'So11111111111111111111111111111111111111112' },
+            { symbol: 'SOL', address: '11111111111111111111111111111111' },
+            { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' },
+            { symbol: 'USDT', address: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB' },
+        ],
+    },
+    BSC: {
+        chain: 'BSC',
+        name: 'BNB Chain',
+        dexscreenerChainId: 'bsc',
+        explorerTokenUrl: 'https://bscscan.com/token/',
+        currencySymbol: 'BNB',
+        caseInsensitiveAddresses: true,
+        tradeChain: 'BSC',
+        quoteTokens: [
+            { symbol: 'WBNB', address: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c' },
+            { symbol: 'BNB', address: '0x0000000000000000000000000000000000000000' },
+            { symbol: 'BNB', address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE' },
+            { symbol: 'USDT', address: '0x55d398326f99059fF775485246999027B3197955' },
+            { symbol: 'USDC', address: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d' },
+            { symbol: 'BUSD', address: '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56' },
+            { symbol: 'FDUSD', address: '0xc5f0f7b66764F6ec8C8Dff7BA683102295E16409' },
+            { symbol: 'USD1', address: '0x8d0D000Ee44948FC98c9B98A4FA4921476f08B0d' },
+        ],
+    },
+    ETH: {
+        chain: 'ETH',
+        name: 'Ethereum',
+        dexscreenerChainId: 'ethereum',
+        explorerTokenUrl: 'https://etherscan.io/token/',
+        currencySymbol: 'ETH',
+        caseInsensitiveAddresses: true,
+        tradeChain: 'ETH',
+        quoteTokens: [
+            { symbol: 'WETH', address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2' },
+            { symbol: 'ETH', address: '0x0000000000000000000000000000000000000000' },
+            { symbol: 'ETH', address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE' },
+            { symbol: 'USDT', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7' },
+            { symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' },
+            { symbol: 'DAI', address: '0x6B175474E89094C44Da98b954EedeAC495271d0F' },
+        ],
+    },
+};
+
+// Plans created before chains were stored have no chain; they were all Solana
+export const DEFAULT_PLAN_CHAIN: PlanChain = 'SOLANA';
+
+const ALIASES: Record<string, PlanChain> = {
+    SOL: 'SOLANA',
+    SOLANA: 'SOLANA',
+    BSC: 'BSC',
+    BNB: 'BSC',
+    ETH: 'ETH',
+    ETHEREUM: 'ETH',
+};
+
+/**
+ * Maps any known spelling (payment chain, Dexscreener chainId, plan chain) to a PlanChain.
+ * @returns null when the chain is not supported.
+ */
+export const normalizeChain = (value: unknown): PlanChain | null => {
+    if (value == null) return null;
+    return ALIASES[String(value).trim().toUpperCase()] || null;
+};
+
+export const getChainInfo = (chain: PlanChain): ChainInfo => CHAINS[chain];
+
+export const getDexLink = (chain: PlanChain, contract: string): string =>
+    `https://dexscreener.com/${CHAINS[chain].dexscreenerChainId}/${contract}`;
+
+export const getExplorerLink = (chain: PlanChain, contract: string): string =>
+    `${CHAINS[chain].explorerTokenUrl}${contract}`;
+
+export const TRADE_CHAINS: TradeChain[] = ['BSC', 'ETH', 'SOL'];
+
+/**
+ * Maps any known chain spelling to the kol_trades chain code.
+ * @returns null when the chain is not supported.
+ */
+export const toTradeChain = (value: unknown): TradeChain | null => {
+    const chain = normalizeChain(value);
+    return chain ? CHAINS[chain].tradeChain : null;
+};
+
+export const getTradeChainInfo = (chain: TradeChain): ChainInfo =>
+    Object.values(CHAINS).find(info => info.tradeChain === chain)!;
+
+export const isQuoteToken = (chain: TradeChain, address: string): boolean => {
+    if (!address) return false;
+    const info = getTradeChainInfo(chain);
+    return info.quoteTokens.some(q => info.caseInsensitiveAddresses
+        ? q.address.toLowerCase() === address.toLowerCase()
+        : q.address === address);
+};
+
+// Side of a KOL trade: spending a quote token is a buy, receiving one is a sell
+export type TradeSide = 'buy' | 'sell';
+
+/**
+ * Classifies a swap by which of its sides is one of the chain's quote tokens.
+ * @returns null for quote-to-quote (e.g. WBNB to USDT) and token-to-token swaps, which are
+ * neither a buy nor a sell of a traded token and are left out of ingestion, stats and the stream.
+ */
+export const classifyTradeSide = (chain: TradeChain, fromTokenAddress: string, toTokenAddress: string): TradeSide | null => {
+    const fromQuote = isQuoteToken(chain, fromTokenAddress);
+    const toQuote = isQuoteToken(chain, toTokenAddress);
+    if (fromQuote && !toQuote) return 'buy';
+    if (toQuote && !fromQuote) return 'sell';
+    return null;
+};
+
+/**
+ * The classifyTradeSide rule as SQL conditions over kol_trades rows (chain, fromTokenAddress,
+ * toTokenAddress) of the given chains. A row matching neither condition has no side.
+ */
+export const tradeSideSql = (chains: TradeChain[] = TRADE_CHAINS): Record<TradeSide, string> => {
+    const isQuote = (info: ChainInfo, col: string): string => {
+        const addresses = info.quoteTokens
+            .map(q => `'${info.caseInsensitiveAddresses ? q.address.toLowerCase() : q.address}'`)
+            .join(', ');
+        return `(${info.caseInsensitiveAddresses ? `lower(${col})` : col} IN (${addresses}))`;
+    };
+    const side = (quoteCol: string, tokenCol: string): string => `(${chains.map(chain => {
+        const info = getTradeChainInfo(chain);
+        return `(chain = '${chain}' AND ${isQuote(info, quoteCol)} AND NOT ${isQuote(info, tokenCol)})`;
+    }).join(' OR ')})`;
+    return { buy: side('fromTokenAddress', 'toTokenAddress'), sell: side('toTokenAddress', 'fromTokenAddress') };
+};
+
+/**
+ * Canonical form of an address on the chain: lowercased for EVM chains, unchanged for Solana.
+ */
+export const normalizeAddress = (chain: TradeChain, address: string): string =>
+    Object.values(CHAINS).some(info => info.tradeChain === chain && !info.caseInsensitiveAddresses)
+        ? address
+        : address.toLowerCase();
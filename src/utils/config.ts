@@ -7,6 +7,9 @@ export const config = {
   apiKey: process.env.CHAININSIGHT_API_KEY || '',
   cabalSpyApiKey: process.env.CABALSPY_API_KEY || '',
 
+  // Google accounts allowed to use admin endpoints (comma-separated)
+  adminEmails: (process.env.ADMIN_EMAILS || '').split(',').map(e => e.trim().toLowerCase()).filter(Boolean),
+
   twitter: {
     clientId: process.env.TWITTER_CLIENT_ID || 'VzM5YWNJdnZpOFRGWUhaaEFxVVo6MTpjaQ',
     appKey: process.env.TWITTER_APP_KEY || 'GEgCr1PO2PPz7QEnJQMV7YLYL',
@@ -16,6 +19,34 @@ export const config = {
     clientSecret: process.env.TWITTER_CLIENT_SECRET || 'wUqAictUHTDg2tv07Neqr0zeugsEgaCn4njD6nxneLtspiiFIW',
   },
 
+  kafka: {
+    // ChainInsight KOL trade feed (comma-separated brokers, SASL/SCRAM-SHA-256 when a username is set)
+    brokers: (process.env.KAFKA_BROKER_URL || '').split(',').map(b => b.trim()).filter(Boolean),
+    username: process.env.KAFKA_USERNAME || '',
+    password: process.env.KAFKA_PASSWORD || '',
+    groupId: process.env.KAFKA_GROUP_ID || 'cherrybot_group',
+    topic: process.env.KAFKA_TOPIC || 'prod-tob-kol-transaction-update',
+    // When set, every consumed message is appended to this JSONL file so it can be replayed offline
+    captureFile: process.env.KAFKA_CAPTURE_FILE || '',
+    // Chains whose KOL trades are ingested (BSC, ETH, SOL)
+    chains: (process.env.KAFKA_CHAINS || 'BSC,ETH,SOL').split(',').map(c => c.trim().toUpperCase()).filter(Boolean),
+    // How long a (txHash, kolId, chain) stays claimed in Redis; older redeliveries fall back to the QuestDB check
+    dedupTtlSeconds: parseInt(process.env.KAFKA_DEDUP_TTL_SECONDS || '604800'),
+  },
+
+  ingestion: {
+    // Start consuming KOL trades with the server
+    enabled: (process.env.INGESTION_ENABLED || 'false').toLowerCase() === 'true',
+    // 'kafka' or 'file' (JSONL replay)
+    source: process.env.INGESTION_SOURCE || 'kafka',
+    // JSONL file to replay, '-' for stdin
+    file: process.env.INGESTION_FILE || '-',
+    // Replay speed relative to the captured timestamps: 1 = real time, 10 = ten times faster, 0 = no delays
+    speed: parseFloat(process.env.INGESTION_REPLAY_SPEED || '1'),
+    // Replay the file as live trades (published to the stream and alerts) instead of history
+    live: (process.env.INGESTION_REPLAY_LIVE || 'false').toLowerCase() === 'true',
+  },
+
   questdb: {
     host: process.env.QUESTDB_HOST || 'localhost',
     fastPort: parseInt(process.env.QUESTDB_FAST_PORT || '9009'),
@@ -27,6 +58,78 @@ export const config = {
     ilpFlushMs: parseInt(process.env.QUESTDB_ILP_FLUSH_MS || '250')
   },
 
+  alerts: {
+    // Handle credited in the {{brand}} template variable
+    brandHandle: process.env.ALERTS_BRAND_HANDLE || '@DEXAlerts_io',
+    maxTweetLength: 280,
+    // Minutes between rule evaluations of paid plans (a divisor of 60). Each evaluation fetches every
+    // paid plan's token from Dexscreener, so 5 polls it 12x as often as the hourly default.
+    paidIntervalMinutes: parseInt(process.env.ALERTS_PAID_INTERVAL_MINUTES || '60'),
+    // Minimum minutes between any two alerts for the same plan and contract
+    planGapMinutes: parseInt(process.env.ALERTS_PLAN_GAP_MINUTES || '15'),
+    // Alerts whose metric moved less than this (percent) since the last post are suppressed
+    minChangePct: parseFloat(process.env.ALERTS_MIN_CHANGE_PCT || '1'),
+    // Price move (percent, absolute) over 5m or 1h that triggers a pump/dump alert
+    pumpPercent: parseFloat(process.env.ALERTS_PUMP_PERCENT || '20'),
+    dumpPercent: parseFloat(process.env.ALERTS_DUMP_PERCENT || '20'),
+    priceMoveCooldownMinutes: parseInt(process.env.ALERTS_PRICE_MOVE_COOLDOWN_MINUTES || '60'),
+    // Market-cap milestones in USD, each fires once per plan
+    marketCapMilestones: (process.env.ALERTS_MARKET_CAP_MILESTONES || '100000,250000,500000,1000000,5000000,10000000')
+      .split(',').map(v => Number(v.trim())).filter(v => v > 0).sort((a, b) => a - b),
+  },
+
+  stream: {
+    // Live trade stream (SSE): keep-alive event interval and the most trades replayed on resume
+    heartbeatMs: parseInt(process.env.STREAM_HEARTBEAT_MS || '15000'),
+    resumeLimit: parseInt(process.env.STREAM_RESUME_LIMIT || '1000'),
+  },
+
+  convergence: {
+    // Smart-money signal: at least minKols distinct KOLs buying the same token within windowMinutes.
+    // These are the defaults for subscribers who have not set their own thresholds.
+    minKols: parseInt(process.env.CONVERGENCE_MIN_KOLS || '3'),
+    windowMinutes: parseInt(process.env.CONVERGENCE_WINDOW_MINUTES || '10'),
+    cooldownMinutes: parseInt(process.env.CONVERGENCE_COOLDOWN_MINUTES || '60'),
+    // Longest window a subscriber can configure; older buys are dropped from the detector
+    maxWindowMinutes: 1440,
+  },
+
+  delivery: {
+    telegramBotToken: process.env.TELEGRAM_BOT_TOKEN || '',
+    // Per-request timeout for Telegram, Discord and webhook deliveries
+    timeoutMs: parseInt(process.env.ALERT_DELIVERY_TIMEOUT_MS || '10000'),
+    // Discord/webhook hosts exempt from the public-address check (comma-separated), for local development only
+    allowedPrivateHosts: (process.env.ALERT_DELIVERY_ALLOWED_HOSTS || '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean),
+  },
+
+  leader: {
+    // Identifies this process in lease holders; defaults to hostname:pid
+    instanceId: process.env.INSTANCE_ID || '',
+    // Lease lifetime; another instance takes over this long after the holder stops renewing
+    leaseTtlMs: parseInt(process.env.LEADER_LEASE_TTL_MS || '30000'),
+    renewIntervalMs: parseInt(process.env.LEADER_RENEW_INTERVAL_MS || '10000'),
+  },
+
+  outbox: {
+    // Deliveries picked up per dispatcher tick
+    batchSize: parseInt(process.env.ALERT_OUTBOX_BATCH_SIZE || '25'),
+    // Attempts before a retryable failure is marked failed
+    maxAttempts: parseInt(process.env.ALERT_OUTBOX_MAX_ATTEMPTS || '6'),
+    // Exponential backoff between attempts: base * 2^attempts, capped at max
+    baseBackoffMs: parseInt(process.env.ALERT_OUTBOX_BASE_BACKOFF_MS || '30000'),
+    maxBackoffMs: parseInt(process.env.ALERT_OUTBOX_MAX_BACKOFF_MS || '1800000'),
+  },
+
+  dexscreener: {
+    // Addresses per /tokens request (Dexscreener's limit)
+    batchSize: 30,
+    // Shared across instances through Redis; Dexscreener allows 300/min on this endpoint
+    requestsPerMinute: parseInt(process.env.DEXSCREENER_REQUESTS_PER_MINUTE || '240'),
+    // Pairs are cached per token address so the poller and user requests share results
+    cacheTtlSeconds: parseInt(process.env.DEXSCREENER_CACHE_TTL_SECONDS || '20'),
+    timeoutMs: parseInt(process.env.DEXSCREENER_TIMEOUT_MS || '10000'),
+  },
+
   baseUrls: {
     // ChainInsight Endpoints
     walletTags: 'https://memeradar.chaininsight.vip/api/v1/wallet_tags',
@@ -35,6 +138,8 @@ export const config = {
     community: 'https://memeradar.chaininsight.vip/api/v1/analyze_token_community_v2',
     callChannel: 'https://memeradar.chaininsight.vip/api/v1/analyze_token_call_channel',
     dexscreener: 'https://api.dexscreener.com/latest/dex/tokens/',
+    // Overridable so delivery adapters can be pointed at a local HTTP stand-in
+    telegram: process.env.TELEGRAM_API_BASE_URL || 'https://api.telegram.org',
 
     // CabalSpy Base URL
     cabalSpy: process.env.CABALSPY_BASE_URL || 'https://api.cabalspy.xyz/v1',
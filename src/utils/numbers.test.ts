@@ -0,0 +1,67 @@
+import { parseDecimal, parseFeedNumber } from './numbers';
+
+describe('parseDecimal', () => {
+    it('parses plain decimals and numbers', () => {
+        expect(parseDecimal('0.0012')).toBe(0.0012);
+        expect(parseDecimal('42')).toBe(42);
+        expect(parseDecimal('.5')).toBe(0.5);
+        expect(parseDecimal(12.5)).toBe(12.5);
+    });
+
+    it('expands subscript-zero notation', () => {
+        expect(parseDecimal('0.0₄5')).toBeCloseTo(0.00005, 12);
+        expect(parseDecimal('0.0₄5643')).toBeCloseTo(0.00005643, 12);
+        expect(parseDecimal('0.0{4}5643')).toBeCloseTo(0.00005643, 12);
+        expect(parseDecimal('0.0₁₂1')).toBeCloseTo(1e-13, 20);
+    });
+
+    it.each([
+        ['1.5K', 1500],
+        ['2M', 2_000_000],
+        ['3.25B', 3_250_000_000],
+        ['1T', 1e12],
+        ['4k', 4000],
+    ])('applies the suffix of %s', (input, expected) => {
+        expect(parseDecimal(input)).toBeCloseTo(expected, 6);
+    });
+
+    it('parses scientific notation', () => {
+        expect(parseDecimal('1e-7')).toBe(1e-7);
+        expect(parseDecimal('2.5E+3')).toBe(2500);
+    });
+
+    it('ignores "$", thousands separators and whitespace', () => {
+        expect(parseDecimal('$1,234.5')).toBe(1234.5);
+        expect(parseDecimal(' 1 000 ')).toBe(1000);
+    });
+
+    it('keeps the sign of negative values', () => {
+        expect(parseDecimal('-12.5')).toBe(-12.5);
+        expect(parseDecimal('-1.5K')).toBe(-1500);
+        expect(parseDecimal('-0.0₃7')).toBeCloseTo(-0.0007, 12);
+        expect(parseDecimal('-$1,234.5')).toBe(-1234.5);
+    });
+
+    it.each([
+        [''],
+        ['   '],
+        [null],
+        [undefined],
+        ['abc'],
+        ['1.2.3'],
+        ['12X'],
+        ['--1'],
+        [NaN],
+        [Infinity],
+    ])('returns null for %p', input => {
+        expect(parseDecimal(input)).toBeNull();
+    });
+});
+
+describe('parseFeedNumber', () => {
+    it('defaults missing and malformed values to 0', () => {
+        expect(parseFeedNumber('')).toBe(0);
+        expect(parseFeedNumber('n/a')).toBe(0);
+        expect(parseFeedNumber('1.5K')).toBe(1500);
+    });
+});
@@ -0,0 +1,35 @@
+// Subscript digits used by the feed's compact small-number notation, e.g. "0.0₄5643"
+const SUBSCRIPT_DIGITS = '₀₁₂₃₄₅₆₇₈₉';
+
+const SUFFIX_MULTIPLIERS: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9, T: 1e12 };
+
+const DECIMAL_PATTERN = /^([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)([KMBT])?$/i;
+
+/**
+ * Parses the decimal strings of the KOL trade feed:
+ * plain and scientific notation ("0.0012", "1e-7"), thousands separators and "$" ("$1,234.5"),
+ * K/M/B/T suffixes ("1.5K", "2M") and subscript-zero notation, where the subscript is the number
+ * of zeros after the decimal point ("0.0₄5643" and "0.0{4}5643" are 0.00005643).
+ * @returns null when the value is empty or not a number
+ */
+export const parseDecimal = (value: unknown): number | null => {
+    if (value == null) return null;
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    let str = String(value).trim().replace(/[\s,$]/g, '');
+    if (!str) return null;
+    str = str.replace(/^([-+]?)0\.0(?:([₀-₉]+)|\{(\d+)\})(\d+)/, (_match, sign: string, subscript: string | undefined, braced: string | undefined, digits: string) => {
+        const zeros = subscript !== undefined
+            ? parseInt(Array.from(subscript).map(d => SUBSCRIPT_DIGITS.indexOf(d)).join(''), 10)
+            : parseInt(braced!, 10);
+        return `${sign}0.${'0'.repeat(zeros)}${digits}`;
+    });
+    const match = str.match(DECIMAL_PATTERN);
+    if (!match) return null;
+    const num = Number(match[1]) * (match[2] ? SUFFIX_MULTIPLIERS[match[2].toUpperCase()] : 1);
+    return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * parseDecimal for amounts that default to 0 when missing or malformed.
+ */
+export const parseFeedNumber = (value: unknown): number => parseDecimal(value) ?? 0;
@@ -0,0 +1,55 @@
+// X's weighted length rules (twitter-text v3 config): code points in these ranges weigh 1, all others 2
+const LIGHT_RANGES: Array<[number, number]> = [
+    [0x0000, 0x10ff],
+    [0x2000, 0x200d],
+    [0x2010, 0x201f],
+    [0x2032, 0x2037],
+];
+
+// Every link is wrapped in a t.co URL of this length, whatever its own length
+const TRANSFORMED_URL_LENGTH = 23;
+
+// Links with a scheme, and bare domains such as example.io/path. Broader than X's TLD list,
+// so a word that merely looks like a domain is counted as a link: validation errs on the long side.
+const URL_PATTERN = /\bhttps?:\/\/[^\s]+|\b[a-z0-9][a-z0-9-]*(?:\.[a-z0-9-]+)*\.[a-z]{2,}\b(?:\/[^\s]*)?/gi;
+
+// An emoji sequence (with skin tones, variation selectors and ZWJ joins), a flag or a keycap counts as 2
+const EMOJI_PATTERN = /\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?(?:\u200D\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?)*|\p{Regional_Indicator}{2}|[#*0-9]\uFE0F?\u20E3/gu;
+
+const EMOJI_WEIGHT = 2;
+
+const codePointWeight = (codePoint: number): number =>
+    LIGHT_RANGES.some(([lo, hi]) => codePoint >= lo && codePoint <= hi) ? 1 : 2;
+
+/**
+ * Length of a post as X counts it against the 280 limit: text is NFC-normalised, links count as 23,
+ * emoji as 2, and CJK and other characters outside the Latin ranges as 2.
+ */
+export const getTweetLength = (text: string): number => {
+    let length = 0;
+    const rest = text.normalize('NFC')
+        .replace(URL_PATTERN, () => {
+            length += TRANSFORMED_URL_LENGTH;
+            return '';
+        })
+        .replace(EMOJI_PATTERN, () => {
+            length += EMOJI_WEIGHT;
+            return '';
+        });
+    for (const char of rest) {
+        length += codePointWeight(char.codePointAt(0)!);
+    }
+    return length;
+};
+
+/**
+ * Shortens text to at most max weighted characters, ending it with "..." when anything was cut.
+ */
+export const truncateTweet = (text: string, max: number): string => {
+    if (getTweetLength(text) <= max) return text;
+    const chars = Array.from(text.normalize('NFC'));
+    while (chars.length > 0 && getTweetLength(chars.join('') + '...') > max) {
+        chars.pop();
+    }
+    return chars.join('') + '...';
+};